@@ -32,6 +32,14 @@ export function ProofFormatBadge({ format, className = "" }: ProofFormatBadgePro
       label: "Blockchain TX",
       color: "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-400",
     },
+    SD_JWT_VC: {
+      label: "SD-JWT VC",
+      color: "bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-400",
+    },
+    MDOC: {
+      label: "mDL",
+      color: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
+    },
     OTHER: {
       label: "Other",
       color: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400",
@@ -267,6 +267,8 @@ export default function Proofs() {
                   <SelectItem value="HW_ATTESTATION">HW Attestation</SelectItem>
                   <SelectItem value="MERKLE_PROOF">Merkle Proof</SelectItem>
                   <SelectItem value="BLOCKCHAIN_TX_PROOF">Blockchain TX</SelectItem>
+                  <SelectItem value="SD_JWT_VC">SD-JWT VC</SelectItem>
+                  <SelectItem value="MDOC">mDL / mdoc</SelectItem>
                   <SelectItem value="OTHER">Other</SelectItem>
                 </SelectContent>
               </Select>
@@ -236,6 +236,8 @@ export default function Verification() {
                         <SelectItem value="HW_ATTESTATION">HW Attestation</SelectItem>
                         <SelectItem value="MERKLE_PROOF">Merkle Proof</SelectItem>
                         <SelectItem value="BLOCKCHAIN_TX_PROOF">Blockchain TX</SelectItem>
+                        <SelectItem value="SD_JWT_VC">SD-JWT VC</SelectItem>
+                        <SelectItem value="MDOC">mDL / mdoc</SelectItem>
                         <SelectItem value="OTHER">Other</SelectItem>
                       </SelectContent>
                     </Select>
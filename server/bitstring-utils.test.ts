@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { checkBit, readStatusEntry, writeStatusEntry } from "./bitstring-utils.js";
+
+/**
+ * Tests for multi-bit status entries
+ */
+
+describe("multi-bit status entries", () => {
+  it("round-trips values without touching neighbouring entries", () => {
+    const bitstring = Buffer.alloc(4);
+
+    writeStatusEntry(bitstring, 5, 2, 0x2);
+    writeStatusEntry(bitstring, 6, 2, 0x3);
+    writeStatusEntry(bitstring, 6, 2, 0x1);
+
+    expect(readStatusEntry(bitstring, 4, 2)).toBe(0);
+    expect(readStatusEntry(bitstring, 5, 2)).toBe(0x2);
+    expect(readStatusEntry(bitstring, 6, 2)).toBe(0x1);
+    expect(readStatusEntry(bitstring, 7, 2)).toBe(0);
+  });
+
+  it("stores the most significant bit first", () => {
+    const bitstring = Buffer.alloc(1);
+
+    writeStatusEntry(bitstring, 1, 2, 0x2);
+
+    expect(checkBit(bitstring, 2)).toBe(true);
+    expect(checkBit(bitstring, 3)).toBe(false);
+    expect(readStatusEntry(bitstring, 2, 1)).toBe(1);
+  });
+
+  it("rejects out-of-range indexes and values", () => {
+    const bitstring = Buffer.alloc(1);
+
+    expect(() => readStatusEntry(bitstring, 4, 2)).toThrow(/out of bounds/);
+    expect(() => writeStatusEntry(bitstring, 0, 2, 4)).toThrow(/does not fit/);
+    expect(() => readStatusEntry(bitstring, 0, 9)).toThrow(/statusSize/);
+  });
+});
@@ -1,6 +1,9 @@
+import { gunzipSync, gzipSync } from "zlib";
+
 /**
  * W3C Bitstring Status List Utilities
- * Implements bitwise operations for revocation and suspension tracking
+ * Implements bitwise operations for revocation and suspension tracking,
+ * and multi-bit entries for status messages
  * 
  * Reference: https://www.w3.org/TR/vc-bitstring-status-list/
  */
@@ -58,7 +61,7 @@ export function flipBit(bitstring: Buffer, index: number): void {
 /**
  * Get the status of a credential based on its status list entry
  * 
- * @param bitstring - Base64-encoded bitstring
+ * @param bitstring - Base64-encoded bitstring (gzipped or uncompressed)
  * @param index - Index in the bitstring
  * @param purpose - Purpose of the status list (revocation or suspension)
  * @returns Status object
@@ -73,7 +76,7 @@ export function getCredentialStatus(
   isSuspended: boolean;
   statusPurpose: string;
 } {
-  const buffer = Buffer.from(bitstring, 'base64');
+  const buffer = decompressBitstring(Buffer.from(bitstring, 'base64'));
   const bitSet = checkBit(buffer, index);
   
   if (purpose === "revocation") {
@@ -100,6 +103,54 @@ export function getCredentialStatus(
   };
 }
 
+/**
+ * Read a multi-bit status entry (W3C statusSize > 1)
+ * 
+ * Entry `index` occupies bits index*statusSize .. index*statusSize + statusSize - 1,
+ * the first of them being the most significant bit of the value. With
+ * statusSize 1 this is checkBit.
+ * 
+ * @returns Entry value (0 .. 2^statusSize - 1)
+ */
+export function readStatusEntry(bitstring: Buffer, index: number, statusSize: number): number {
+  validateEntry(bitstring, index, statusSize);
+  let value = 0;
+  for (let k = 0; k < statusSize; k++) {
+    value = (value << 1) | (checkBit(bitstring, index * statusSize + k) ? 1 : 0);
+  }
+  return value;
+}
+
+/**
+ * Write a multi-bit status entry (layout as in readStatusEntry)
+ */
+export function writeStatusEntry(bitstring: Buffer, index: number, statusSize: number, value: number): void {
+  validateEntry(bitstring, index, statusSize);
+  if (!Number.isInteger(value) || value < 0 || value >= 2 ** statusSize) {
+    throw new Error(`Status value ${value} does not fit in ${statusSize} bits`);
+  }
+  for (let k = 0; k < statusSize; k++) {
+    const position = index * statusSize + k;
+    if ((value >> (statusSize - 1 - k)) & 1) {
+      setBit(bitstring, position);
+    } else {
+      clearBit(bitstring, position);
+    }
+  }
+}
+
+function validateEntry(bitstring: Buffer, index: number, statusSize: number): void {
+  if (!Number.isInteger(statusSize) || statusSize < 1 || statusSize > 8) {
+    throw new Error(`Invalid statusSize ${statusSize} (1-8 bits supported)`);
+  }
+  const entries = Math.floor((bitstring.length * 8) / statusSize);
+  if (!Number.isInteger(index) || index < 0 || index >= entries) {
+    throw new Error(
+      `Index ${index} is out of bounds for ${entries} entries of ${statusSize} bits (max index: ${entries - 1})`
+    );
+  }
+}
+
 /**
  * Validate that an index is within the bounds of a bitstring
  */
@@ -142,20 +193,23 @@ export function applyOperations(
 }
 
 /**
- * Compress bitstring using gzip (W3C recommends compression for large lists)
- * Note: This is a placeholder - full W3C implementation uses GZIP compression
+ * Whether a stored bitstring is gzip-compressed (lists created before
+ * allocation were stored uncompressed)
+ */
+export function isCompressedBitstring(stored: Buffer): boolean {
+  return stored.length >= 2 && stored[0] === 0x1f && stored[1] === 0x8b;
+}
+
+/**
+ * Compress bitstring using gzip (W3C Bitstring Status List encodedList format)
  */
 export function compressBitstring(bitstring: Buffer): Buffer {
-  // For now, return as-is
-  // In production, use zlib.gzipSync(bitstring)
-  return bitstring;
+  return gzipSync(bitstring);
 }
 
 /**
- * Decompress bitstring
+ * Decompress bitstring (uncompressed legacy bitstrings are returned as-is)
  */
-export function decompressBitstring(compressed: Buffer): Buffer {
-  // For now, return as-is
-  // In production, use zlib.gunzipSync(compressed)
-  return compressed;
+export function decompressBitstring(stored: Buffer): Buffer {
+  return isCompressedBitstring(stored) ? gunzipSync(stored) : stored;
 }
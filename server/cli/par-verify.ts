@@ -0,0 +1,95 @@
+import { readFileSync, statSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { readStatusListCredential, verifyReceiptOffline } from "../offline-verify.js";
+import { isReceiptAlg, type ReceiptAlg } from "../services/receipt-alg-policy.js";
+
+/**
+ * par-verify - check a receipt offline against local files
+ *
+ *   npm run par-verify -- receipt.jwt --jwks jwks.json \
+ *     [--status-list status.json] [--status-list-issuer https://registry.example] \
+ *     [--revoked-keys revoked-keys.json] [--audience rp.example] [--nonce n-123] \
+ *     [--max-status-age 86400] [--alg ES256,EdDSA]
+ *
+ * The receipt may be any profile (jwt, vc-jwt, vc-di); pass `-` to read it
+ * from stdin. The status list is the signed credential as served (Data
+ * Integrity JSON or VC-JWT); it must be signed by a key in --jwks and issued
+ * by --status-list-issuer (default: the origin of the receipt's status list
+ * URL). Its age is taken from --status-list-fetched-at, its validFrom, or the
+ * file's modification time.
+ *
+ * Prints the verdict as JSON. Exit codes: 0 valid, 1 invalid/revoked/suspended,
+ * 3 unknown (status not confirmed), 2 usage or input error.
+ */
+
+const USAGE = "Usage: par-verify <receipt-file|-> --jwks <jwks.json> [--status-list <file>] [--status-list-fetched-at <iso>] "
+  + "[--status-list-issuer <issuer,...>] [--revoked-keys <file>] [--audience <aud>] [--nonce <nonce>] [--max-status-age <seconds>] [--alg <alg,...>]";
+
+function readJson(path: string): any {
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      jwks: { type: "string" },
+      "status-list": { type: "string" },
+      "status-list-fetched-at": { type: "string" },
+      "status-list-issuer": { type: "string" },
+      "revoked-keys": { type: "string" },
+      audience: { type: "string" },
+      nonce: { type: "string" },
+      "max-status-age": { type: "string" },
+      alg: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const [receiptPath] = positionals;
+  if (!receiptPath || !values.jwks) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const allowedAlgorithms = values.alg?.split(",").map((alg) => alg.trim());
+  if (allowedAlgorithms && !allowedAlgorithms.every(isReceiptAlg)) {
+    console.error(`[par-verify] Unsupported algorithm in --alg ${values.alg}`);
+    return 2;
+  }
+
+  const statusListPath = values["status-list"];
+  const statusListFetchedAt = values["status-list-fetched-at"]
+    ? new Date(values["status-list-fetched-at"])
+    : undefined;
+  const statusListCredential = statusListPath ? readFileSync(statusListPath, "utf-8") : undefined;
+  const statusListValidFrom = statusListCredential ? readStatusListCredential(statusListCredential)?.validFrom : undefined;
+
+  const result = await verifyReceiptOffline({
+    receipt: readFileSync(receiptPath === "-" ? 0 : receiptPath, "utf-8").trim(),
+    jwks: readJson(values.jwks),
+    revokedKeys: values["revoked-keys"] ? readJson(values["revoked-keys"]) : undefined,
+    statusListCredential,
+    trustedStatusListIssuers: values["status-list-issuer"]?.split(",").map((issuer) => issuer.trim()),
+    statusListFetchedAt: statusListFetchedAt
+      || (statusListPath && !statusListValidFrom ? statSync(statusListPath).mtime : undefined),
+    expectedAudience: values.audience,
+    expectedNonce: values.nonce,
+    allowedAlgorithms: allowedAlgorithms as ReceiptAlg[] | undefined,
+    maxStatusAgeMs: values["max-status-age"] ? parseInt(values["max-status-age"], 10) * 1000 : undefined,
+  });
+
+  console.log(JSON.stringify(result, null, 2));
+  if (result.verdict === "valid") return 0;
+  return result.verdict === "unknown" ? 3 : 1;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error("[par-verify]", error.message);
+    process.exit(2);
+  });
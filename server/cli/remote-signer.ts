@@ -0,0 +1,65 @@
+import express, { type Request, type Response } from "express";
+import { exportJWK, generateKeyPair, calculateJwkThumbprint } from "jose";
+import { localJwkSigner } from "../services/signers/local.js";
+
+/**
+ * Local stand-in for the remote receipt signer (development and tests only)
+ *
+ * Serves the protocol in services/signers/remote.ts with a local key:
+ *
+ *   REMOTE_SIGNER_JWK=<private JWK> REMOTE_SIGNER_PORT=5055 npx tsx server/cli/remote-signer.ts
+ *   RECEIPT_SIGNER=remote RECEIPT_SIGNER_URL=http://localhost:5055 npm run dev
+ *
+ * Without REMOTE_SIGNER_JWK a key is generated and printed so it can be reused.
+ * RECEIPT_SIGNER_TOKEN, when set, is required as a bearer token.
+ */
+
+async function main() {
+  let privateJwk: JsonWebKey;
+  if (process.env.REMOTE_SIGNER_JWK) {
+    privateJwk = JSON.parse(process.env.REMOTE_SIGNER_JWK);
+  } else {
+    const { privateKey } = await generateKeyPair("ES256", { extractable: true });
+    privateJwk = await exportJWK(privateKey);
+    console.log(`[remote-signer] Generated key - reuse with REMOTE_SIGNER_JWK='${JSON.stringify(privateJwk)}'`);
+  }
+  const { kid: _kid, d: _d, ...bare } = privateJwk as any;
+  const signer = localJwkSigner({
+    ...privateJwk,
+    alg: privateJwk.alg || "ES256",
+    kid: (privateJwk as any).kid || (await calculateJwkThumbprint(bare)),
+  } as JsonWebKey);
+
+  const token = process.env.RECEIPT_SIGNER_TOKEN;
+  const app = express();
+  app.use(express.json());
+  app.use((req: Request, res: Response, next) => {
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+      return res.status(401).json({ error: "unauthorized" });
+    }
+    next();
+  });
+
+  app.get("/key", (_req: Request, res: Response) => {
+    res.json({ kid: signer.kid, alg: signer.alg, jwk: signer.publicJwk });
+  });
+
+  app.post("/sign", async (req: Request, res: Response) => {
+    const { kid, alg, input } = req.body || {};
+    if (kid !== signer.kid || alg !== signer.alg || typeof input !== "string") {
+      return res.status(400).json({ error: "kid, alg and input must match the stand-in key" });
+    }
+    const signature = await signer.sign(Buffer.from(input, "base64url"));
+    res.json({ signature: Buffer.from(signature).toString("base64url") });
+  });
+
+  const port = parseInt(process.env.REMOTE_SIGNER_PORT || "5055", 10);
+  app.listen(port, "127.0.0.1", () => {
+    console.log(`[remote-signer] Stand-in signer (kid ${signer.kid}) on http://127.0.0.1:${port}`);
+  });
+}
+
+main().catch((error) => {
+  console.error("[remote-signer]", error.message);
+  process.exit(1);
+});
@@ -13,3 +13,6 @@ if (!process.env.DATABASE_URL) {
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle({ client: pool, schema });
+
+// db itself, or the transaction passed to a db.transaction callback
+export type DbExecutor = Pick<typeof db, "select" | "insert" | "update">;
@@ -262,6 +262,18 @@ export const initApp = async () => {
   const { registerAdminApiKeys } = await import("./routes-admin-apikeys.js");
   registerAdminApiKeys(app);
 
+  // Register admin ZK verification key catalog routes
+  const { registerAdminZkKeys } = await import("./routes-admin-zk-keys.js");
+  registerAdminZkKeys(app);
+
+  // Register receipt keyring routes (public JWKS + admin rotation)
+  const { registerReceiptKeyRoutes } = await import("./routes-receipt-keys.js");
+  registerReceiptKeyRoutes(app);
+
+  // Register admin proof-format registry route
+  const { registerAdminProofFormats } = await import("./routes-admin-proof-formats.js");
+  registerAdminProofFormats(app);
+
   // Register admin ping route (dev only)
   const { registerAdminPing } = await import("./routes-admin-ping.js");
   registerAdminPing(app);
@@ -270,6 +282,14 @@ export const initApp = async () => {
   const { registerAuditExports } = await import("./routes-audit-exports.js");
   registerAuditExports(app);
 
+  // Register batch receipt verification (POST /api/verify/batch)
+  const { registerVerifyBatchRoutes } = await import("./routes-verify-batch.js");
+  registerVerifyBatchRoutes(app);
+
+  // Register revoke / suspend / reinstate routes
+  const { registerAssetStatusRoutes } = await import("./routes-asset-status.js");
+  registerAssetStatusRoutes(app);
+
   // Register transfer routes (Phase 3: Provenance tracking)
   const { registerTransferRoutes } = await import("./routes-transfer.js");
   registerTransferRoutes(app);
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import express from "express";
+import request from "supertest";
+import { perKeyRateLimit, perKeyRateLimitBy } from "./rateLimit.js";
+
+/**
+ * Tests for per-API-key rate limiting (batch requests count every item)
+ */
+
+function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    req.auth = { partnerId: "partner", keyId: String(req.headers["x-key-id"]), scopes: [], rawToken: "" };
+    next();
+  });
+  app.post("/single", perKeyRateLimit, (_req, res) => res.json({ ok: true }));
+  app.post("/batch", perKeyRateLimitBy((req) => req.body.items.length), (_req, res) => res.json({ ok: true }));
+  return app;
+}
+
+describe("per-key rate limiting", () => {
+  it("counts a single request once", async () => {
+    const res = await request(createTestApp()).post("/single").set("x-key-id", "key-single").send({});
+
+    expect(res.status).toBe(200);
+    expect(res.headers["x-ratelimit-remaining"]).toBe("59");
+  });
+
+  it("counts a batch by its item count", async () => {
+    const app = createTestApp();
+    const batch = (n: number) => request(app).post("/batch").set("x-key-id", "key-batch").send({ items: Array(n).fill({}) });
+
+    const first = await batch(50);
+    expect(first.status).toBe(200);
+    expect(first.headers["x-ratelimit-remaining"]).toBe("10");
+
+    expect((await batch(20)).status).toBe(429);
+  });
+});
@@ -0,0 +1,44 @@
+import type { Request, Response, NextFunction } from "express";
+
+// ============================================================================
+// Phase 2G: Per-API-key rate limiting on mutation endpoints
+// In-memory fixed window; batch endpoints count each item against the limit.
+// ============================================================================
+const rateLimitStore = new Map<string, { count: number; resetAt: number }>();
+const PER_KEY_LIMIT = 60;   // 60 req/min per API key
+const GLOBAL_LIMIT = 10;    // 10 req/min for unauthenticated
+const WINDOW_MS = 60_000;   // 1 minute
+
+/**
+ * Rate limit where a request costs `cost(req)` units (at least 1)
+ */
+export function perKeyRateLimitBy(cost: (req: Request) => number) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = req.auth?.keyId || req.ip || 'anonymous';
+    const limit = req.auth ? PER_KEY_LIMIT : GLOBAL_LIMIT;
+    const now = Date.now();
+
+    let entry = rateLimitStore.get(key);
+    if (!entry || now > entry.resetAt) {
+      entry = { count: 0, resetAt: now + WINDOW_MS };
+      rateLimitStore.set(key, entry);
+    }
+
+    entry.count += Math.max(1, cost(req));
+    res.setHeader('X-RateLimit-Limit', limit);
+    res.setHeader('X-RateLimit-Remaining', Math.max(0, limit - entry.count));
+    res.setHeader('X-RateLimit-Reset', Math.ceil(entry.resetAt / 1000));
+
+    if (entry.count > limit) {
+      return res.status(429).json({
+        error: 'rate_limited',
+        detail: `Rate limit exceeded: ${limit} req/min`,
+        retry_after: Math.ceil((entry.resetAt - now) / 1000),
+      });
+    }
+
+    return next();
+  };
+}
+
+export const perKeyRateLimit = perKeyRateLimitBy(() => 1);
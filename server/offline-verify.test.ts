@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import { gzipSync } from "node:zlib";
+import { generateReceipt, generateTestKeypair } from "./receipt-service.js";
+import { localJwkSigner } from "./services/signers/local.js";
+import { verifyReceiptOffline } from "./offline-verify.js";
+import { signStatusListCredential, statusListCredential } from "./services/status-list-credential.js";
+
+/**
+ * Tests for stateless offline receipt verification (no network, no database)
+ */
+
+const STATUS_LIST_URL = "https://registry.example/status/revocation/1";
+const NOW = new Date();
+
+async function fixture(profile: "jwt" | "vc-jwt" | "vc-di" = "jwt") {
+  const { privateKey, publicKey } = await generateTestKeypair("ES256");
+  const receipt = await generateReceipt(localJwkSigner(privateKey), {
+    proofDigest: "digest",
+    policyHash: "policy",
+    constraintHash: "constraint",
+    statusRef: { statusListUrl: STATUS_LIST_URL, statusListIndex: "9", statusPurpose: "revocation" },
+    audience: "rp.example",
+    nonce: "nonce-1",
+    profile,
+    recordIssuance: async () => {},
+  });
+  const signer = localJwkSigner(privateKey);
+  return { receipt, jwks: { keys: [publicKey] }, kid: (publicKey as any).kid as string, signer };
+}
+
+// Signed the way GET /status/lists/:purpose/:listId serves it
+async function statusList(
+  signer: ReturnType<typeof localJwkSigner>,
+  options: { revokedIndex?: number; format?: "vc-di" | "vc-jwt"; url?: string; purpose?: string } = {}
+) {
+  const bits = Buffer.alloc(16);
+  const { revokedIndex } = options;
+  if (revokedIndex !== undefined) bits[Math.floor(revokedIndex / 8)] |= 1 << (revokedIndex % 8);
+  const credential = {
+    ...statusListCredential({
+      url: options.url || STATUS_LIST_URL,
+      purpose: options.purpose || "revocation",
+      encodedList: gzipSync(bits).toString("base64"),
+      validFrom: new Date(NOW.getTime() - 60_000),
+    }),
+    issuer: "https://registry.example",
+  };
+  return signStatusListCredential(signer, credential, options.format || "vc-di");
+}
+
+describe("offline receipt verification", () => {
+  it.each(["jwt", "vc-jwt", "vc-di"] as const)("accepts a %s receipt with a fresh status list", async (profile) => {
+    const { receipt, jwks, signer } = await fixture(profile);
+
+    const result = await verifyReceiptOffline({
+      receipt,
+      jwks,
+      statusListCredential: await statusList(signer),
+      statusListFetchedAt: new Date(NOW.getTime() - 60_000),
+      expectedAudience: "rp.example",
+      expectedNonce: "nonce-1",
+      now: NOW,
+    });
+
+    expect(result.verdict).toBe("valid");
+    expect(result.receipt.profile).toBe(profile);
+    expect(result.receipt.replayMode).toBe("one-time");
+    expect(result.freshness.statusListAgeSeconds).toBe(60);
+    expect(result.freshness.statusListStale).toBe(false);
+  });
+
+  it("reports revocation from the cached status list", async () => {
+    const { receipt, jwks, signer } = await fixture();
+
+    const result = await verifyReceiptOffline({
+      receipt,
+      jwks,
+      statusListCredential: await statusList(signer, { revokedIndex: 9 }),
+      statusListFetchedAt: NOW,
+      expectedNonce: "nonce-1",
+      now: NOW,
+    });
+    expect(result.verdict).toBe("revoked");
+  });
+
+  it("fails closed without a fresh status list", async () => {
+    const { receipt, jwks, signer } = await fixture();
+
+    expect((await verifyReceiptOffline({ receipt, jwks, expectedNonce: "nonce-1", now: NOW })).verdict).toBe("unknown");
+    const stale = await verifyReceiptOffline({
+      receipt,
+      jwks,
+      expectedNonce: "nonce-1",
+      statusListCredential: await statusList(signer),
+      statusListFetchedAt: new Date(NOW.getTime() - 2 * 86400_000),
+      now: NOW,
+    });
+    expect(stale.verdict).toBe("unknown");
+    expect(stale.freshness.statusListStale).toBe(true);
+  });
+
+  it("rejects receipts from unknown or revoked keys", async () => {
+    const { receipt, jwks, kid } = await fixture();
+    const other = await fixture();
+
+    expect((await verifyReceiptOffline({ receipt, jwks: other.jwks, now: NOW })).verdict).toBe("invalid");
+    const revoked = await verifyReceiptOffline({
+      receipt,
+      jwks,
+      revokedKeys: { revoked_keys: [{ kid, reason: "key_compromise", revoked_at: NOW.toISOString() }] },
+      expectedNonce: "nonce-1",
+      now: NOW,
+    });
+    expect(revoked.verdict).toBe("invalid");
+    expect(revoked.receipt.code).toBe("RECEIPT_KEY_REVOKED");
+  });
+
+  it("requires the nonce for one-time receipts", async () => {
+    const { receipt, jwks, signer } = await fixture();
+
+    const result = await verifyReceiptOffline({ receipt, jwks, statusListCredential: await statusList(signer), statusListFetchedAt: NOW, now: NOW });
+    expect(result.verdict).toBe("invalid");
+    expect(result.reason).toMatch(/^nonce_required/);
+  });
+
+  it("reads VC-JWT status lists", async () => {
+    const { receipt, jwks, signer } = await fixture();
+
+    const result = await verifyReceiptOffline({
+      receipt,
+      jwks,
+      statusListCredential: await statusList(signer, { revokedIndex: 9, format: "vc-jwt" }),
+      expectedNonce: "nonce-1",
+      now: NOW,
+    });
+    expect(result.verdict).toBe("revoked");
+    expect(result.freshness.statusListAgeSeconds).toBe(60);
+  });
+
+  it("fails closed on unsigned, forged or substituted status lists", async () => {
+    const { receipt, jwks, kid, signer } = await fixture();
+    const check = (statusListCredential: any, extra: Record<string, unknown> = {}) => verifyReceiptOffline({
+      receipt, jwks, statusListCredential, statusListFetchedAt: NOW, expectedNonce: "nonce-1", now: NOW, ...extra,
+    });
+
+    const signed = await statusList(signer, { revokedIndex: 9 }) as Record<string, any>;
+    const { proof, ...unsigned } = signed;
+    expect((await check(unsigned)).status.reason).toMatch(/unsigned_status_list/);
+
+    // Clearing the revoked bit breaks the signature
+    const forged = { ...signed, credentialSubject: { ...signed.credentialSubject, encodedList: gzipSync(Buffer.alloc(16)).toString("base64") } };
+    expect((await check(forged)).verdict).toBe("unknown");
+
+    // A validly signed suspension list is not the receipt's revocation list
+    const suspension = await statusList(signer, { url: "https://registry.example/status/suspension/1", purpose: "suspension" });
+    expect((await check(suspension)).status.reason).toMatch(/status_list_url_mismatch/);
+
+    // Signed by another key, by an untrusted issuer, or by a revoked key
+    const other = await fixture();
+    expect((await check(await statusList(other.signer))).verdict).toBe("unknown");
+    expect((await check(signed, { trustedStatusListIssuers: ["https://other.example"] })).status.reason).toMatch(/untrusted_issuer/);
+    // Receipts issued before the cutoff stay valid, status lists from a revoked key never do
+    const cutoff = new Date(NOW.getTime() + 3600_000).toISOString();
+    const revokedKeys = { revoked_keys: [{ kid, reason: "superseded", revoked_at: NOW.toISOString(), receipts_issued_after: cutoff }] };
+    expect((await check(signed, { revokedKeys })).status.reason).toMatch(/status_list_key_revoked/);
+  });
+});
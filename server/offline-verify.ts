@@ -0,0 +1,261 @@
+import { decodeJwt } from "jose";
+import { verifyReceipt, type ReceiptClaims, type ReceiptReplayMode } from "./receipt-service.js";
+import { decodeEncodedList } from "./status-list-client.js";
+import { checkBit } from "./bitstring-utils.js";
+import { verifyStatusListCredential } from "./services/status-list-credential.js";
+import { RECEIPT_ALGORITHMS, type ReceiptAlg } from "./services/receipt-alg-policy.js";
+import { algOfJwk, type ReceiptProfile } from "./services/vc-receipt.js";
+import type { ReceiptVerificationKey } from "./services/receipt-keys.js";
+import type { RevokedReceiptKey } from "../shared/schema.js";
+
+/**
+ * Stateless offline receipt verification
+ *
+ * Lets relying parties check a receipt without calling the registry: the
+ * signature is verified against a JWKS document (/.well-known/jwks.json),
+ * key revocations against an optional copy of /.well-known/revoked-keys.json,
+ * and asset status against an optionally cached BitstringStatusListCredential.
+ * The status list must be signed (Data Integrity JSON or VC-JWT) by a key in
+ * the same JWKS that is not revoked, by a trusted issuer, and must be the
+ * list and purpose the receipt's status entry names.
+ * No network, database or replay cache is used: one-time receipts are checked
+ * against the expected nonce, but tracking used jtis is the relying party's
+ * responsibility.
+ *
+ * Fail-closed like status-list-client.ts: the verdict is only "valid" when the
+ * signature checks out AND a status list no older than maxStatusAgeMs shows
+ * the asset's bit clear.
+ *
+ * CLI: server/cli/par-verify.ts (npm run par-verify)
+ */
+
+// Same default as STATUS_MAX_STALENESS_MS in status-list-client.ts (24h)
+const DEFAULT_MAX_STATUS_AGE_MS = 24 * 60 * 60 * 1000;
+
+export type OfflineVerdict = "valid" | "invalid" | "revoked" | "suspended" | "unknown";
+
+export interface OfflineVerifyInput {
+  receipt: string;
+  jwks: { keys: JsonWebKey[] };
+  revokedKeys?: { revoked_keys: Array<{ kid: string; reason: string; revoked_at: string; receipts_issued_after?: string | null }> };
+  statusListCredential?: string | Record<string, any>; // Signed BitstringStatusListCredential (JSON with proof, or VC-JWT)
+  trustedStatusListIssuers?: string[]; // Defaults to the origin of the receipt's status list URL
+  statusListFetchedAt?: Date;     // When the status list was cached (defaults to its validFrom)
+  expectedAudience?: string;
+  expectedNonce?: string;
+  allowedAlgorithms?: ReceiptAlg[]; // Defaults to every supported receipt algorithm
+  maxStatusAgeMs?: number;
+  now?: Date;
+}
+
+export interface OfflineVerificationResult {
+  verdict: OfflineVerdict;
+  reason?: string;
+  receipt: {
+    ok: boolean;
+    profile?: ReceiptProfile;
+    replayMode?: ReceiptReplayMode;
+    kid?: string;
+    alg?: string;
+    code?: string;
+    reason?: string;
+    claims?: ReceiptClaims;
+  };
+  status: {
+    checked: boolean;
+    verdict: "valid" | "revoked" | "suspended" | "unknown";
+    statusListUrl?: string;
+    statusListIndex?: string;
+    statusPurpose?: string;
+    reason?: string;
+  };
+  freshness: {
+    checkedAt: string;
+    receiptIssuedAt: string | null;
+    receiptAgeSeconds: number | null;
+    receiptExpiresAt: string | null;
+    receiptExpiresInSeconds: number | null;
+    statusListFetchedAt: string | null;
+    statusListAgeSeconds: number | null;
+    statusListMaxAgeSeconds: number;
+    statusListStale: boolean | null;
+  };
+}
+
+/**
+ * Verify a receipt against local files only
+ *
+ * @param input - Receipt, JWKS and optional revoked keys / cached status list
+ * @returns Structured verdict with receipt, status and freshness details
+ */
+export async function verifyReceiptOffline(input: OfflineVerifyInput): Promise<OfflineVerificationResult> {
+  const now = input.now || new Date();
+  const nowSec = Math.floor(now.getTime() / 1000);
+  const maxStatusAgeMs = input.maxStatusAgeMs ?? DEFAULT_MAX_STATUS_AGE_MS;
+
+  const keys = new Map<string, JsonWebKey>();
+  for (const jwk of input.jwks.keys || []) {
+    const kid = (jwk as any).kid;
+    if (kid) keys.set(kid, jwk);
+  }
+  const revocations = new Map<string, RevokedReceiptKey>();
+  for (const entry of input.revokedKeys?.revoked_keys || []) {
+    revocations.set(entry.kid, {
+      kid: entry.kid,
+      reason: entry.reason,
+      revokedAt: new Date(entry.revoked_at),
+      receiptsIssuedAfter: entry.receipts_issued_after ? new Date(entry.receipts_issued_after) : null,
+    });
+  }
+
+  const receiptResult = await verifyReceipt(input.receipt, {
+    resolveKey: async (kid): Promise<ReceiptVerificationKey | undefined> => {
+      const jwk = keys.get(kid);
+      return jwk && { kid, alg: algOfJwk(jwk), publicJwk: jwk, retireAt: null };
+    },
+    resolveRevocation: async (kid) => revocations.get(kid),
+    expectedAudience: input.expectedAudience,
+    expectedNonce: input.expectedNonce,
+    allowedAlgorithms: input.allowedAlgorithms || [...RECEIPT_ALGORITHMS],
+    clockTimestamp: nowSec,
+    checkReplay: false,
+  });
+  const claims = receiptResult.ok ? receiptResult.claims : undefined;
+
+  // Status list freshness (fail closed when the age is unknown or too old)
+  const unverifiedList = input.statusListCredential ? readStatusListCredential(input.statusListCredential) : undefined;
+  const fetchedAt = input.statusListFetchedAt
+    || (unverifiedList?.validFrom ? new Date(unverifiedList.validFrom) : undefined);
+  const statusListAgeMs = fetchedAt && !Number.isNaN(fetchedAt.getTime()) ? now.getTime() - fetchedAt.getTime() : null;
+  const statusListStale = input.statusListCredential ? statusListAgeMs === null || statusListAgeMs > maxStatusAgeMs : null;
+
+  const status = await checkStatus(claims, input, {
+    resolveKey: async (kid) => {
+      if (revocations.has(kid)) {
+        throw new Error(`status_list_key_revoked: ${kid}`);
+      }
+      const jwk = keys.get(kid);
+      return jwk && { kid, alg: algOfJwk(jwk), publicJwk: jwk, retireAt: null };
+    },
+    now,
+  }, statusListStale, statusListAgeMs, maxStatusAgeMs);
+
+  let verdict: OfflineVerdict;
+  let reason: string | undefined;
+  if (!receiptResult.ok) {
+    verdict = "invalid";
+    reason = receiptResult.reason;
+  } else if (status.verdict === "unknown") {
+    verdict = "unknown";
+    reason = status.reason;
+  } else {
+    verdict = status.verdict;
+  }
+
+  return {
+    verdict,
+    reason,
+    receipt: {
+      ok: receiptResult.ok,
+      profile: receiptResult.profile,
+      replayMode: receiptResult.replayMode,
+      kid: receiptResult.headerKid,
+      alg: receiptResult.headerAlg,
+      code: receiptResult.code,
+      reason: receiptResult.reason,
+      claims,
+    },
+    status,
+    freshness: {
+      checkedAt: now.toISOString(),
+      receiptIssuedAt: typeof claims?.iat === "number" ? new Date(claims.iat * 1000).toISOString() : null,
+      receiptAgeSeconds: typeof claims?.iat === "number" ? nowSec - claims.iat : null,
+      receiptExpiresAt: claims ? new Date(claims.exp * 1000).toISOString() : null,
+      receiptExpiresInSeconds: claims ? claims.exp - nowSec : null,
+      statusListFetchedAt: fetchedAt && statusListAgeMs !== null ? fetchedAt.toISOString() : null,
+      statusListAgeSeconds: statusListAgeMs === null ? null : Math.floor(statusListAgeMs / 1000),
+      statusListMaxAgeSeconds: Math.floor(maxStatusAgeMs / 1000),
+      statusListStale,
+    },
+  };
+}
+
+/**
+ * Unverified view of a status list credential (JSON or VC-JWT payload)
+ *
+ * Only for reading validFrom before verification; checkStatus verifies it.
+ */
+export function readStatusListCredential(credential: string | Record<string, any>): Record<string, any> | undefined {
+  if (typeof credential !== "string") return credential;
+  try {
+    return credential.trimStart().startsWith("{") ? JSON.parse(credential) : decodeJwt(credential.trim());
+  } catch {
+    return undefined;
+  }
+}
+
+async function checkStatus(
+  claims: ReceiptClaims | undefined,
+  input: OfflineVerifyInput,
+  keys: {
+    resolveKey: (kid: string) => Promise<ReceiptVerificationKey | undefined>;
+    now: Date;
+  },
+  stale: boolean | null,
+  ageMs: number | null,
+  maxAgeMs: number
+): Promise<OfflineVerificationResult["status"]> {
+  const ref = claims?.status_ref;
+  const entry = {
+    statusListUrl: ref?.statusListUrl,
+    statusListIndex: ref?.statusListIndex,
+    statusPurpose: ref?.statusPurpose,
+  };
+  if (!ref) {
+    return { checked: false, verdict: "unknown", reason: "Receipt not verified - status not checked" };
+  }
+  if (!input.statusListCredential) {
+    return { checked: false, verdict: "unknown", ...entry, reason: "No status list provided - cannot confirm the asset is not revoked" };
+  }
+  if (stale) {
+    return {
+      checked: false,
+      verdict: "unknown",
+      ...entry,
+      reason: ageMs === null
+        ? "Status list age unknown - failing closed"
+        : `Status list stale (age: ${ageMs}ms, max: ${maxAgeMs}ms) - failing closed`,
+    };
+  }
+
+  try {
+    // Signature, issuer, validity, and that this is the list the receipt names
+    const body = typeof input.statusListCredential === "string"
+      ? input.statusListCredential
+      : JSON.stringify(input.statusListCredential);
+    const credential = await verifyStatusListCredential(body, {
+      ...keys,
+      trustedIssuers: input.trustedStatusListIssuers || [new URL(ref.statusListUrl).origin],
+      allowedAlgorithms: input.allowedAlgorithms,
+      expectedUrl: ref.statusListUrl,
+      expectedPurpose: ref.statusPurpose,
+    });
+    const subject = credential.credentialSubject || {};
+    if (typeof subject.encodedList !== "string") {
+      return { checked: false, verdict: "unknown", ...entry, reason: "Invalid status list format: missing or invalid encodedList" };
+    }
+
+    const index = parseInt(ref.statusListIndex, 10);
+    if (Number.isNaN(index) || index < 0) {
+      return { checked: false, verdict: "unknown", ...entry, reason: `Invalid status list index: ${ref.statusListIndex}` };
+    }
+    const isSet = checkBit(Buffer.from(decodeEncodedList(subject.encodedList)), index);
+    return {
+      checked: true,
+      verdict: !isSet ? "valid" : ref.statusPurpose === "revocation" ? "revoked" : "suspended",
+      ...entry,
+    };
+  } catch (error: any) {
+    return { checked: false, verdict: "unknown", ...entry, reason: `Status verification failed: ${error.message}` };
+  }
+}
@@ -1,8 +1,9 @@
 import * as canonicalizeModule from "json-canonicalize";
 import { createHash } from "node:crypto";
 
-// Handle default export from json-canonicalize
-const canonicalize = (canonicalizeModule as any).default || canonicalizeModule;
+// json-canonicalize is CJS; the named export may sit on the namespace or under default
+const canonicalize: (input: unknown) => string =
+  (canonicalizeModule as any).canonicalize || (canonicalizeModule as any).default?.canonicalize;
 
 /**
  * RFC 8785 JSON Canonicalization Scheme (JCS)
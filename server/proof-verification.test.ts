@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { SignJWT } from "jose";
+import { base58btc } from "multiformats/bases/base58";
+import { verifyJWS } from "./proof-verification.js";
+import { verifyFreshProof } from "./services/fresh-verifier.js";
+import { jwkDigestHex, legacyJwkDigestHex } from "./utils/digest.js";
+
+/**
+ * Tests for JWS kid resolution through did:key documents and fresh-proof key
+ * binding (no network)
+ */
+
+function didKeyFor() {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  const raw = Buffer.from(publicKey.export({ format: "jwk" }).x as string, "base64url");
+  // multicodec ed25519-pub (0xed, varint-encoded as 0xed 0x01)
+  const multibase = base58btc.encode(Uint8Array.from([0xed, 0x01, ...Array.from(raw)]));
+  return { did: `did:key:${multibase}`, multibase, privateKey };
+}
+
+async function sign(kid: string, privateKey: any) {
+  return new SignJWT({ sub: "holder" })
+    .setProtectedHeader({ alg: "EdDSA", kid })
+    .setIssuedAt()
+    .sign(privateKey);
+}
+
+describe("verifyJWS with DID URL kid", () => {
+  it("verifies a JWS whose kid is a did:key verification method", async () => {
+    const { did, multibase, privateKey } = didKeyFor();
+    const jws = await sign(`${did}#${multibase}`, privateKey);
+
+    const result = await verifyJWS(jws, { issuerDid: did });
+    expect(result.ok).toBe(true);
+    expect(result.publicKeyDigest).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("resolves a bare fragment kid against the issuer DID", async () => {
+    const { did, multibase, privateKey } = didKeyFor();
+    const jws = await sign(`#${multibase}`, privateKey);
+
+    const result = await verifyJWS(jws, { issuerDid: did });
+    expect(result.ok).toBe(true);
+  });
+
+  it("rejects a kid controlled by another DID", async () => {
+    const signer = didKeyFor();
+    const other = didKeyFor();
+    const jws = await sign(`${signer.did}#${signer.multibase}`, signer.privateKey);
+
+    const result = await verifyJWS(jws, { issuerDid: other.did });
+    expect(result.ok).toBe(false);
+    expect(result.code).toBe("JWS_KID_ISSUER_MISMATCH");
+  });
+
+  it("rejects a signature from a different key", async () => {
+    const { did, multibase } = didKeyFor();
+    const attacker = didKeyFor();
+    const jws = await sign(`${did}#${multibase}`, attacker.privateKey);
+
+    const result = await verifyJWS(jws, { issuerDid: did });
+    expect(result.ok).toBe(false);
+    expect(result.code).toBe("JWS_SIGNATURE_INVALID");
+  });
+});
+
+async function embeddedJwkProof() {
+  const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  // Member order differs from the canonical (JCS) order, as issuers' JWKs often do
+  const { x, y, crv, kty } = publicKey.export({ format: "jwk" });
+  const jwk = { x, y, crv, kty } as JsonWebKey;
+  const jws = await new SignJWT({ sub: "holder" })
+    .setProtectedHeader({ alg: "ES256", jwk: jwk as any })
+    .setIssuedAt()
+    .sign(privateKey);
+  return { jwk, bytes: new TextEncoder().encode(jws) };
+}
+
+describe("fresh JWS verification", () => {
+  it("accepts a proof signed by the key recorded at mint", async () => {
+    const { jwk, bytes } = await embeddedJwkProof();
+
+    const result = await verifyFreshProof("JWS", bytes, { verificationPublicKeyDigest: jwkDigestHex(jwk) });
+    expect(result.ok).toBe(true);
+    expect(result.metadata?.verified).toBe("signature");
+  });
+
+  it("rejects a validly signed proof from a different key", async () => {
+    const minted = await embeddedJwkProof();
+    const { bytes } = await embeddedJwkProof();
+
+    const result = await verifyFreshProof("JWS", bytes, { verificationPublicKeyDigest: jwkDigestHex(minted.jwk) });
+    expect(result).toMatchObject({ ok: false, reason: "signing_key_mismatch" });
+  });
+
+  it("accepts assets minted with the legacy JSON.stringify key digest", async () => {
+    const { jwk, bytes } = await embeddedJwkProof();
+    expect(legacyJwkDigestHex(jwk)).not.toBe(jwkDigestHex(jwk));
+
+    const result = await verifyFreshProof("JWS", bytes, { verificationPublicKeyDigest: legacyJwkDigestHex(jwk) });
+    expect(result.ok).toBe(true);
+  });
+
+  it("rejects assets without a recorded key digest", async () => {
+    const { bytes } = await embeddedJwkProof();
+
+    const result = await verifyFreshProof("JWS", bytes, {});
+    expect(result).toMatchObject({ ok: false, reason: "key_digest_not_recorded" });
+  });
+});
@@ -1,21 +1,31 @@
-import { jwtVerify, createRemoteJWKSet, type JWTPayload } from "jose";
-import { createHash } from "crypto";
+import type { DigestAlg } from "../shared/schema.js";
+import { jwtVerify, createRemoteJWKSet, importJWK, exportJWK, type JWTPayload } from "jose";
+import { resolveVerificationMethod } from "./services/did.js";
+import { verifyDataIntegrityProof } from "./services/ld-verifier.js";
+import { getProofFormat, type MintContext, type MintProofRef } from "./services/proof-formats/index.js";
+import { digestMatchesHex, hexToB64u, jwkDigestHex, legacyJwkDigestHex } from "./utils/digest.js";
 
 /**
  * Verification result with detailed metadata
  */
 export interface VerificationResult {
   ok: boolean;
+  code?: string;
   reason?: string;
   algorithm?: string;
   publicKeyDigest?: string;
+  legacyPublicKeyDigests?: string[]; // Digests earlier versions recorded for the same key (assets minted before jwkDigestHex)
   verifiedAt?: string;
   derivedFacts?: Record<string, unknown>;
 }
 
 /**
  * Verify JWS (JSON Web Signature) using jose library
- * Supports both embedded JWK and remote JWKS verification
+ * Key sources, in order:
+ * - Embedded JWK in the protected header
+ * - kid as a DID URL (or fragment of the issuer DID), dereferenced through the
+ *   DID document and required to be an assertionMethod
+ * - kid against the issuer's JWKS, for https:// (non-DID) issuers only
  */
 export async function verifyJWS(
   jws: string,
@@ -30,6 +40,7 @@ export async function verifyJWS(
     if (parts.length !== 3) {
       return {
         ok: false,
+        code: "JWS_INVALID",
         reason: "Invalid JWS format - expected 3 parts (header.payload.signature)",
       };
     }
@@ -42,6 +53,7 @@ export async function verifyJWS(
 
     let verificationResult;
     let publicKeyDigest: string | undefined;
+    let legacyPublicKeyDigests: string[] | undefined;
     let algorithm: string | undefined;
 
     // Case 1: Embedded JWK in header (most common for self-contained proofs)
@@ -52,40 +64,71 @@ export async function verifyJWS(
       if (!algorithm) {
         return {
           ok: false,
+          code: "JWS_INVALID",
           reason: "Missing 'alg' field in JWS header",
         };
       }
 
-      // Create public key digest for tracking
-      const jwkCanonical = JSON.stringify(jwk);
-      publicKeyDigest = createHash("sha256")
-        .update(jwkCanonical)
-        .digest("hex");
+      // Create public key digest for tracking (canonical, so fresh proofs can be bound to it)
+      publicKeyDigest = jwkDigestHex(jwk);
+      legacyPublicKeyDigests = [legacyJwkDigestHex(jwk)];
 
       // Verify using embedded JWK
-      const { importJWK } = await import("jose");
       const publicKey = await importJWK(jwk, algorithm);
 
       verificationResult = await jwtVerify(jws, publicKey, {
         algorithms: [algorithm],
       });
     }
-    // Case 2: Remote JWKS URL (kid references remote key)
-    else if (headerJson.kid && options?.issuerDid) {
-      // For production: resolve DID to JWKS URL
-      // For MVP: attempt common JWKS patterns
-      const jwksUrl = `${options.issuerDid}/.well-known/jwks.json`;
+    // Case 2: kid references a verification method in the issuer's DID document
+    else if (headerJson.kid && (headerJson.kid.startsWith("did:") || options?.issuerDid?.startsWith("did:"))) {
+      algorithm = headerJson.alg;
+      if (!algorithm) {
+        return { ok: false, code: "JWS_INVALID", reason: "Missing 'alg' field in JWS header" };
+      }
+
+      const kid: string = headerJson.kid;
+      const didUrl = kid.startsWith("did:") ? kid : `${options!.issuerDid}#${kid.replace(/^#/, "")}`;
+      if (options?.issuerDid && didUrl.split("#")[0] !== options.issuerDid) {
+        return {
+          ok: false,
+          code: "JWS_KID_ISSUER_MISMATCH",
+          reason: `kid ${kid} is not controlled by issuer ${options.issuerDid}`,
+        };
+      }
+
+      const vm = await resolveVerificationMethod(didUrl, { relationship: "assertionMethod" });
+      if (!vm.ok || !vm.publicKeyJwk) {
+        return {
+          ok: false,
+          code: "JWS_KID_UNRESOLVABLE",
+          reason: `Cannot resolve kid ${kid} (${vm.code}): ${vm.reason}`,
+        };
+      }
+
+      publicKeyDigest = jwkDigestHex(vm.publicKeyJwk);
+      const publicKey = await importJWK(vm.publicKeyJwk, algorithm);
+      verificationResult = await jwtVerify(jws, publicKey, {
+        algorithms: [algorithm],
+      });
+    }
+    // Case 3: kid against the JWKS of a web (non-DID) issuer
+    else if (headerJson.kid && options?.issuerDid?.startsWith("https://")) {
+      const jwksUrl = `${options.issuerDid.replace(/\/$/, "")}/.well-known/jwks.json`;
       algorithm = headerJson.alg;
 
       const JWKS = createRemoteJWKSet(new URL(jwksUrl));
       verificationResult = await jwtVerify(jws, JWKS);
 
-      publicKeyDigest = `kid:${headerJson.kid}`;
+      // Digest the key that actually verified, not just its kid
+      publicKeyDigest = jwkDigestHex(await exportJWK(verificationResult.key));
+      legacyPublicKeyDigests = [`kid:${headerJson.kid}`];
     }
-    // Case 3: No key material - cannot verify
+    // Case 4: No key material - cannot verify
     else {
       return {
         ok: false,
+        code: "JWS_NO_KEY",
         reason: "No JWK or kid found in JWS header - cannot verify signature",
       };
     }
@@ -97,6 +140,7 @@ export async function verifyJWS(
     if (options?.expectedAudience && payload.aud !== options.expectedAudience) {
       return {
         ok: false,
+        code: "JWS_AUDIENCE_MISMATCH",
         reason: `Audience mismatch - expected ${options.expectedAudience}, got ${payload.aud}`,
       };
     }
@@ -106,6 +150,7 @@ export async function verifyJWS(
       ok: true,
       algorithm,
       publicKeyDigest,
+      legacyPublicKeyDigests,
       verifiedAt: new Date().toISOString(),
       derivedFacts: {
         issuer: payload.iss,
@@ -119,78 +164,161 @@ export async function verifyJWS(
   } catch (error: any) {
     return {
       ok: false,
+      code: "JWS_SIGNATURE_INVALID",
       reason: `JWS verification failed: ${error.message}`,
     };
   }
 }
 
 /**
- * Main proof verification dispatcher
- * Routes to appropriate verification function based on proof format
+ * Load the proof bytes referenced at mint time and bind them to the declared digest
+ *
+ * - proof_bytes: inline base64url-encoded bytes (digest recomputed locally)
+ * - proof_uri: HTTPS URI fetched with SRI validation (sha2-256 digests only)
  */
-export async function verifyProof(
-  proofRef: {
-    proof_format: string;
-    proof_uri?: string;
-    proof_digest: string;
-    digest_alg: string;
-  },
-  context?: {
-    issuerDid?: string;
+export async function loadProofBytes(proofRef: {
+  proof_uri?: string;
+  proof_bytes?: string;
+  proof_digest: string;
+  digest_alg: string;
+}): Promise<{ ok: true; bytes: Uint8Array } | { ok: false; reason: string }> {
+  if (proofRef.proof_bytes) {
+    const { decodeB64u } = await import("./services/sri.js");
+    const bytes = new Uint8Array(decodeB64u(proofRef.proof_bytes));
+    let matches: boolean;
+    try {
+      matches = digestMatchesHex(bytes, proofRef.digest_alg, proofRef.proof_digest);
+    } catch (error: any) {
+      return { ok: false, reason: error.message };
+    }
+    if (!matches) {
+      return { ok: false, reason: "proof_digest does not match proof_bytes" };
+    }
+    return { ok: true, bytes };
+  }
+
+  if (proofRef.proof_uri) {
+    if (proofRef.digest_alg !== "sha2-256") {
+      return { ok: false, reason: "proof_uri fetch requires a sha2-256 digest - supply proof_bytes instead" };
+    }
+    try {
+      const { fetchWithSRI } = await import("./services/sri.js");
+      const bytes = await fetchWithSRI(proofRef.proof_uri, hexToB64u(proofRef.proof_digest));
+      return { ok: true, bytes };
+    } catch (error: any) {
+      return { ok: false, reason: `Proof fetch failed: ${error.message}` };
+    }
   }
+
+  return { ok: false, reason: "Proof bytes required - provide proof_bytes (base64url) or proof_uri (https)" };
+}
+
+/**
+ * Verify a W3C Data Integrity secured document (LD_PROOF)
+ *
+ * Checks the embedded DataIntegrityProof, that the signing key is controlled
+ * by the document issuer, that the issuer matches the registered issuer DID,
+ * and the credential validity window.
+ */
+export async function verifyLdProof(
+  bytes: Uint8Array,
+  options?: { issuerDid?: string }
 ): Promise<VerificationResult> {
-  // Handle test/invalid cases
-  if (proofRef.proof_digest === "INVALID") {
-    return { ok: false, reason: "Invalid proof digest" };
+  let document: any;
+  try {
+    document = JSON.parse(Buffer.from(bytes).toString("utf8"));
+  } catch {
+    return { ok: false, reason: "LD proof is not valid JSON" };
   }
 
-  // Route to appropriate verifier based on format
-  switch (proofRef.proof_format) {
-    case "JWS":
-      // For JWS, proof_uri should contain the compact JWS string
-      // or proof_digest could be the JWS itself in test scenarios
-      const jws = proofRef.proof_uri || proofRef.proof_digest;
-      return verifyJWS(jws, { issuerDid: context?.issuerDid });
+  const result = await verifyDataIntegrityProof(document);
+  if (!result.ok) {
+    return { ok: false, code: result.code, reason: `LD proof verification failed: ${result.reason}` };
+  }
 
-    case "ZK_PROOF":
-      // TODO: Integrate snarkjs/circom for ZK proof verification
-      return {
-        ok: true,
-        reason: "ZK proof verification not yet implemented - accepting provisionally",
-      };
+  const issuer = typeof document.issuer === "string" ? document.issuer : document.issuer?.id;
+  const controller = result.verificationMethod!.split("#")[0];
+  if (issuer && issuer !== controller) {
+    return { ok: false, reason: `Verification method ${result.verificationMethod} is not controlled by issuer ${issuer}` };
+  }
+  if (options?.issuerDid && (issuer || controller) !== options.issuerDid) {
+    return { ok: false, reason: `Issuer mismatch - expected ${options.issuerDid}, got ${issuer || controller}` };
+  }
 
-    case "LD_PROOF":
-      // TODO: Integrate LD signature verification
-      return {
-        ok: true,
-        reason: "LD proof verification not yet implemented - accepting provisionally",
-      };
+  const now = Date.now();
+  const validFrom = document.validFrom || document.issuanceDate;
+  const validUntil = document.validUntil || document.expirationDate;
+  if (validFrom && Date.parse(validFrom) > now) {
+    return { ok: false, reason: `Credential not yet valid (validFrom ${validFrom})` };
+  }
+  if (validUntil && Date.parse(validUntil) < now) {
+    return { ok: false, reason: `Credential expired (validUntil ${validUntil})` };
+  }
 
-    case "HW_ATTESTATION":
-      // TODO: Integrate hardware attestation verification (TPM, SGX, etc.)
-      return {
-        ok: true,
-        reason: "HW attestation verification not yet implemented - accepting provisionally",
-      };
+  return {
+    ok: true,
+    algorithm: result.cryptosuite,
+    publicKeyDigest: jwkDigestHex(result.publicKeyJwk!),
+    verifiedAt: new Date().toISOString(),
+    derivedFacts: {
+      issuer: issuer || controller,
+      type: document.type,
+      cryptosuite: result.cryptosuite,
+      verificationMethod: result.verificationMethod,
+      proofPurpose: result.proofPurpose,
+      proofCreated: result.created,
+      validFrom,
+      validUntil,
+    },
+  };
+}
 
-    case "MERKLE_PROOF":
-      // TODO: Implement Merkle proof verification
-      return {
-        ok: true,
-        reason: "Merkle proof verification not yet implemented - accepting provisionally",
-      };
+/**
+ * Main proof verification dispatcher
+ * Routes to the verifier registered for the proof format (services/proof-formats),
+ * enforcing its accepted digest algorithms and size limit
+ */
+export async function verifyProof(
+  proofRef: MintProofRef,
+  context?: MintContext
+): Promise<VerificationResult> {
+  // Handle test/invalid cases
+  if (proofRef.proof_digest === "INVALID") {
+    return { ok: false, reason: "Invalid proof digest" };
+  }
 
-    case "BLOCKCHAIN_TX_PROOF":
-      // TODO: Integrate blockchain transaction verification
-      return {
-        ok: true,
-        reason: "Blockchain TX proof verification not yet implemented - accepting provisionally",
-      };
+  const format = getProofFormat(proofRef.proof_format);
+  if (!format) {
+    return { ok: false, code: "PROOF_FORMAT_UNSUPPORTED", reason: `Unsupported proof format: ${proofRef.proof_format}` };
+  }
+  if (!format.enabled) {
+    return { ok: false, code: "PROOF_FORMAT_DISABLED", reason: `Proof format ${format.verifier.format} is disabled` };
+  }
+  if (!format.digestAlgs.includes(proofRef.digest_alg as DigestAlg)) {
+    return {
+      ok: false,
+      code: "PROOF_DIGEST_ALG_UNSUPPORTED",
+      reason: `${format.verifier.format} accepts digest_alg ${format.digestAlgs.join(", ")}`,
+    };
+  }
 
-    default:
-      return {
-        ok: true,
-        reason: "Generic proof format - accepting without verification",
-      };
+  let bytes: Uint8Array | undefined;
+  if (format.verifier.loadsBytes) {
+    // Proof bytes are supplied inline or via SRI-checked URI
+    const loaded = await loadProofBytes(proofRef);
+    if (!loaded.ok) {
+      return { ok: false, reason: loaded.reason };
+    }
+    if (loaded.bytes.length > format.maxProofBytes) {
+      return { ok: false, code: "PROOF_TOO_LARGE", reason: `Proof exceeds ${format.maxProofBytes} bytes` };
+    }
+    bytes = loaded.bytes;
   }
+
+  return format.verifier.mint({
+    proofRef,
+    bytes,
+    context: context || {},
+    maxProofBytes: format.maxProofBytes,
+  });
 }
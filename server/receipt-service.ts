@@ -1,16 +1,75 @@
-import { SignJWT, jwtVerify, createRemoteJWKSet, importJWK, type JWTPayload, decodeProtectedHeader } from "jose";
+import { jwtVerify, createRemoteJWKSet, importJWK, type JWTPayload, decodeProtectedHeader, decodeJwt } from "jose";
 import { createHash, randomBytes } from "crypto";
 import { setWithTTL, exists as redisExists } from "./redis-client.js";
-import { isReplayed } from "./services/jti-repo.js";
+import type { ReceiptVerificationKey } from "./services/receipt-keys.js";
+import type { ReceiptLogEntry } from "./services/receipt-transparency.js";
+import { signJwt } from "./services/signers/jwt.js";
+import type { Signer } from "./services/signers/types.js";
+import { RECEIPT_ALGORITHMS, isReceiptAlg, receiptAlgorithmsFor, type ReceiptAlg } from "./services/receipt-alg-policy.js";
+import { issuedAfterRetirement, rejectedByRevocation } from "./services/receipt-key-state.js";
+import {
+  VC_JWT_TYP,
+  algOfJwk,
+  claimsFromCredential,
+  cryptosuiteFor,
+  kidFromVerificationMethod,
+  receiptCredential,
+  receiptProfileOf,
+  signDataIntegrity,
+  type ReceiptProfile,
+} from "./services/vc-receipt.js";
+import type { RevokedReceiptKey } from "../shared/schema.js";
 
-// Algorithm allow-list for receipt signing/verification
-const ALLOWED_ALGORITHMS = ["ES256"] as const;
+// Algorithm allow-lists for receipt signing/verification (services/receipt-alg-policy.ts)
 const REQUIRED_HEADER_TYP = "JWT";
 const CLOCK_SKEW_SECONDS = 60; // ±60 seconds clock tolerance
 
 // Replay cache TTL (10 minutes)
 const REPLAY_CACHE_TTL_MS = 10 * 60 * 1000;
 
+// Remote JWKS by URL: fetched with a timeout and cached between verifications
+const REMOTE_JWKS_TIMEOUT_MS = 5000;
+const remoteJwksSets = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+function remoteJwks(url: string): ReturnType<typeof createRemoteJWKSet> {
+  let jwks = remoteJwksSets.get(url);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(url), { timeoutDuration: REMOTE_JWKS_TIMEOUT_MS });
+    remoteJwksSets.set(url, jwks);
+  }
+  return jwks;
+}
+
+/**
+ * Key `kid` of a remote JWKS, reloading a stale set or one missing the kid
+ * (at most once per cooldown)
+ *
+ * @throws if the JWKS cannot be fetched in time or is not a JWKS
+ */
+async function remoteJwk(url: string, kid: string | undefined): Promise<JsonWebKey | undefined> {
+  const jwks = remoteJwks(url);
+  const find = () => jwks.jwks()?.keys.find((key) => key.kid === kid) as JsonWebKey | undefined;
+  if (!jwks.fresh || (!find() && !jwks.coolingDown)) {
+    await jwks.reload();
+  }
+  return find();
+}
+
+/**
+ * Replay semantics of a receipt (replay_mode claim)
+ * 
+ * - bearer-reusable: stored registry receipts (verifier_proof_ref), re-verified
+ *   repeatedly - the jti is never consumed
+ * - one-time: receipts issued to relying parties - nonce-bound, and the jti is
+ *   consumed on first verification
+ */
+export const RECEIPT_REPLAY_MODES = ["bearer-reusable", "one-time"] as const;
+export type ReceiptReplayMode = typeof RECEIPT_REPLAY_MODES[number];
+
+export function isReceiptReplayMode(value: unknown): value is ReceiptReplayMode {
+  return typeof value === "string" && (RECEIPT_REPLAY_MODES as readonly string[]).includes(value);
+}
+
 /**
  * Receipt Claims Interface
  * 
@@ -19,6 +78,7 @@ const REPLAY_CACHE_TTL_MS = 10 * 60 * 1000;
  * - Policy and constraint hashes
  * - Status list reference for revocation/suspension
  * - Standard JWT claims for expiry, audience, jti (replay protection)
+ * - Replay mode (bearer-reusable or one-time)
  * 
  * This allows re-verification WITHOUT storing the original proof bytes (privacy-first).
  */
@@ -36,6 +96,7 @@ export interface ReceiptClaims extends JWTPayload {
   exp: number;                     // Expiry timestamp (required)
   nbf: number;                     // Not before timestamp (required)
   nonce?: string;                  // Optional additional replay protection nonce
+  replay_mode?: ReceiptReplayMode; // Absent on receipts issued before replay modes
   iss?: string;                    // Issuer (verifier DID)
   sub?: string;                    // Subject (proof asset ID)
 }
@@ -54,27 +115,51 @@ export interface GenerateReceiptOptions {
   expiresInSeconds?: number;     // defaults to 1 year
   notBeforeSeconds?: number;     // defaults to now
   nonce?: string;
+  replayMode?: ReceiptReplayMode; // defaults to one-time with a nonce, bearer-reusable without
   issuer?: string;               // verifier DID
+  profile?: ReceiptProfile;      // jwt (default), vc-jwt or vc-di (services/vc-receipt.ts)
+  recordIssuance?: (entry: ReceiptLogEntry) => Promise<void>; // Defaults to the audit log (services/receipt-transparency.ts)
 }
 
 export interface VerifyReceiptOptions {
   jwksUrl?: string;              // Remote JWKS URL for verification
   publicKey?: JsonWebKey;        // Or provide direct public key
+  resolveKey?: (kid: string) => Promise<ReceiptVerificationKey | undefined>; // Defaults to the receipt keyring
+  resolveRevocation?: (kid: string) => Promise<RevokedReceiptKey | undefined>; // Defaults to the keyring's revocations
   expectedAudience?: string;
+  allowedAlgorithms?: ReceiptAlg[]; // Defaults to the RECEIPT_ALG_POLICY entry for expectedAudience
   expectedNonce?: string;
   clockTimestamp?: number;       // Optional timestamp for testing
+  checkReplay?: boolean;         // jti replay cache (default true); stateless verifiers have none
+  defaultReplayMode?: ReceiptReplayMode; // For receipts without replay_mode (default one-time)
 }
 
 export interface ReceiptVerificationResult {
   ok: boolean;
+  code?: string;                 // Set for failures with a dedicated error code (RECEIPT_KEY_REVOKED)
   reason?: string;
   claims?: ReceiptClaims;
   headerKid?: string;
   headerAlg?: string;
+  profile?: ReceiptProfile;
+  replayMode?: ReceiptReplayMode;
+  jtiConsumed?: boolean;         // One-time receipt recorded in the replay cache
 }
 
+// Outcome of the profile-specific signature check
+type SignatureCheck =
+  | { ok: false; reason: string; code?: string }
+  | {
+      ok: true;
+      profile: ReceiptProfile;
+      payload: Record<string, any>;
+      kid?: string;
+      alg?: string;
+      keyringKey?: ReceiptVerificationKey;
+    };
+
 /**
- * Generate a signed verification receipt (compact JWS)
+ * Generate a signed verification receipt
  * 
  * This creates a cryptographic proof that verification occurred with specific parameters.
  * The receipt can be verified later without needing the original proof bytes.
@@ -82,14 +167,15 @@ export interface ReceiptVerificationResult {
  * Security features:
  * - Generates unique jti for replay protection
  * - Enforces nbf (not before) for time-bound validity
- * - Uses algorithm allow-list (ES256 only)
+ * - Uses algorithm allow-list (ES256, ES384, EdDSA - chosen by the signer)
+ * - Logs the jti, digest and kid as a RECEIPT_ISSUED audit event before returning
  * 
- * @param privateKey - JWK private key for signing (ES256 recommended)
- * @param options - Receipt claims and metadata
- * @returns Compact JWS string (header.payload.signature)
+ * @param signer - Receipt signer (local keyring key, PKCS#11 or remote; see services/signers)
+ * @param options - Receipt claims, metadata and profile
+ * @returns Compact JWS (jwt, vc-jwt) or JSON credential with embedded proof (vc-di)
  */
 export async function generateReceipt(
-  privateKey: JsonWebKey,
+  signer: Signer,
   options: GenerateReceiptOptions
 ): Promise<string> {
   const now = Math.floor(Date.now() / 1000);
@@ -100,13 +186,16 @@ export async function generateReceipt(
   const jti = randomBytes(16).toString('hex');
   
   // Validate algorithm is in allow-list
-  const alg = privateKey.alg || "ES256";
-  if (!ALLOWED_ALGORITHMS.includes(alg as any)) {
-    throw new Error(`Algorithm ${alg} not in allow-list. Only ${ALLOWED_ALGORITHMS.join(', ')} allowed.`);
+  const alg = signer.alg;
+  if (!isReceiptAlg(alg)) {
+    throw new Error(`Algorithm ${alg} not in allow-list. Only ${RECEIPT_ALGORITHMS.join(', ')} allowed.`);
+  }
+
+  // One-time receipts are only verifiable against their nonce
+  const replayMode = options.replayMode ?? (options.nonce ? "one-time" : "bearer-reusable");
+  if (replayMode === "one-time" && !options.nonce) {
+    throw new Error("One-time receipts require a nonce");
   }
-  
-  // Import the private key
-  const key = await importJWK(privateKey, alg);
   
   // Build the receipt claims (all required fields)
   const claims: ReceiptClaims = {
@@ -119,6 +208,7 @@ export async function generateReceipt(
     iat: now,
     nbf: notBefore,
     exp: expiresAt,
+    replay_mode: replayMode,
   };
   
   // Add optional claims
@@ -126,40 +216,64 @@ export async function generateReceipt(
   if (options.nonce) claims.nonce = options.nonce;
   if (options.issuer) claims.iss = options.issuer;
   
-  // Sign as compact JWS with strict header
-  const header: any = { 
+  const profile = options.profile ?? "jwt";
+  const receipt = await signReceipt(signer, claims, profile);
+
+  // Transparency: a receipt the log does not know about was not issued by the registry
+  const recordIssuance = options.recordIssuance
+    || (await import("./services/receipt-transparency.js")).logIssuedReceipt;
+  await recordIssuance({
+    jti,
+    kid: signer.kid,
     alg,
-    typ: REQUIRED_HEADER_TYP
-  };
-  if ((privateKey as any).kid) {
-    header.kid = (privateKey as any).kid;
-  }
-  
-  const receipt = await new SignJWT(claims)
-    .setProtectedHeader(header)
-    .setIssuedAt(now)
-    .setNotBefore(notBefore)
-    .setExpirationTime(expiresAt)
-    .setJti(jti)
-    .sign(key);
-  
+    digestHash: options.proofDigest,
+    audience: options.audience,
+    profile,
+    assetId: options.subject,
+    expiresAt,
+  });
+
   return receipt;
 }
 
+async function signReceipt(signer: Signer, claims: ReceiptClaims, profile: ReceiptProfile): Promise<string> {
+  if (profile === "jwt") {
+    // Sign as compact JWS with strict header (alg and kid from the signer)
+    return signJwt(signer, claims, { typ: REQUIRED_HEADER_TYP });
+  }
+
+  const credential = receiptCredential(claims);
+  if (profile === "vc-jwt") {
+    const { proof_digest, policy_hash, constraint_hash, status_ref, ...registeredClaims } = claims;
+    return signJwt(signer, { ...credential, ...registeredClaims, iss: credential.issuer }, { typ: VC_JWT_TYP });
+  }
+
+  const secured = await signDataIntegrity(signer, credential, {
+    created: claims.iat!,
+    domain: claims.aud,
+    challenge: claims.nonce,
+  });
+  return JSON.stringify(secured);
+}
+
 /**
  * Verify a receipt signature and extract claims
  * 
  * This validates:
- * - Algorithm allow-list (only ES256, rejects alg:none)
- * - Header typ field (must be JWT)
- * - Cryptographic signature (using JWKS or direct public key)
+ * - Receipt profile (jwt, vc-jwt, vc-di), detected from the encoding and JWS typ
+ * - Algorithm allow-list for the audience (RECEIPT_ALG_POLICY, rejects alg:none)
+ * - Header typ field (JWT or vc+jwt)
+ * - Cryptographic signature (JWKS, direct public key, or keyring key selected by kid)
+ * - Keyring keys: receipt must be issued before the key's retirement
  * - Time bounds (nbf, exp with ±60s clock skew)
  * - Audience match (required)
- * - jti replay protection (10-minute cache)
+ * - Replay mode: one-time receipts need the expected nonce and their jti is
+ *   consumed (database-backed, unless checkReplay is false); bearer-reusable
+ *   receipts are never consumed
  * - Nonce match (if expected)
  * - Presence of required claims
  * 
- * @param receipt - Compact JWS string
+ * @param receipt - Compact JWS or Data Integrity secured credential (JSON)
  * @param options - Verification parameters
  * @returns Verification result with claims if valid
  */
@@ -168,62 +282,17 @@ export async function verifyReceipt(
   options: VerifyReceiptOptions
 ): Promise<ReceiptVerificationResult> {
   try {
-    // Decode header without verification to check alg and typ
-    const [headerB64] = receipt.split('.');
-    if (!headerB64) {
-      return { ok: false, reason: "Invalid JWT format" };
-    }
-    
-    const header = JSON.parse(Buffer.from(headerB64, 'base64url').toString('utf-8'));
-    
-    // Validate algorithm allow-list (prevent alg:none attacks)
-    if (!header.alg || !ALLOWED_ALGORITHMS.includes(header.alg)) {
-      return {
-        ok: false,
-        reason: `Algorithm ${header.alg || 'none'} not allowed. Only ${ALLOWED_ALGORITHMS.join(', ')} permitted.`,
-      };
-    }
-    
-    // Validate typ header
-    if (header.typ !== REQUIRED_HEADER_TYP) {
-      return {
-        ok: false,
-        reason: `Invalid header typ: expected ${REQUIRED_HEADER_TYP}, got ${header.typ}`,
-      };
-    }
-    
-    // Reject if crit (critical) headers present (we don't support any)
-    if (header.crit && Array.isArray(header.crit) && header.crit.length > 0) {
-      return {
-        ok: false,
-        reason: `Unsupported critical header extensions: ${header.crit.join(', ')}`,
-      };
-    }
-    
-    let verificationResult;
+    const allowedAlgorithms = options.allowedAlgorithms
+      || receiptAlgorithmsFor({ audience: options.expectedAudience });
     const now = options.clockTimestamp || Math.floor(Date.now() / 1000);
-    
-    // Verify using remote JWKS or direct public key with strict options
-    const verifyOptions: any = {
-      audience: options.expectedAudience,
-      clockTolerance: CLOCK_SKEW_SECONDS,
-      currentDate: options.clockTimestamp ? new Date(options.clockTimestamp * 1000) : undefined,
-    };
-    
-    if (options.jwksUrl) {
-      const jwks = createRemoteJWKSet(new URL(options.jwksUrl));
-      verificationResult = await jwtVerify(receipt, jwks, verifyOptions);
-    } else if (options.publicKey) {
-      const publicKey = await importJWK(options.publicKey, options.publicKey.alg || "ES256");
-      verificationResult = await jwtVerify(receipt, publicKey, verifyOptions);
-    } else {
-      return {
-        ok: false,
-        reason: "No verification key provided (need jwksUrl or publicKey)",
-      };
+
+    const signed = receiptProfileOf(receipt) === "vc-di"
+      ? await verifyDataIntegritySignature(receipt, options, allowedAlgorithms)
+      : await verifyJwsSignature(receipt, options, allowedAlgorithms);
+    if (!signed.ok) {
+      return signed;
     }
-    
-    const { payload, protectedHeader } = verificationResult;
+    const { payload, kid, keyringKey } = signed;
     
     // Validate required claims presence
     const requiredClaims = ["proof_digest", "policy_hash", "constraint_hash", "status_ref", "jti", "aud", "exp", "nbf"];
@@ -247,6 +316,35 @@ export async function verifyReceipt(
     // Validate nbf and exp with clock skew
     const nbf = payload.nbf as number;
     const exp = payload.exp as number;
+
+    // Revocation and retirement apply to every kid, whether the key came from
+    // the keyring, a JWKS URL or options.publicKey
+    if (kid) {
+      // A revoked key vouches for nothing, or only for receipts issued before its cutoff
+      const resolveRevocation = options.resolveRevocation
+        || (await import("./services/receipt-keys.js")).findReceiptKeyRevocation;
+      const revocation = await resolveRevocation(kid);
+      const cutoff = revocation?.receiptsIssuedAfter;
+      if (revocation && rejectedByRevocation(revocation, payload.iat)) {
+        return {
+          ok: false,
+          code: "RECEIPT_KEY_REVOKED",
+          reason: `receipt_key_revoked: kid ${revocation.kid} revoked (${revocation.reason})`
+            + (cutoff ? ` for receipts issued after ${cutoff.toISOString()}` : ""),
+        };
+      }
+
+      // A retired key only vouches for receipts it issued before retirement
+      const resolveKey = options.resolveKey
+        || (await import("./services/receipt-keys.js")).findReceiptVerificationKey;
+      const lifecycle = keyringKey || (await resolveKey(kid));
+      if (lifecycle?.retireAt && issuedAfterRetirement(lifecycle.retireAt, payload.iat)) {
+        return {
+          ok: false,
+          reason: `issued_after_key_retirement: kid ${lifecycle.kid} retired at ${lifecycle.retireAt.toISOString()}`,
+        };
+      }
+    }
     
     if (now < nbf - CLOCK_SKEW_SECONDS) {
       return {
@@ -262,22 +360,22 @@ export async function verifyReceipt(
       };
     }
     
-    // Check jti replay protection (database-backed, survives restarts)
-    const jti = String(payload.jti);
-    const expSec = Number(payload.exp);
-    
-    // Check if this JTI has been used before
-    // The function will record it in the database if it's new
-    const replayed = await isReplayed(jti, expSec);
-    
-    if (replayed) {
+    // Replay semantics are explicit in the receipt (legacy receipts: defaultReplayMode)
+    const replayMode = payload.replay_mode ?? options.defaultReplayMode ?? "one-time";
+    if (!isReceiptReplayMode(replayMode)) {
       return {
         ok: false,
-        reason: `replay_detected: jti ${jti} has already been used`,
+        reason: `invalid_replay_mode: ${replayMode}`,
+      };
+    }
+    if (replayMode === "one-time" && (!payload.nonce || !options.expectedNonce)) {
+      return {
+        ok: false,
+        reason: "nonce_required: one-time receipts are verified against their nonce",
       };
     }
     
-    // Validate nonce if expected
+    // Validate nonce if expected (before the jti is consumed)
     if (options.expectedNonce && payload.nonce !== options.expectedNonce) {
       return {
         ok: false,
@@ -285,6 +383,26 @@ export async function verifyReceipt(
       };
     }
     
+    // Check jti replay protection for one-time receipts (database-backed, survives restarts)
+    const jti = String(payload.jti);
+    const expSec = Number(payload.exp);
+    let jtiConsumed = false;
+    
+    // Check if this JTI has been used before
+    // The function will record it in the database if it's new
+    if (replayMode === "one-time" && options.checkReplay !== false) {
+      const { isReplayed } = await import("./services/jti-repo.js");
+      const replayed = await isReplayed(jti, expSec);
+      
+      if (replayed) {
+        return {
+          ok: false,
+          reason: `replay_detected: jti ${jti} has already been used`,
+        };
+      }
+      jtiConsumed = true;
+    }
+    
     // Extract and type the claims (all required fields present)
     const claims: ReceiptClaims = {
       proof_digest: String(payload.proof_digest),
@@ -297,6 +415,7 @@ export async function verifyReceipt(
       nbf: Number(payload.nbf),
       iat: payload.iat as number | undefined,
       nonce: payload.nonce as string | undefined,
+      replay_mode: replayMode,
       iss: payload.iss as string | undefined,
       sub: payload.sub as string | undefined,
     };
@@ -304,8 +423,11 @@ export async function verifyReceipt(
     return {
       ok: true,
       claims,
-      headerKid: protectedHeader.kid,
-      headerAlg: protectedHeader.alg,
+      headerKid: kid,
+      headerAlg: signed.alg,
+      profile: signed.profile,
+      replayMode,
+      jtiConsumed,
     };
   } catch (error: any) {
     return {
@@ -316,20 +438,215 @@ export async function verifyReceipt(
 }
 
 
+/**
+ * Check a JWS receipt (jwt or vc-jwt profile) and return its claims
+ */
+async function verifyJwsSignature(
+  receipt: string,
+  options: VerifyReceiptOptions,
+  allowedAlgorithms: ReceiptAlg[]
+): Promise<SignatureCheck> {
+  // Decode header without verification to check alg and typ
+  const [headerB64] = receipt.split('.');
+  if (!headerB64) {
+    return { ok: false, reason: "Invalid JWT format" };
+  }
+  
+  const header = JSON.parse(Buffer.from(headerB64, 'base64url').toString('utf-8'));
+  
+  // Validate algorithm allow-list (prevent alg:none attacks)
+  if (!header.alg || !allowedAlgorithms.includes(header.alg)) {
+    return {
+      ok: false,
+      reason: `Algorithm ${header.alg || 'none'} not allowed. Only ${allowedAlgorithms.join(', ')} permitted.`,
+    };
+  }
+  
+  // Validate typ header
+  if (header.typ !== REQUIRED_HEADER_TYP && header.typ !== VC_JWT_TYP) {
+    return {
+      ok: false,
+      reason: `Invalid header typ: expected ${REQUIRED_HEADER_TYP} or ${VC_JWT_TYP}, got ${header.typ}`,
+    };
+  }
+  
+  // Reject if crit (critical) headers present (we don't support any)
+  if (header.crit && Array.isArray(header.crit) && header.crit.length > 0) {
+    return {
+      ok: false,
+      reason: `Unsupported critical header extensions: ${header.crit.join(', ')}`,
+    };
+  }
+  
+  // Verify using remote JWKS or direct public key with strict options
+  const verifyOptions: any = {
+    audience: options.expectedAudience,
+    clockTolerance: CLOCK_SKEW_SECONDS,
+    algorithms: allowedAlgorithms,
+    currentDate: options.clockTimestamp ? new Date(options.clockTimestamp * 1000) : undefined,
+  };
+  
+  let verificationResult;
+  let keyringKey: ReceiptVerificationKey | undefined;
+  if (options.jwksUrl) {
+    verificationResult = await jwtVerify(receipt, remoteJwks(options.jwksUrl), verifyOptions);
+  } else if (options.publicKey) {
+    const publicKey = await importJWK(options.publicKey, options.publicKey.alg || header.alg);
+    verificationResult = await jwtVerify(receipt, publicKey, verifyOptions);
+  } else {
+    if (!header.kid) {
+      return { ok: false, reason: "missing_kid: receipt header has no kid" };
+    }
+    const resolveKey = options.resolveKey
+      || (await import("./services/receipt-keys.js")).findReceiptVerificationKey;
+    keyringKey = await resolveKey(header.kid);
+    if (!keyringKey) {
+      return { ok: false, reason: `unknown_kid: ${header.kid}` };
+    }
+    if (keyringKey.alg !== header.alg) {
+      return { ok: false, reason: `alg_mismatch: key ${keyringKey.kid} is ${keyringKey.alg}` };
+    }
+    const publicKey = await importJWK(keyringKey.publicJwk, keyringKey.alg);
+    verificationResult = await jwtVerify(receipt, publicKey, { ...verifyOptions, algorithms: [keyringKey.alg] });
+  }
+  
+  const { payload, protectedHeader } = verificationResult;
+  if (protectedHeader.typ !== VC_JWT_TYP) {
+    return { ok: true, profile: "jwt", payload, kid: protectedHeader.kid, alg: protectedHeader.alg, keyringKey };
+  }
+
+  // VC-JWT: receipt claims come from the credential, registered claims from the JWT
+  const credentialClaims = claimsFromCredential(payload);
+  if (!credentialClaims) {
+    return { ok: false, reason: "not_a_receipt_credential: expected a ProofAssetReceipt credential" };
+  }
+  return {
+    ok: true,
+    profile: "vc-jwt",
+    payload: { ...payload, ...credentialClaims, jti: payload.jti, nbf: payload.nbf, exp: payload.exp },
+    kid: protectedHeader.kid,
+    alg: protectedHeader.alg,
+    keyringKey,
+  };
+}
+
+/**
+ * Check a Data Integrity secured receipt credential (vc-di profile) and return its claims
+ */
+async function verifyDataIntegritySignature(
+  receipt: string,
+  options: VerifyReceiptOptions,
+  allowedAlgorithms: ReceiptAlg[]
+): Promise<SignatureCheck> {
+  const credential = JSON.parse(receipt);
+  const proof = credential?.proof;
+  if (!proof || typeof proof !== "object" || Array.isArray(proof)) {
+    return { ok: false, reason: "invalid_proof: receipt credential must carry exactly one proof" };
+  }
+
+  const kid = kidFromVerificationMethod(proof.verificationMethod);
+  let keyringKey: ReceiptVerificationKey | undefined;
+  let publicKey: JsonWebKey | undefined;
+  if (options.jwksUrl) {
+    try {
+      publicKey = await remoteJwk(options.jwksUrl, kid);
+    } catch (error: any) {
+      return { ok: false, code: "RECEIPT_JWKS_UNAVAILABLE", reason: `jwks_unavailable: ${error.message}` };
+    }
+  } else if (options.publicKey) {
+    publicKey = options.publicKey;
+  } else {
+    if (!kid) {
+      return { ok: false, reason: "missing_kid: verificationMethod has no key fragment" };
+    }
+    const resolveKey = options.resolveKey
+      || (await import("./services/receipt-keys.js")).findReceiptVerificationKey;
+    keyringKey = await resolveKey(kid);
+    publicKey = keyringKey?.publicJwk;
+  }
+  if (!publicKey) {
+    return { ok: false, reason: `unknown_kid: ${kid}` };
+  }
+
+  // Algorithm allow-list applies to the key; the cryptosuite must match it
+  const alg = keyringKey?.alg || algOfJwk(publicKey);
+  if (!(allowedAlgorithms as string[]).includes(alg)) {
+    return {
+      ok: false,
+      reason: `Algorithm ${alg} not allowed. Only ${allowedAlgorithms.join(', ')} permitted.`,
+    };
+  }
+  if (proof.cryptosuite !== cryptosuiteFor(alg)) {
+    return { ok: false, reason: `alg_mismatch: ${proof.cryptosuite} cannot be verified with a ${alg} key` };
+  }
+
+  const { verifyDataIntegrityProof } = await import("./services/ld-verifier.js");
+  const verification = await verifyDataIntegrityProof(credential, { resolveKey: async () => publicKey! });
+  if (!verification.ok) {
+    return { ok: false, reason: `${verification.code}: ${verification.reason}` };
+  }
+
+  const credentialClaims = claimsFromCredential(credential);
+  if (!credentialClaims) {
+    return { ok: false, reason: "not_a_receipt_credential: expected a ProofAssetReceipt credential" };
+  }
+  return {
+    ok: true,
+    profile: "vc-di",
+    payload: {
+      ...credentialClaims,
+      aud: proof.domain,
+      nonce: proof.challenge,
+      iat: proof.created ? Math.floor(Date.parse(proof.created) / 1000) : undefined,
+    },
+    kid,
+    alg,
+    keyringKey,
+  };
+}
+
+/**
+ * Read a receipt's profile, jti, audience, subject and expiry without verifying it
+ */
+export function describeReceipt(receipt: string): {
+  profile: ReceiptProfile;
+  jti?: string;
+  audience?: string;
+  subject?: string;
+  expiresAt?: Date;
+} {
+  const profile = receiptProfileOf(receipt);
+  let claims: Record<string, any>;
+  if (profile === "vc-di") {
+    const credential = JSON.parse(receipt);
+    claims = { ...claimsFromCredential(credential), aud: credential.proof?.domain };
+  } else {
+    claims = decodeJwt(receipt);
+  }
+  return {
+    profile,
+    jti: typeof claims.jti === "string" ? claims.jti : undefined,
+    audience: typeof claims.aud === "string" ? claims.aud : undefined,
+    subject: typeof claims.sub === "string" ? claims.sub : undefined,
+    expiresAt: typeof claims.exp === "number" ? new Date(claims.exp * 1000) : undefined,
+  };
+}
+
 /**
  * Generate a test keypair for receipt signing (development/testing only)
  * 
  * In production, use a proper KMS or HSM for key management.
  * 
+ * @param alg - Receipt algorithm (default ES256)
  * @returns Promise<{privateKey: JsonWebKey, publicKey: JsonWebKey}>
  */
-export async function generateTestKeypair(): Promise<{
+export async function generateTestKeypair(alg: ReceiptAlg = "ES256"): Promise<{
   privateKey: JsonWebKey;
   publicKey: JsonWebKey;
 }> {
   const { generateKeyPair, exportJWK } = await import("jose");
   
-  const { privateKey: privKey, publicKey: pubKey } = await generateKeyPair("ES256", {
+  const { privateKey: privKey, publicKey: pubKey } = await generateKeyPair(alg, {
     extractable: true,
   });
   
@@ -344,8 +661,8 @@ export async function generateTestKeypair(): Promise<{
   
   (privateKey as any).kid = kid;
   (publicKey as any).kid = kid;
-  privateKey.alg = "ES256";
-  publicKey.alg = "ES256";
+  privateKey.alg = alg;
+  publicKey.alg = alg;
   
   return { privateKey, publicKey };
 }
@@ -12,7 +12,7 @@ const PartnerCreate = z.object({
   contactEmail: z.string().email().optional()
 });
 
-const scopeEnum = z.enum(['assets:mint', 'assets:read', 'status:update', 'transfer:execute', 'audit:read', 'admin:*']);
+const scopeEnum = z.enum(['assets:mint', 'assets:read', 'status:update', 'receipts:issue', 'transfer:execute', 'audit:read', 'admin:*']);
 
 const IssueKey = z.object({
   partnerId: z.string().uuid(),
@@ -0,0 +1,17 @@
+import type { Express, Request, Response } from "express";
+import { requireScopes, apiKeyAuth } from "./middleware/apiKey.js";
+import { listProofFormats } from "./services/proof-formats/index.js";
+import { internalError } from "./utils/errors.js";
+
+/**
+ * Admin route listing registered proof formats and their capabilities
+ */
+export function registerAdminProofFormats(app: Express) {
+  app.get('/api/admin/proof-formats', apiKeyAuth, requireScopes(['admin:*']), async (req: Request, res: Response) => {
+    try {
+      return res.json({ ok: true, formats: listProofFormats() });
+    } catch (e: any) {
+      return internalError(req, res, e.message);
+    }
+  });
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { registerAdminZkKeys } from "./routes-admin-zk-keys.js";
+
+/**
+ * Route tests for ZK verification key registration.
+ *
+ * The catalog and API key lookup are replaced with fakes (both import db.ts,
+ * which requires DATABASE_URL).
+ */
+
+const fakes = vi.hoisted(() => ({
+  registerError: null as Error | null,
+}));
+
+vi.mock("./services/zk-key-catalog.js", () => ({
+  registerVerificationKey: async (input: { circuitId: string; system: string; vKey: Record<string, unknown> }) => {
+    if (fakes.registerError) throw fakes.registerError;
+    if (typeof input.vKey.protocol === "string" && input.vKey.protocol.toUpperCase() !== input.system) {
+      return { ok: false, code: "ZK_VKEY_PROTOCOL_MISMATCH", reason: "vKey protocol does not match system" };
+    }
+    return { ok: true, key: { keyId: "key-1", circuitId: input.circuitId, system: input.system } };
+  },
+  listVerificationKeys: async () => [],
+  retireVerificationKey: async () => null,
+}));
+
+vi.mock("./services/apiKeys.js", () => ({
+  validateApiKeyHeader: async (header?: string) =>
+    header === "admin-key"
+      ? { ok: true, keyId: header, partnerId: "admin", scopes: ["admin:*"] }
+      : { ok: false, reason: "unknown_key" },
+}));
+
+function register(body: Record<string, unknown>) {
+  const app = express();
+  app.use(express.json());
+  registerAdminZkKeys(app);
+  return request(app).post("/api/admin/zk-keys").set("x-api-key", "admin-key").send(body);
+}
+
+const groth16 = { circuitId: "age-over-18", system: "GROTH16", vKey: { protocol: "groth16" } };
+
+beforeEach(() => {
+  fakes.registerError = null;
+});
+
+describe("POST /api/admin/zk-keys", () => {
+  it("registers a key", async () => {
+    const res = await register(groth16);
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ ok: true, key: { keyId: "key-1", circuitId: "age-over-18" } });
+  });
+
+  it("answers 400 for invalid requests and keys the catalog refuses", async () => {
+    const invalid = await register({ circuitId: "age-over-18", system: "STARK", vKey: {} });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.code).toBe("VALIDATION_FAILED");
+
+    const mismatch = await register({ ...groth16, system: "PLONK" });
+    expect(mismatch.status).toBe(400);
+    expect(mismatch.body.code).toBe("ZK_VKEY_PROTOCOL_MISMATCH");
+  });
+
+  it("answers 500 when the catalog fails", async () => {
+    fakes.registerError = new Error("connection terminated");
+
+    const res = await register(groth16);
+    expect(res.status).toBe(500);
+    expect(res.body.ok).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { requireScopes, apiKeyAuth } from "./middleware/apiKey.js";
+import {
+  registerVerificationKey,
+  listVerificationKeys,
+  retireVerificationKey,
+} from "./services/zk-key-catalog.js";
+import { badRequest, internalError, notFound } from "./utils/errors.js";
+
+const RegisterZkKey = z.object({
+  circuitId: z.string().min(1),
+  circuitCid: z.string().min(1).optional(),
+  system: z.enum(['GROTH16', 'PLONK']),
+  vKey: z.record(z.unknown()),
+});
+
+/**
+ * Admin routes for the trusted ZK verification key catalog
+ */
+export function registerAdminZkKeys(app: Express) {
+  app.post('/api/admin/zk-keys', apiKeyAuth, requireScopes(['admin:*']), async (req: Request, res: Response) => {
+    try {
+      const body = RegisterZkKey.parse(req.body);
+      const result = await registerVerificationKey(body);
+      if (!result.ok) {
+        return badRequest(req, res, "Verification key rejected", result.code, result.reason);
+      }
+      return res.status(201).json({ ok: true, key: result.key });
+    } catch (e: any) {
+      if (e instanceof z.ZodError) {
+        return badRequest(req, res, "Validation error", "VALIDATION_FAILED", e.errors[0]?.message);
+      }
+      return internalError(req, res, e.message);
+    }
+  });
+
+  app.get('/api/admin/zk-keys', apiKeyAuth, requireScopes(['admin:*']), async (req: Request, res: Response) => {
+    try {
+      const circuitId = typeof req.query.circuitId === 'string' ? req.query.circuitId : undefined;
+      const keys = await listVerificationKeys(circuitId);
+      return res.json({ ok: true, keys });
+    } catch (e: any) {
+      return internalError(req, res, e.message);
+    }
+  });
+
+  app.post('/api/admin/zk-keys/:keyId/retire', apiKeyAuth, requireScopes(['admin:*']), async (req: Request, res: Response) => {
+    try {
+      if (!z.string().uuid().safeParse(req.params.keyId).success) {
+        return badRequest(req, res, "Invalid key id", "INVALID_KEY_ID");
+      }
+      const key = await retireVerificationKey(req.params.keyId);
+      if (!key) {
+        return notFound(req, res, "Verification key not found", "ZK_KEY_NOT_FOUND");
+      }
+      return res.json({ ok: true, key });
+    } catch (e: any) {
+      return internalError(req, res, e.message);
+    }
+  });
+}
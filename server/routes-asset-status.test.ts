@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { readStatusEntry, writeStatusEntry } from "./bitstring-utils.js";
+import { statusMessageTable } from "./services/status-messages.js";
+import { registerAssetStatusRoutes } from "./routes-asset-status.js";
+
+/**
+ * Route tests for revoke, suspend / reinstate and status-message.
+ *
+ * storage.ts, the status list repository, webhooks and API key lookup are
+ * replaced with in-memory fakes (storage.ts imports db.ts, which requires
+ * DATABASE_URL).
+ */
+
+const fakes = vi.hoisted(() => ({
+  assets: new Map<string, Record<string, any>>(),
+  lists: new Map<string, { buf: Buffer; statusSize: number; statusMessages: any }>(),
+  auditEvents: [] as { eventType: string; assetId: string; payload: any }[],
+  keys: new Map<string, { partnerId: string; scopes: string[] }>(),
+  publishEvent: null as any,
+}));
+
+vi.mock("./storage.js", () => ({
+  storage: {
+    getProofAsset: async (id: string) => fakes.assets.get(id),
+    updateProofAsset: async (id: string, updates: Record<string, unknown>) => {
+      Object.assign(fakes.assets.get(id)!, updates);
+      return fakes.assets.get(id);
+    },
+    createAuditEvent: async (event: any) => {
+      fakes.auditEvents.push(event);
+      return event;
+    },
+  },
+}));
+
+vi.mock("./services/status-list-repo.js", () => ({
+  getList: async (url: string) => {
+    const list = fakes.lists.get(url);
+    return list ? { url, statusSize: list.statusSize, statusMessages: list.statusMessages } : null;
+  },
+  updateEntry: async (url: string, index: number, value: number) => {
+    const list = fakes.lists.get(url);
+    if (!list) return null;
+    const previous = readStatusEntry(list.buf, index, list.statusSize);
+    if (previous !== value) writeStatusEntry(list.buf, index, list.statusSize, value);
+    return { changed: previous !== value, previous, etag: `W/"${url}:${previous}->${value}"` };
+  },
+}));
+
+vi.mock("./services/webhooks.js", () => ({
+  publishEvent: (fakes.publishEvent = vi.fn(async () => {})),
+}));
+
+vi.mock("./services/apiKeys.js", () => ({
+  validateApiKeyHeader: async (header?: string) => {
+    const key = header ? fakes.keys.get(header) : undefined;
+    return key ? { ok: true, keyId: header, ...key } : { ok: false, reason: "unknown_key" };
+  },
+}));
+
+const REVOCATION_LIST = "https://registry.example/status/revocation/1";
+const SUSPENSION_LIST = "https://registry.example/status/suspension/1";
+const MESSAGE_LIST = "https://registry.example/status/message/1";
+const MESSAGES = statusMessageTable(["active", "pending_review", "under_investigation", "disputed"]);
+
+function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  registerAssetStatusRoutes(app);
+  return app;
+}
+
+function post(path: string, key: string, body: Record<string, unknown> = {}) {
+  return request(createTestApp()).post(path).set("x-api-key", key).send(body);
+}
+
+beforeEach(() => {
+  fakes.assets.clear();
+  fakes.auditEvents.length = 0;
+  fakes.publishEvent.mockClear();
+
+  fakes.keys.clear();
+  fakes.keys.set("owner-key", { partnerId: "partner-a", scopes: ["status:update"] });
+  fakes.keys.set("other-key", { partnerId: "partner-b", scopes: ["status:update"] });
+  fakes.keys.set("read-key", { partnerId: "partner-a", scopes: ["assets:read"] });
+  fakes.keys.set("admin-key", { partnerId: "admin", scopes: ["admin:*"] });
+
+  fakes.lists.clear();
+  fakes.lists.set(REVOCATION_LIST, { buf: Buffer.alloc(16), statusSize: 1, statusMessages: null });
+  fakes.lists.set(SUSPENSION_LIST, { buf: Buffer.alloc(16), statusSize: 1, statusMessages: null });
+  fakes.lists.set(MESSAGE_LIST, { buf: Buffer.alloc(32), ...MESSAGES });
+
+  fakes.assets.set("asset-1", {
+    proofAssetId: "asset-1",
+    partnerId: "partner-a",
+    verificationStatus: "verified",
+    statusListUrl: REVOCATION_LIST,
+    statusListIndex: "7",
+    statusPurpose: "revocation",
+    suspensionListUrl: SUSPENSION_LIST,
+    suspensionListIndex: "9",
+    messageListUrl: MESSAGE_LIST,
+    messageListIndex: "5",
+  });
+});
+
+describe("POST /api/proof-assets/:id/suspend and /reinstate", () => {
+  it("lets the owning partner suspend and reinstate an asset", async () => {
+    const suspended = await post("/api/proof-assets/asset-1/suspend", "owner-key", { reason: "chargeback" });
+    expect(suspended.status).toBe(200);
+    expect(suspended.body).toMatchObject({ ok: true, action: "suspend", verificationStatus: "suspended" });
+    expect(readStatusEntry(fakes.lists.get(SUSPENSION_LIST)!.buf, 9, 1)).toBe(1);
+
+    const reinstated = await post("/api/proof-assets/asset-1/reinstate", "owner-key");
+    expect(reinstated.status).toBe(200);
+    expect(reinstated.body.verificationStatus).toBe("verified");
+    expect(readStatusEntry(fakes.lists.get(SUSPENSION_LIST)!.buf, 9, 1)).toBe(0);
+
+    expect(fakes.auditEvents.map((event) => [event.eventType, event.payload.operation])).toEqual([
+      ["STATUS_UPDATE", "set"],
+      ["STATUS_UPDATE", "clear"],
+    ]);
+    expect(fakes.publishEvent).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects other partners and keys without status:update, and lets an admin suspend", async () => {
+    const other = await post("/api/proof-assets/asset-1/suspend", "other-key");
+    expect(other.status).toBe(403);
+    expect(other.body.code).toBe("FORBIDDEN");
+    expect((await post("/api/proof-assets/asset-1/suspend", "read-key")).status).toBe(403);
+    expect((await post("/api/proof-assets/asset-1/suspend", "unknown-key")).status).toBe(401);
+    expect(fakes.auditEvents).toHaveLength(0);
+
+    expect((await post("/api/proof-assets/asset-1/suspend", "admin-key")).status).toBe(200);
+  });
+
+  it("answers 409 when the asset is already in the requested state", async () => {
+    const notSuspended = await post("/api/proof-assets/asset-1/reinstate", "owner-key");
+    expect(notSuspended.status).toBe(409);
+    expect(notSuspended.body.code).toBe("NOT_SUSPENDED");
+
+    await post("/api/proof-assets/asset-1/suspend", "owner-key");
+    const again = await post("/api/proof-assets/asset-1/suspend", "owner-key");
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe("ALREADY_SUSPENDED");
+    expect(fakes.auditEvents).toHaveLength(1);
+  });
+});
+
+describe("POST /api/proof-assets/:id/revoke", () => {
+  it("lets the owning partner revoke with a reason code", async () => {
+    const res = await post("/api/proof-assets/asset-1/revoke", "owner-key", { reason: "key_compromise" });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ ok: true, verificationStatus: "revoked", reason: "key_compromise" });
+    expect(readStatusEntry(fakes.lists.get(REVOCATION_LIST)!.buf, 7, 1)).toBe(1);
+    expect(fakes.assets.get("asset-1")).toMatchObject({ verificationStatus: "revoked", revocationReason: "key_compromise" });
+    expect(fakes.auditEvents).toEqual([
+      expect.objectContaining({ eventType: "REVOKE", assetId: "asset-1", payload: expect.objectContaining({ revoked_by: "partner-a" }) }),
+    ]);
+    expect(fakes.publishEvent).toHaveBeenCalledWith("partner-a", "REVOKE", expect.objectContaining({ asset_id: "asset-1" }));
+  });
+
+  it("rejects other partners, unknown reasons and future effective times, and lets an admin revoke", async () => {
+    expect((await post("/api/proof-assets/asset-1/revoke", "other-key", { reason: "fraud" })).status).toBe(403);
+    expect((await post("/api/proof-assets/asset-1/revoke", "owner-key", { reason: "bored" })).status).toBe(400);
+    const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    expect((await post("/api/proof-assets/asset-1/revoke", "owner-key", { reason: "fraud", effectiveAt: future })).status).toBe(400);
+    expect(fakes.auditEvents).toHaveLength(0);
+
+    expect((await post("/api/proof-assets/asset-1/revoke", "admin-key", { reason: "fraud" })).status).toBe(200);
+  });
+
+  it("records a single revocation when two requests race", async () => {
+    const responses = await Promise.all([
+      post("/api/proof-assets/asset-1/revoke", "owner-key", { reason: "superseded" }),
+      post("/api/proof-assets/asset-1/revoke", "owner-key", { reason: "superseded" }),
+    ]);
+
+    expect(responses.map((res) => res.status).sort()).toEqual([200, 409]);
+    expect(responses.find((res) => res.status === 409)!.body.code).toBe("ALREADY_REVOKED");
+    expect(fakes.auditEvents).toHaveLength(1);
+    expect(fakes.publishEvent).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("POST /api/proof-assets/:id/status-message", () => {
+  it("sets the message entry without changing the verification status", async () => {
+    const res = await post("/api/proof-assets/asset-1/status-message", "owner-key", { status: "pending_review" });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      statusMessage: { status: "0x1", message: "pending_review" },
+      verificationStatus: "verified",
+    });
+    expect(readStatusEntry(fakes.lists.get(MESSAGE_LIST)!.buf, 5, 2)).toBe(1);
+    expect(fakes.auditEvents[0].payload).toMatchObject({ old_message: "active", new_message: "pending_review" });
+
+    const byHex = await post("/api/proof-assets/asset-1/status-message", "owner-key", { status: "0x3" });
+    expect(byHex.body.statusMessage.message).toBe("disputed");
+  });
+
+  it("rejects other partners and unknown messages, and lets an admin set a message", async () => {
+    expect((await post("/api/proof-assets/asset-1/status-message", "other-key", { status: "disputed" })).status).toBe(403);
+    const unknown = await post("/api/proof-assets/asset-1/status-message", "owner-key", { status: "archived" });
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.detail).toContain("pending_review");
+
+    expect((await post("/api/proof-assets/asset-1/status-message", "admin-key", { status: "disputed" })).status).toBe(200);
+  });
+
+  it("answers 409 when the entry already holds the message", async () => {
+    const res = await post("/api/proof-assets/asset-1/status-message", "owner-key", { status: "active" });
+
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe("STATUS_MESSAGE_UNCHANGED");
+    expect(fakes.auditEvents).toHaveLength(0);
+  });
+});
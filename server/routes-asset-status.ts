@@ -0,0 +1,347 @@
+import type { Express, Request, Response } from "express";
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { storage } from "./storage.js";
+import type { ProofAsset } from "../shared/schema.js";
+import { getList, updateEntry } from "./services/status-list-repo.js";
+import { statusMessageFor, statusValueFor } from "./services/status-messages.js";
+import { publishEvent } from "./services/webhooks.js";
+import { apiKeyAuth, requireScopes } from "./middleware/apiKey.js";
+import { perKeyRateLimit } from "./middleware/rateLimit.js";
+import { badRequest, conflict, internalError, notFound, sendError } from "./utils/errors.js";
+
+/**
+ * Asset status routes (revoke, suspend, reinstate, status message)
+ *
+ * Every asset carries a revocation entry, a suspension entry and a multi-bit
+ * status message entry; the routes
+ * resolve the asset's list and index themselves and only let the owning
+ * partner (or an admin) change them.
+ *
+ * - revoke is permanent: it sets the revocation bit, records a reason code and
+ *   effective time, and writes a REVOKE audit event and webhook
+ * - suspend / reinstate set or clear the suspension bit and write a
+ *   STATUS_UPDATE audit event and webhook
+ * - status-message sets the message entry to one of the list's messages
+ *   (e.g. pending_review) and writes a STATUS_UPDATE audit event and webhook;
+ *   it does not change the asset's verification status
+ *
+ * Re-verification reports `revoked` or `suspended` (revocation wins).
+ *
+ * Each entry is compared and written in one list update, so of two
+ * concurrent identical requests only one changes the entry and records
+ * audit events and webhooks; the other gets the 409.
+ */
+
+const REVOCATION_REASONS = ['key_compromise', 'superseded', 'issuer_request', 'fraud'] as const;
+
+// Tolerated clock skew for client-supplied effective times
+const MAX_EFFECTIVE_SKEW_MS = 60_000;
+
+const RevokeRequest = z.object({
+  reason: z.enum(REVOCATION_REASONS),
+  effectiveAt: z.string().datetime().optional(), // Defaults to now; may be backdated, never in the future
+});
+
+const StatusChangeRequest = z.object({
+  reason: z.string().min(1).max(256).optional(),
+});
+
+const StatusMessageRequest = z.object({
+  status: z.string().min(1).max(256), // Message ("pending_review") or hex status ("0x1")
+  reason: z.string().min(1).max(256).optional(),
+});
+
+type SuspensionAction = "suspend" | "reinstate";
+
+/**
+ * Whether the caller may change an asset's status (owning partner, or admin
+ * for any asset including those minted without a partner)
+ */
+function canChangeStatus(req: Request, proof: ProofAsset): boolean {
+  if (req.auth?.scopes.includes('admin:*')) return true;
+  return !!proof.partnerId && proof.partnerId === req.auth?.partnerId;
+}
+
+async function revoke(req: Request, res: Response) {
+  try {
+    const body = RevokeRequest.parse(req.body || {});
+    const recordedAt = new Date();
+    const effectiveAt = body.effectiveAt ? new Date(body.effectiveAt) : recordedAt;
+    if (effectiveAt.getTime() > recordedAt.getTime() + MAX_EFFECTIVE_SKEW_MS) {
+      return badRequest(req, res, "Validation error", "VALIDATION_FAILED", "effectiveAt cannot be in the future");
+    }
+
+    const proof = await storage.getProofAsset(req.params.id);
+    if (!proof) {
+      return notFound(req, res, "Proof asset not found", "ASSET_NOT_FOUND");
+    }
+    if (!canChangeStatus(req, proof)) {
+      return sendError(req, res, 403, "Asset is not owned by this partner", "FORBIDDEN");
+    }
+
+    const index = parseInt(proof.statusListIndex, 10);
+    const update = await updateEntry(proof.statusListUrl, index, 1);
+    if (!update) {
+      return notFound(req, res, "Revocation status list not found", "STATUS_LIST_NOT_FOUND");
+    }
+    if (!update.changed) {
+      return conflict(req, res, "Asset is already revoked", "ALREADY_REVOKED");
+    }
+    const { etag } = update;
+
+    await storage.updateProofAsset(proof.proofAssetId, {
+      verificationStatus: "revoked",
+      revocationReason: body.reason,
+      revokedAt: effectiveAt,
+    });
+
+    const payload = {
+      old_status: proof.verificationStatus,
+      new_status: "revoked",
+      reason: body.reason,
+      effective_at: effectiveAt.toISOString(),
+      recorded_at: recordedAt.toISOString(),
+      status_list_url: proof.statusListUrl,
+      status_list_index: proof.statusListIndex,
+      status_purpose: proof.statusPurpose,
+      revoked_by: req.auth?.partnerId,
+    };
+    await storage.createAuditEvent({
+      eventType: "REVOKE",
+      assetId: proof.proofAssetId,
+      payload,
+      traceId: randomUUID(),
+    });
+
+    if (proof.partnerId) {
+      publishEvent(proof.partnerId, "REVOKE", { asset_id: proof.proofAssetId, ...payload }).catch((err) => {
+        console.error(`[asset-status] Webhook publish failed: asset=${proof.proofAssetId} error=${err.message}`);
+      });
+    }
+
+    return res.json({
+      ok: true,
+      assetId: proof.proofAssetId,
+      verificationStatus: "revoked",
+      reason: body.reason,
+      effectiveAt: effectiveAt.toISOString(),
+      statusPurpose: proof.statusPurpose,
+      statusListUrl: proof.statusListUrl,
+      statusListIndex: proof.statusListIndex,
+      etag,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return badRequest(req, res, "Validation error", "VALIDATION_FAILED", error.errors[0]?.message);
+    }
+    return internalError(req, res, error.message);
+  }
+}
+
+async function changeSuspension(req: Request, res: Response, action: SuspensionAction) {
+  try {
+    const body = StatusChangeRequest.parse(req.body || {});
+
+    const proof = await storage.getProofAsset(req.params.id);
+    if (!proof) {
+      return notFound(req, res, "Proof asset not found", "ASSET_NOT_FOUND");
+    }
+    if (!canChangeStatus(req, proof)) {
+      return sendError(req, res, 403, "Asset is not owned by this partner", "FORBIDDEN");
+    }
+    if (!proof.suspensionListUrl || !proof.suspensionListIndex) {
+      return conflict(
+        req,
+        res,
+        "Asset has no suspension entry",
+        "SUSPENSION_UNSUPPORTED",
+        "Assets minted before suspend / reinstate only carry a revocation entry"
+      );
+    }
+
+    const index = parseInt(proof.suspensionListIndex, 10);
+    const update = await updateEntry(proof.suspensionListUrl, index, action === "suspend" ? 1 : 0);
+    if (!update) {
+      return notFound(req, res, "Suspension status list not found", "STATUS_LIST_NOT_FOUND");
+    }
+    if (!update.changed) {
+      return action === "suspend"
+        ? conflict(req, res, "Asset is already suspended", "ALREADY_SUSPENDED")
+        : conflict(req, res, "Asset is not suspended", "NOT_SUSPENDED");
+    }
+    const { etag } = update;
+    const op = action === "suspend" ? "set" : "clear";
+
+    // Revocation is permanent and wins over suspension
+    const newStatus = proof.verificationStatus === "revoked"
+      ? "revoked"
+      : action === "suspend" ? "suspended" : "verified";
+    await storage.updateProofAsset(proof.proofAssetId, { verificationStatus: newStatus });
+
+    const payload = {
+      source: action,
+      old_status: proof.verificationStatus,
+      new_status: newStatus,
+      status_list_url: proof.suspensionListUrl,
+      status_list_index: proof.suspensionListIndex,
+      status_purpose: "suspension",
+      operation: op,
+      reason: body.reason,
+    };
+    await storage.createAuditEvent({
+      eventType: "STATUS_UPDATE",
+      assetId: proof.proofAssetId,
+      payload,
+      traceId: randomUUID(),
+    });
+
+    if (proof.partnerId) {
+      publishEvent(proof.partnerId, "STATUS_UPDATE", { asset_id: proof.proofAssetId, ...payload }).catch((err) => {
+        console.error(`[asset-status] Webhook publish failed: asset=${proof.proofAssetId} error=${err.message}`);
+      });
+    }
+
+    return res.json({
+      ok: true,
+      assetId: proof.proofAssetId,
+      action,
+      verificationStatus: newStatus,
+      statusPurpose: "suspension",
+      statusListUrl: proof.suspensionListUrl,
+      statusListIndex: proof.suspensionListIndex,
+      etag,
+      reason: body.reason,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return badRequest(req, res, "Validation error", "VALIDATION_FAILED", error.errors[0]?.message);
+    }
+    return internalError(req, res, error.message);
+  }
+}
+
+async function setStatusMessage(req: Request, res: Response) {
+  try {
+    const body = StatusMessageRequest.parse(req.body || {});
+
+    const proof = await storage.getProofAsset(req.params.id);
+    if (!proof) {
+      return notFound(req, res, "Proof asset not found", "ASSET_NOT_FOUND");
+    }
+    if (!canChangeStatus(req, proof)) {
+      return sendError(req, res, 403, "Asset is not owned by this partner", "FORBIDDEN");
+    }
+    if (!proof.messageListUrl || !proof.messageListIndex) {
+      return conflict(
+        req,
+        res,
+        "Asset has no status message entry",
+        "STATUS_MESSAGE_UNSUPPORTED",
+        "Assets minted before status messages only carry revocation and suspension entries"
+      );
+    }
+
+    const index = parseInt(proof.messageListIndex, 10);
+    const list = await getList(proof.messageListUrl);
+    if (!list) {
+      return notFound(req, res, "Message status list not found", "STATUS_LIST_NOT_FOUND");
+    }
+    const statusMessages = list.statusMessages || [];
+    const value = statusValueFor(body.status, statusMessages);
+    if (value === undefined) {
+      return badRequest(
+        req,
+        res,
+        "Validation error",
+        "VALIDATION_FAILED",
+        `Unknown status message. Expected one of: ${statusMessages.map((row) => row.message).join(", ")}`
+      );
+    }
+
+    const update = await updateEntry(proof.messageListUrl, index, value);
+    if (!update) {
+      return notFound(req, res, "Message status list not found", "STATUS_LIST_NOT_FOUND");
+    }
+    if (!update.changed) {
+      return conflict(req, res, "Asset already has this status message", "STATUS_MESSAGE_UNCHANGED");
+    }
+    const { etag } = update;
+    const oldMessage = statusMessageFor(update.previous, statusMessages);
+    const newMessage = statusMessageFor(value, statusMessages)!;
+
+    const payload = {
+      source: "status-message",
+      old_message: oldMessage?.message,
+      new_message: newMessage.message,
+      status: newMessage.status,
+      status_list_url: proof.messageListUrl,
+      status_list_index: proof.messageListIndex,
+      status_purpose: "message",
+      reason: body.reason,
+    };
+    await storage.createAuditEvent({
+      eventType: "STATUS_UPDATE",
+      assetId: proof.proofAssetId,
+      payload,
+      traceId: randomUUID(),
+    });
+
+    if (proof.partnerId) {
+      publishEvent(proof.partnerId, "STATUS_UPDATE", { asset_id: proof.proofAssetId, ...payload }).catch((err) => {
+        console.error(`[asset-status] Webhook publish failed: asset=${proof.proofAssetId} error=${err.message}`);
+      });
+    }
+
+    return res.json({
+      ok: true,
+      assetId: proof.proofAssetId,
+      statusMessage: newMessage,
+      verificationStatus: proof.verificationStatus,
+      statusPurpose: "message",
+      statusListUrl: proof.messageListUrl,
+      statusListIndex: proof.messageListIndex,
+      etag,
+      reason: body.reason,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return badRequest(req, res, "Validation error", "VALIDATION_FAILED", error.errors[0]?.message);
+    }
+    return internalError(req, res, error.message);
+  }
+}
+
+export function registerAssetStatusRoutes(app: Express) {
+  /**
+   * POST /api/proof-assets/:id/revoke
+   *
+   * Body: { reason: key_compromise | superseded | issuer_request | fraud, effectiveAt? }.
+   * Sets the asset's revocation bit (409 if already revoked).
+   */
+  app.post("/api/proof-assets/:id/revoke", apiKeyAuth, requireScopes(['status:update']), perKeyRateLimit, revoke);
+
+  /**
+   * POST /api/proof-assets/:id/suspend
+   *
+   * Body: { reason? }. Sets the asset's suspension bit (409 if already set).
+   */
+  app.post("/api/proof-assets/:id/suspend", apiKeyAuth, requireScopes(['status:update']), perKeyRateLimit,
+    (req: Request, res: Response) => changeSuspension(req, res, "suspend"));
+
+  /**
+   * POST /api/proof-assets/:id/reinstate
+   *
+   * Body: { reason? }. Clears the asset's suspension bit (409 if not suspended).
+   */
+  app.post("/api/proof-assets/:id/reinstate", apiKeyAuth, requireScopes(['status:update']), perKeyRateLimit,
+    (req: Request, res: Response) => changeSuspension(req, res, "reinstate"));
+
+  /**
+   * POST /api/proof-assets/:id/status-message
+   *
+   * Body: { status: message | hex status, reason? }. Sets the asset's status
+   * message entry (409 if unchanged).
+   */
+  app.post("/api/proof-assets/:id/status-message", apiKeyAuth, requireScopes(['status:update']), perKeyRateLimit, setStatusMessage);
+}
@@ -1,14 +1,44 @@
 import type { Express, Request, Response } from "express";
 import { db, pool } from "./db.js";
-import { leafHash, merkleRoot, merkleProof } from "./services/merkle.js";
+import { windowInclusionProof, windowRoot, type AuditLogReader } from "./services/audit-checkpoints.js";
+import { findReceiptLogEvent } from "./services/receipt-transparency.js";
 
 /**
  * Audit transparency export endpoints
  * 
  * Provides Merkle root and inclusion proofs for audit events.
  * Enables third-party verification of audit trail integrity.
+ * Roots and proofs are per checkpoint window (services/audit-checkpoints.ts),
+ * so every logged event stays provable as the log grows.
  */
 
+// Log order: timestamp, then event_id for events with the same timestamp
+const LEAF_COLUMNS = "event_id, event_type, asset_id, payload, timestamp AS created_at";
+
+const auditLog: AuditLogReader = {
+  async positionOf(eventId) {
+    const result = await pool.query(
+      `SELECT count(a.event_id)::int AS position, bool_or(e.event_id IS NOT NULL) AS found
+       FROM (SELECT timestamp, event_id FROM audit_events WHERE event_id = $1) e
+       LEFT JOIN audit_events a ON (a.timestamp, a.event_id) < (e.timestamp, e.event_id)`,
+      [eventId]
+    );
+    const row = result.rows[0];
+    return row?.found ? row.position : null;
+  },
+  async readRange(start, limit) {
+    const result = await pool.query(
+      `SELECT ${LEAF_COLUMNS} FROM audit_events ORDER BY timestamp ASC, event_id ASC OFFSET $1 LIMIT $2`,
+      [start, limit]
+    );
+    return result.rows || [];
+  },
+  async count() {
+    const result = await pool.query(`SELECT count(*)::int AS count FROM audit_events`);
+    return result.rows[0]?.count ?? 0;
+  },
+};
+
 export function registerAuditExports(app: Express) {
   /**
    * GET /api/audit/events
@@ -63,29 +93,34 @@ export function registerAuditExports(app: Express) {
   /**
    * GET /api/audit/root
    * 
-   * Returns Merkle root hash computed over recent audit events.
-   * Demo: Last 10k events for performance
-   * Production: Would use incremental Merkle tree with persistent snapshots
+   * Returns the Merkle root of one checkpoint window of the audit log.
+   * 
+   * @query window - Window index (default: the newest window)
    */
-  app.get("/api/audit/root", async (_req: Request, res: Response) => {
+  app.get("/api/audit/root", async (req: Request, res: Response) => {
     try {
-      const result = await db.execute(
-        `SELECT event_id, event_type, asset_id, payload, timestamp AS created_at 
-         FROM audit_events 
-         ORDER BY timestamp ASC 
-         LIMIT 10000`
-      );
+      const requested = req.query.window === undefined ? undefined : Number(req.query.window);
+      if (requested !== undefined && (!Number.isInteger(requested) || requested < 0)) {
+        return res.status(400).json({
+          error: "Invalid window",
+          detail: "window must be a non-negative integer",
+        });
+      }
 
-      const rows = result.rows || [];
-      const leaves = rows.map((ev: any) => leafHash(ev));
-      const root = merkleRoot(leaves);
+      const checkpoint = await windowRoot(auditLog, requested);
+      if (!checkpoint) {
+        return res.status(404).json({
+          error: "Window not found",
+          detail: `Audit log has no window ${requested}`,
+        });
+      }
 
       return res.json({
         ok: true,
-        count: leaves.length,
-        root: Buffer.from(root).toString("hex"),
+        count: checkpoint.window.count,
+        window: checkpoint.window,
+        root: Buffer.from(checkpoint.root).toString("hex"),
         algorithm: "sha2-256",
-        note: "Demo: computed over last 10k events. Production would use persistent snapshots.",
       });
     } catch (error: any) {
       return res.status(500).json({
@@ -106,51 +141,54 @@ export function registerAuditExports(app: Express) {
    */
   app.get("/api/audit/proof/:eventId", async (req: Request, res: Response) => {
     try {
-      const result = await db.execute(
-        `SELECT event_id, event_type, asset_id, payload, timestamp AS created_at 
-         FROM audit_events 
-         ORDER BY timestamp ASC 
-         LIMIT 10000`
-      );
+      const inclusion = await inclusionProof(req.params.eventId);
 
-      const rows = result.rows || [];
-      const leaves = rows.map((ev: any) => leafHash(ev));
+      if (!inclusion) {
+        return res.status(404).json({
+          error: "Event not found",
+          detail: `Event ${req.params.eventId} not found in the audit log`,
+        });
+      }
+
+      const { event: _event, ...body } = inclusion;
+      return res.json({ ok: true, ...body });
+    } catch (error: any) {
+      return res.status(500).json({
+        error: "Failed to generate Merkle proof",
+        detail: error.message,
+      });
+    }
+  });
 
-      // Find event index
-      const eventIndex = rows.findIndex((ev: any) => ev.event_id === req.params.eventId);
+  /**
+   * GET /api/audit/receipts/:jti/proof
+   * 
+   * Returns the RECEIPT_ISSUED event logged for a receipt jti with its Merkle
+   * inclusion proof. Verifiers can require this before accepting a receipt:
+   * a receipt signed outside the registry (e.g. with a leaked key) is not logged.
+   * 
+   * @param jti - Receipt JWT ID
+   * @returns Logged event, inclusion proof and root
+   */
+  app.get("/api/audit/receipts/:jti/proof", async (req: Request, res: Response) => {
+    try {
+      const logged = await findReceiptLogEvent(req.params.jti);
+      if (!logged) {
+        return res.status(404).json({
+          error: "Receipt not logged",
+          detail: `No RECEIPT_ISSUED event for jti ${req.params.jti}`,
+        });
+      }
 
-      if (eventIndex === -1) {
+      const inclusion = await inclusionProof(logged.eventId);
+      if (!inclusion) {
         return res.status(404).json({
           error: "Event not found",
-          detail: `Event ${req.params.eventId} not found in recent events`,
+          detail: `Event ${logged.eventId} not found in the audit log`,
         });
       }
 
-      // Generate inclusion proof
-      const proof = merkleProof(leaves, eventIndex).map((hash) =>
-        Buffer.from(hash).toString("hex")
-      );
-      const root = merkleRoot(leaves);
-
-      return res.json({
-        ok: true,
-        eventId: req.params.eventId,
-        eventIndex,
-        leaf: Buffer.from(leaves[eventIndex]).toString("hex"),
-        root: Buffer.from(root).toString("hex"),
-        proof,
-        algorithm: "sha2-256",
-        verification: {
-          instructions: [
-            "1. Hash your event data using SHA-256",
-            "2. For each proof element (sibling hash):",
-            "   - If eventIndex is even: hash(current, sibling)",
-            "   - If eventIndex is odd: hash(sibling, current)",
-            "   - Update index = floor(index / 2)",
-            "3. Final hash should equal root",
-          ],
-        },
-      });
+      return res.json({ ok: true, jti: req.params.jti, ...inclusion });
     } catch (error: any) {
       return res.status(500).json({
         error: "Failed to generate Merkle proof",
@@ -255,6 +293,40 @@ export function registerAuditExports(app: Express) {
   });
 }
 
+/**
+ * Helper: Merkle inclusion proof for an audit event against its window's root
+ * (GET /api/audit/root?window=<window.index>)
+ * 
+ * @returns Proof with the hashed event row, or null if the event is not logged
+ */
+async function inclusionProof(eventId: string) {
+  const inclusion = await windowInclusionProof(auditLog, eventId);
+  if (!inclusion) {
+    return null;
+  }
+
+  return {
+    eventId,
+    eventIndex: inclusion.eventIndex,
+    window: inclusion.window,
+    event: inclusion.event,
+    leaf: Buffer.from(inclusion.leaf).toString("hex"),
+    root: Buffer.from(inclusion.root).toString("hex"),
+    proof: inclusion.proof.map((hash) => Buffer.from(hash).toString("hex")),
+    algorithm: "sha2-256",
+    verification: {
+      instructions: [
+        "1. Hash your event data using SHA-256",
+        "2. For each proof element (sibling hash):",
+        "   - If eventIndex is even: hash(current, sibling)",
+        "   - If eventIndex is odd: hash(sibling, current)",
+        "   - Update index = floor(index / 2)",
+        "3. Final hash should equal root (GET /api/audit/root?window=<window.index>)",
+      ],
+    },
+  };
+}
+
 /**
  * Helper: Safely truncate payload JSON for preview
  */
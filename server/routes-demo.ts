@@ -1,8 +1,8 @@
 import type { Express, Request, Response } from "express";
 import { createHash, randomBytes } from "crypto";
-import { SignJWT, importJWK } from "jose";
 import { storage } from "./storage.js";
-import { getReceiptSigningKey } from "./routes.js";
+import { getReceiptSigner, signJwt, type Signer } from "./services/signers/index.js";
+import { signingAlgorithmFor } from "./services/receipt-alg-policy.js";
 import { ensureList, applyOps, getCompressedBitstring } from "./services/status-list-repo.js";
 
 /**
@@ -42,27 +42,21 @@ function b64uDigest(input: string | Buffer): string {
 }
 
 /**
- * Get signing key for demo receipt generation
- * Uses the same receipt signing key that was initialized in routes.ts
+ * Get signer for demo receipt generation
+ * Uses the same receipt signer as minting (services/signers)
  */
-function getDemoSigningKey(): JsonWebKey {
+async function getDemoSigner(): Promise<Signer> {
   if (process.env.NODE_ENV === 'production') {
     throw new Error("[demo] Receipt signing disabled in production. Use separate verifier service.");
   }
   
-  // Try environment variable first
-  if (process.env.RECEIPT_VERIFIER_PRIVATE_JWK) {
-    return JSON.parse(process.env.RECEIPT_VERIFIER_PRIVATE_JWK);
-  }
-  
-  // Use the ephemeral key generated at startup
-  const key = getReceiptSigningKey();
+  const signer = await getReceiptSigner(signingAlgorithmFor({ audience: DEMO.audience }));
   
-  if (!key) {
+  if (!signer) {
     throw new Error("[demo] Receipt signing key not initialized. Server may still be starting up.");
   }
   
-  return key;
+  return signer;
 }
 
 export async function registerDemoRoutes(app: Express) {
@@ -167,8 +161,7 @@ export async function registerDemoRoutes(app: Express) {
       }
 
       // 6) Generate signed receipt (dev-only)
-      const jwk = getDemoSigningKey();
-      const privateKey = await importJWK(jwk, 'ES256');
+      const signer = await getDemoSigner();
 
       const now = Math.floor(Date.now() / 1000);
       const receiptPayload = {
@@ -188,13 +181,7 @@ export async function registerDemoRoutes(app: Express) {
         iss: DEMO.verifierDid,
       };
 
-      const receipt = await new SignJWT(receiptPayload)
-        .setProtectedHeader({ 
-          alg: 'ES256', 
-          typ: 'JWT', 
-          kid: (jwk as any).kid || 'demo-key' 
-        })
-        .sign(privateKey);
+      const receipt = await signJwt(signer, receiptPayload, { typ: 'JWT' });
 
       // 7) Store the receipt in the proof asset (critical for receipt-based verification)
       await storage.updateProofAsset(proofAsset.proofAssetId, {
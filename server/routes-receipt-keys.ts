@@ -0,0 +1,127 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { requireScopes, apiKeyAuth } from "./middleware/apiKey.js";
+import {
+  findReceiptVerificationKey,
+  getPublicJwks,
+  listReceiptKeys,
+  listRevokedReceiptKeys,
+  revokeReceiptKey,
+  rotateReceiptKey,
+  scheduleReceiptKeyRetirement,
+} from "./services/receipt-keys.js";
+import { RECEIPT_ALGORITHMS } from "./services/receipt-alg-policy.js";
+import { badRequest, conflict, internalError, notFound } from "./utils/errors.js";
+
+const RotateReceiptKey = z.object({
+  retirePreviousAt: z.string().datetime().optional(),
+  alg: z.enum(RECEIPT_ALGORITHMS).default('ES256'),
+});
+
+const RetireReceiptKey = z.object({
+  retireAt: z.string().datetime().optional(),
+});
+
+const RevokeReceiptKey = z.object({
+  reason: z.enum(['key_compromise', 'superseded', 'cessation_of_operation', 'unspecified']).default('key_compromise'),
+  receiptsIssuedAfter: z.string().datetime().optional(),
+});
+
+/**
+ * Receipt signing key routes
+ *
+ * - GET /.well-known/jwks.json publishes every key that can still verify receipts
+ * - GET /.well-known/revoked-keys.json publishes revoked kids and their cutoffs
+ * - Admin routes rotate the signing key, schedule retirements and revoke keys
+ */
+export function registerReceiptKeyRoutes(app: Express) {
+  app.get('/.well-known/jwks.json', async (req: Request, res: Response) => {
+    try {
+      const jwks = await getPublicJwks();
+      res.setHeader('Cache-Control', 'public, max-age=300');
+      return res.json(jwks);
+    } catch (e: any) {
+      return internalError(req, res, e.message);
+    }
+  });
+
+  app.get('/.well-known/revoked-keys.json', async (req: Request, res: Response) => {
+    try {
+      const revocations = await listRevokedReceiptKeys();
+      res.setHeader('Cache-Control', 'public, max-age=300'); // 5 min cache
+      return res.json({
+        issuer: "registry.myproof.ai",
+        revoked_keys: revocations.map((r) => ({
+          kid: r.kid,
+          revoked_at: r.revokedAt.toISOString(),
+          reason: r.reason,
+          receipts_issued_after: r.receiptsIssuedAfter?.toISOString() ?? null,
+        })),
+        updated_at: new Date().toISOString(),
+      });
+    } catch (e: any) {
+      return internalError(req, res, e.message);
+    }
+  });
+
+  app.get('/api/admin/receipt-keys', apiKeyAuth, requireScopes(['admin:*']), async (req: Request, res: Response) => {
+    try {
+      return res.json({ ok: true, keys: await listReceiptKeys() });
+    } catch (e: any) {
+      return internalError(req, res, e.message);
+    }
+  });
+
+  app.post('/api/admin/receipt-keys/rotate', apiKeyAuth, requireScopes(['admin:*']), async (req: Request, res: Response) => {
+    try {
+      const body = RotateReceiptKey.parse(req.body || {});
+      const key = await rotateReceiptKey({
+        retirePreviousAt: body.retirePreviousAt ? new Date(body.retirePreviousAt) : undefined,
+        alg: body.alg,
+      });
+      return res.status(201).json({ ok: true, key });
+    } catch (e: any) {
+      if (e instanceof z.ZodError) {
+        return badRequest(req, res, "Validation error", "VALIDATION_FAILED", e.errors[0]?.message);
+      }
+      return internalError(req, res, e.message);
+    }
+  });
+
+  app.post('/api/admin/receipt-keys/:kid/retire', apiKeyAuth, requireScopes(['admin:*']), async (req: Request, res: Response) => {
+    try {
+      const body = RetireReceiptKey.parse(req.body || {});
+      const result = await scheduleReceiptKeyRetirement(req.params.kid, body.retireAt ? new Date(body.retireAt) : undefined);
+      if (!result.ok) {
+        return result.code === "RECEIPT_KEY_NOT_FOUND"
+          ? notFound(req, res, "Receipt key not found", result.code)
+          : conflict(req, res, "Receipt key retirement cannot be changed", result.code, result.reason);
+      }
+      return res.json({ ok: true, key: result.key });
+    } catch (e: any) {
+      if (e instanceof z.ZodError) {
+        return badRequest(req, res, "Validation error", "VALIDATION_FAILED", e.errors[0]?.message);
+      }
+      return internalError(req, res, e.message);
+    }
+  });
+
+  app.post('/api/admin/receipt-keys/:kid/revoke', apiKeyAuth, requireScopes(['admin:*']), async (req: Request, res: Response) => {
+    try {
+      const body = RevokeReceiptKey.parse(req.body || {});
+      if (!(await findReceiptVerificationKey(req.params.kid))) {
+        return notFound(req, res, "Receipt key not found", "RECEIPT_KEY_NOT_FOUND");
+      }
+      const revocation = await revokeReceiptKey(req.params.kid, {
+        reason: body.reason,
+        receiptsIssuedAfter: body.receiptsIssuedAfter ? new Date(body.receiptsIssuedAfter) : null,
+      });
+      return res.json({ ok: true, revocation });
+    } catch (e: any) {
+      if (e instanceof z.ZodError) {
+        return badRequest(req, res, "Validation error", "VALIDATION_FAILED", e.errors[0]?.message);
+      }
+      return internalError(req, res, e.message);
+    }
+  });
+}
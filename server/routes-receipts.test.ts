@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { decodeJwt } from "jose";
+import { generateTestKeypair } from "./receipt-service.js";
+import { localJwkSigner } from "./services/signers/local.js";
+import { registerRoutes } from "./routes.js";
+
+/**
+ * Route tests for relying-party receipt issuance (POST /api/proof-assets/:id/receipts).
+ *
+ * storage.ts, the status list check, the receipt keyring and the issuance and
+ * transparency logs are replaced with in-memory fakes (they import db.ts,
+ * which requires DATABASE_URL).
+ */
+
+const fakes = vi.hoisted(() => ({
+  assets: new Map<string, Record<string, any>>(),
+  verdicts: new Map<string, "valid" | "revoked" | "suspended" | "unknown">(),
+  issuances: [] as Record<string, any>[],
+  receiptLog: [] as { jti: string; recordedIssuances: number }[],
+  failIssuance: false,
+  keys: new Map<string, { partnerId: string; scopes: string[] }>(),
+  signer: null as any,
+}));
+
+vi.mock("./storage.js", () => ({
+  storage: { getProofAsset: async (id: string) => fakes.assets.get(id) },
+}));
+
+vi.mock("./status-list-client.js", () => ({
+  verifyAssetStatus: async (asset: { proofAssetId: string }) => {
+    const verdict = fakes.verdicts.get(asset.proofAssetId) || "valid";
+    return { verdict, reason: verdict === "unknown" ? "fetch_failed" : undefined, suspensionChecked: true, statusMessage: null };
+  },
+}));
+
+vi.mock("./services/signers/index.js", () => ({
+  initReceiptSigner: async () => {},
+  getReceiptSigner: async () => fakes.signer,
+}));
+
+vi.mock("./services/receipt-issuance.js", () => ({
+  REGISTRY_RECEIPT_AUDIENCE: "myproof-registry",
+  receiptIssuanceTtl: (requestedSeconds?: number) => Math.min(requestedSeconds ?? 300, 3600),
+  isAudienceIssued: async () => false,
+  recordReceiptIssuance: async (issuance: Record<string, any>) => {
+    if (fakes.failIssuance) throw new Error("insert failed");
+    const row = { ...issuance, issuanceId: `issuance-${fakes.issuances.length + 1}`, issuedAt: new Date() };
+    fakes.issuances.push(row);
+    return row;
+  },
+}));
+
+vi.mock("./services/receipt-transparency.js", () => ({
+  logIssuedReceipt: async (entry: { jti: string }) => {
+    fakes.receiptLog.push({ jti: entry.jti, recordedIssuances: fakes.issuances.length });
+  },
+}));
+
+vi.mock("./services/apiKeys.js", () => ({
+  validateApiKeyHeader: async (header?: string) => {
+    const key = header ? fakes.keys.get(header) : undefined;
+    return key ? { ok: true, keyId: header, ...key } : { ok: false, reason: "unknown_key" };
+  },
+}));
+
+let app: express.Express;
+
+beforeAll(async () => {
+  const { privateKey } = await generateTestKeypair("ES256");
+  fakes.signer = localJwkSigner(privateKey);
+
+  app = express();
+  app.use(express.json());
+  await registerRoutes(app);
+});
+
+beforeEach(() => {
+  fakes.issuances.length = 0;
+  fakes.receiptLog.length = 0;
+  fakes.failIssuance = false;
+  fakes.verdicts.clear();
+
+  fakes.keys.clear();
+  fakes.keys.set("owner-key", { partnerId: "partner-a", scopes: ["receipts:issue"] });
+  fakes.keys.set("other-key", { partnerId: "partner-b", scopes: ["receipts:issue"] });
+  fakes.keys.set("read-key", { partnerId: "partner-a", scopes: ["assets:read"] });
+  fakes.keys.set("admin-key", { partnerId: "admin", scopes: ["admin:*"] });
+
+  fakes.assets.clear();
+  fakes.assets.set("asset-1", {
+    proofAssetId: "asset-1",
+    partnerId: "partner-a",
+    proofDigest: "digest",
+    policyHash: "policy",
+    constraintHash: "constraint",
+    verificationStatus: "verified",
+    statusListUrl: "https://registry.example/status/revocation/1",
+    statusListIndex: "7",
+    statusPurpose: "revocation",
+  });
+});
+
+function issue(key: string, body: Record<string, unknown> = { audience: "rp.example", nonce: "n-123" }) {
+  return request(app).post("/api/proof-assets/asset-1/receipts").set("x-api-key", key).send(body);
+}
+
+describe("POST /api/proof-assets/:id/receipts", () => {
+  it("issues a one-time receipt bound to the relying party's audience and nonce", async () => {
+    const res = await issue("owner-key", { audience: "rp.example", nonce: "n-123", ttlSeconds: 120 });
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ ok: true, audience: "rp.example", kid: fakes.signer.kid, alg: "ES256", profile: "jwt" });
+    const claims = decodeJwt(res.body.receipt);
+    expect(claims).toMatchObject({ aud: "rp.example", nonce: "n-123", sub: "asset-1", replay_mode: "one-time" });
+    expect(claims.exp! - claims.iat!).toBe(120);
+
+    expect(fakes.issuances).toEqual([
+      expect.objectContaining({ assetId: "asset-1", partnerId: "partner-a", audience: "rp.example", jti: claims.jti }),
+    ]);
+    expect(fakes.receiptLog).toEqual([{ jti: claims.jti, recordedIssuances: 1 }]);
+  });
+
+  it("logs no RECEIPT_ISSUED event when the issuance cannot be recorded", async () => {
+    fakes.failIssuance = true;
+
+    expect((await issue("owner-key")).status).toBe(500);
+    expect(fakes.receiptLog).toHaveLength(0);
+  });
+
+  it("requires the receipts:issue scope and the owning partner (or admin)", async () => {
+    const other = await issue("other-key");
+    expect(other.status).toBe(403);
+    expect(other.body.code).toBe("FORBIDDEN");
+    expect((await issue("read-key")).status).toBe(403);
+    expect((await issue("unknown-key")).status).toBe(401);
+    expect(fakes.issuances).toHaveLength(0);
+
+    expect((await issue("admin-key")).status).toBe(201);
+  });
+
+  it("refuses revoked and suspended assets and fails closed when status is unavailable", async () => {
+    fakes.verdicts.set("asset-1", "revoked");
+    const revoked = await issue("owner-key");
+    expect(revoked.status).toBe(409);
+    expect(revoked.body).toMatchObject({ code: "ASSET_NOT_VALID", detail: "revoked" });
+
+    fakes.verdicts.set("asset-1", "suspended");
+    expect((await issue("owner-key")).body).toMatchObject({ code: "ASSET_NOT_VALID", detail: "suspended" });
+
+    fakes.verdicts.set("asset-1", "unknown");
+    expect((await issue("owner-key")).status).toBe(503);
+    expect(fakes.issuances).toHaveLength(0);
+  });
+
+  it("validates the request", async () => {
+    expect((await issue("owner-key", { audience: "rp.example" })).status).toBe(400);
+    expect((await request(app).post("/api/proof-assets/missing/receipts").set("x-api-key", "owner-key")
+      .send({ audience: "rp.example", nonce: "n" })).status).toBe(404);
+  });
+});
@@ -1,38 +1,67 @@
 import type { Express, Request, Response } from "express";
 import { ensureList, getCompressedBitstring } from "./services/status-list-repo.js";
+import { getReceiptSigner } from "./services/signers/index.js";
+import { signingAlgorithmFor } from "./services/receipt-alg-policy.js";
+import {
+  VC_JWT_MEDIA_TYPE,
+  signStatusListCredential,
+  statusListCredential,
+  type StatusListCredentialFormat,
+} from "./services/status-list-credential.js";
 
 /**
  * Status List Routes
  * 
- * Serves W3C Bitstring Status Lists from PostgreSQL database.
+ * Serves W3C Bitstring Status Lists from PostgreSQL database, signed with the
+ * registry's receipt signing key (services/status-list-credential.ts).
  * These lists persist across server restarts.
  * 
  * Spec: https://www.w3.org/TR/vc-bitstring-status-list/
  */
 
+/**
+ * Requested credential format: ?format=vc-jwt|vc-di, else Accept: application/vc+jwt
+ */
+function requestedFormat(req: Request): StatusListCredentialFormat | null {
+  const format = req.query.format;
+  if (format === 'vc-jwt' || format === 'vc-di') return format;
+  if (format !== undefined) return null;
+  return (req.headers.accept || '').includes(VC_JWT_MEDIA_TYPE) ? 'vc-jwt' : 'vc-di';
+}
+
 export function registerStatusListRoutes(app: Express) {
   /**
    * GET /status/lists/:purpose/:listId
    * 
    * Serves a W3C Bitstring Status List from the database.
    * 
-   * - purpose: 'revocation' | 'suspension'
+   * - purpose: 'revocation' | 'suspension' | 'message' (multi-bit, statusSize > 1)
    * - listId: Identifier for the list (e.g., 'demo-001')
+   * - format (query): 'vc-di' (default) or 'vc-jwt'; Accept: application/vc+jwt also selects VC-JWT
    * 
    * Returns:
-   * - 200: W3C BitstringStatusListCredential (JSON)
+   * - 200: Signed W3C BitstringStatusListCredential (JSON with DataIntegrityProof, or application/vc+jwt)
    * - 404: Status list not found
    * - 304: Not modified (if ETag matches If-None-Match header)
+   * - 503: No signing key available (lists are never served unsigned)
    */
   app.get('/status/lists/:purpose/:listId', async (req: Request, res: Response) => {
     try {
       const { purpose, listId } = req.params;
       
       // Validate purpose
-      if (purpose !== 'revocation' && purpose !== 'suspension') {
+      if (purpose !== 'revocation' && purpose !== 'suspension' && purpose !== 'message') {
         return res.status(400).json({
           error: 'invalid_purpose',
-          message: 'Purpose must be either "revocation" or "suspension"',
+          message: 'Purpose must be "revocation", "suspension" or "message"',
+        });
+      }
+
+      const format = requestedFormat(req);
+      if (!format) {
+        return res.status(400).json({
+          error: 'invalid_format',
+          message: 'Format must be either "vc-di" or "vc-jwt"',
         });
       }
 
@@ -40,8 +69,10 @@ export function registerStatusListRoutes(app: Express) {
       const baseUrl = process.env.BASE_URL || `http://localhost:${process.env.PORT || 5000}`;
       const statusListUrl = `${baseUrl}/status/lists/${purpose}/${listId}`;
 
-      // Ensure the list exists (creates if not)
-      await ensureList(statusListUrl, purpose as 'revocation' | 'suspension');
+      // Ensure the list exists (creates if not); message lists are only opened by the allocator
+      if (purpose !== 'message') {
+        await ensureList(statusListUrl, purpose);
+      }
 
       // Get compressed bitstring from database
       const result = await getCompressedBitstring(statusListUrl);
@@ -59,24 +90,34 @@ export function registerStatusListRoutes(app: Express) {
         return res.status(304).end();
       }
 
-      // Set caching headers
+      const signer = await getReceiptSigner(signingAlgorithmFor());
+      if (!signer) {
+        return res.status(503).json({
+          error: 'signer_unavailable',
+          message: 'No status list signing key available',
+        });
+      }
+
+      const credential = statusListCredential({
+        url: statusListUrl,
+        purpose,
+        encodedList: result.bitstring, // Already base64-encoded gzipped data
+        statusSize: result.statusSize,
+        statusMessages: result.statusMessages ?? undefined,
+      });
+      const signed = await signStatusListCredential(signer, credential, format);
+
+      // Set caching headers (the ETag tracks list content, not the signature)
       if (result.etag) {
         res.setHeader('ETag', result.etag);
       }
       res.setHeader('Cache-Control', 'no-store'); // Don't cache (status may change)
+      res.setHeader('Vary', 'Accept');
 
-      // Return W3C Bitstring Status List format
-      return res.json({
-        "@context": ["https://www.w3.org/ns/credentials/v2"],
-        id: statusListUrl,
-        type: "BitstringStatusListCredential",
-        credentialSubject: {
-          id: `${statusListUrl}#list`,
-          type: "BitstringStatusList",
-          encodedList: result.bitstring, // Already base64-encoded gzipped data
-          statusPurpose: purpose,
-        },
-      });
+      if (typeof signed === 'string') {
+        return res.type(VC_JWT_MEDIA_TYPE).send(signed);
+      }
+      return res.json(signed);
 
     } catch (error: any) {
       console.error('[status-list] Error serving status list:', error);
@@ -3,12 +3,15 @@ import { z } from "zod";
 import { db } from "./db.js";
 import { proofAssets, assetUsage } from "../shared/schema.js";
 import { eq, sql } from "drizzle-orm";
-import { SignJWT, exportJWK } from "jose";
+import { getReceiptSigner, signJwt } from "./services/signers/index.js";
+import { signingAlgorithmFor } from "./services/receipt-alg-policy.js";
 
 /**
  * Asset usage tracking and usage receipts
  * 
  * Records each usage event and issues signed usage receipt.
+ * Usage receipts are signed by the receipt signer (services/signers), so they
+ * carry a kid published in /.well-known/jwks.json and survive restarts.
  * Can enforce license limits (future enhancement).
  */
 
@@ -17,33 +20,17 @@ const UsageRequest = z.object({
   nonce: z.string().optional(),
 });
 
-// Dev-only usage receipt signer (reuse bootstrap keys or generate ephemeral)
-let usageSigningKey: any = null;
-
-async function initUsageSigningKey() {
-  if (usageSigningKey) return;
-
-  // For Phase 2 demo: use ephemeral key
-  // Phase 3 could integrate with receipt key rotation system
-  const { generateKeyPair } = await import("jose");
-  const { privateKey } = await generateKeyPair("ES256");
-  usageSigningKey = privateKey;
-  console.log("[usage-receipts] Generated ephemeral usage signing key");
-}
-
 /**
  * Sign usage receipt as JWS
  */
-async function signUsageReceipt(payload: any): Promise<string> {
-  await initUsageSigningKey();
-
-  const jwt = await new SignJWT(payload)
-    .setProtectedHeader({ alg: "ES256", typ: "JWT" })
-    .setIssuedAt()
-    .setExpirationTime("1h")
-    .sign(usageSigningKey);
-
-  return jwt;
+async function signUsageReceipt(payload: any, partnerId: string | null): Promise<string> {
+  const signer = await getReceiptSigner(signingAlgorithmFor({ audience: payload.aud, partnerId }));
+  if (!signer) {
+    throw new Error("No receipt signing key available");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt(signer, { ...payload, iat: now, exp: now + 3600 }, { typ: "JWT" });
 }
 
 export function registerUsageRoutes(app: Express) {
@@ -101,7 +88,7 @@ export function registerUsageRoutes(app: Express) {
         nonce: body.nonce,
       };
 
-      const usageReceipt = await signUsageReceipt(receiptPayload);
+      const usageReceipt = await signUsageReceipt(receiptPayload, asset.partnerId);
 
       // Create audit event
       const { auditEvents } = await import("../shared/schema.js");
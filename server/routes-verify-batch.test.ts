@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import { registerVerifyBatchRoutes } from "./routes-verify-batch.js";
+
+/**
+ * Route tests for batch verification rate limiting.
+ *
+ * storage.ts, receipt issuance and API key lookup are replaced with in-memory
+ * fakes (they import db.ts, which requires DATABASE_URL).
+ */
+
+vi.mock("./storage.js", () => ({
+  storage: {
+    getProofAsset: async () => undefined,
+    createAuditEvent: async (event: unknown) => event,
+  },
+}));
+
+vi.mock("./services/receipt-issuance.js", () => ({
+  REGISTRY_RECEIPT_AUDIENCE: "myproof-registry",
+  isAudienceIssued: async () => false,
+}));
+
+vi.mock("./services/apiKeys.js", () => ({
+  validateApiKeyHeader: async (header?: string) => ({ ok: true, keyId: header, partnerId: "partner-a", scopes: [] }),
+}));
+
+function createTestApp() {
+  const app = express();
+  app.use(express.json());
+  registerVerifyBatchRoutes(app);
+  return app;
+}
+
+function batch(key: string, items: unknown) {
+  return request(createTestApp()).post("/api/verify/batch").set("x-api-key", key).send({ items });
+}
+
+describe("POST /api/verify/batch rate limiting", () => {
+  it("charges a valid batch its item count", async () => {
+    const res = await batch("key-valid", [{ assetId: "a" }, { assetId: "b" }, { assetId: "c" }]);
+
+    expect(res.status).toBe(200);
+    expect(res.body.summary).toMatchObject({ total: 3, invalid: 3 });
+    expect(res.headers["x-ratelimit-remaining"]).toBe("57");
+  });
+
+  it("charges a batch rejected by validation once", async () => {
+    const oversized = await batch("key-invalid", Array(500).fill({ assetId: "a" }));
+    expect(oversized.status).toBe(400);
+    expect(oversized.headers["x-ratelimit-remaining"]).toBe("59");
+
+    const malformed = await batch("key-invalid", Array(40).fill({}));
+    expect(malformed.status).toBe(400);
+    expect(malformed.headers["x-ratelimit-remaining"]).toBe("58");
+  });
+});
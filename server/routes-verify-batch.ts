@@ -0,0 +1,242 @@
+import type { Express, Request, Response } from "express";
+import { createHash, randomUUID } from "node:crypto";
+import { z } from "zod";
+import { storage } from "./storage.js";
+import { normalizeUrl } from "./crypto-utils.js";
+import { jcs } from "./plugins/canonicalize.js";
+import { describeReceipt, verifyReceipt } from "./receipt-service.js";
+import {
+  fetchStatusList,
+  normalizeStatusListUrl,
+  verifyAssetStatus,
+  type StatusListResult,
+} from "./status-list-client.js";
+import type { StatusMessage } from "./services/status-messages.js";
+import { receiptAlgorithmsFor } from "./services/receipt-alg-policy.js";
+import { REGISTRY_RECEIPT_AUDIENCE, isAudienceIssued } from "./services/receipt-issuance.js";
+import { apiKeyAuth } from "./middleware/apiKey.js";
+import { perKeyRateLimitBy } from "./middleware/rateLimit.js";
+import { badRequest, internalError } from "./utils/errors.js";
+
+/**
+ * Batch receipt verification
+ *
+ * POST /api/verify/batch re-verifies up to VERIFY_BATCH_MAX_ITEMS (default 50)
+ * assets in one call, with the same receipt checks as
+ * POST /api/proof-assets/:id/verify (receipt path only):
+ *
+ * - items run in parallel; each distinct status list is fetched once per batch
+ * - a failing item gets its own verdict - it never fails the batch
+ * - per-key rate limiting counts every item of a valid batch; a batch that
+ *   fails validation counts once
+ * - one BATCH_VERIFY audit event per batch, holding a SHA-256 hash of each item
+ */
+
+const MAX_ITEMS = parseInt(process.env.VERIFY_BATCH_MAX_ITEMS || "50", 10);
+
+const BatchItem = z.object({
+  assetId: z.string().min(1).optional(),   // Verify the stored receipt (or the presented one's asset)
+  receipt: z.string().min(1).optional(),   // Presented receipt; asset taken from its sub when assetId is absent
+  nonce: z.string().min(1).optional(),
+}).refine((item) => item.assetId || item.receipt, { message: "Each item needs an assetId or a receipt" });
+
+const BatchVerifyRequest = z.object({
+  items: z.array(BatchItem).min(1).max(MAX_ITEMS, `At most ${MAX_ITEMS} items per batch`),
+});
+
+type BatchVerdict = "valid" | "revoked" | "suspended" | "invalid" | "unknown";
+
+interface BatchItemResult {
+  index: number;
+  itemHash: string;
+  assetId: string | null;
+  verdict: BatchVerdict;
+  code?: string;
+  reason?: string;
+  profile?: string;
+  replayMode?: string;
+  jtiConsumed?: boolean;
+  statusMessage?: StatusMessage | null;
+}
+
+type StatusListLoader = (url: string) => Promise<StatusListResult>;
+
+/**
+ * Re-verify one batch item (receipt, commitments, status reference, status list)
+ */
+async function verifyItem(
+  item: z.infer<typeof BatchItem>,
+  statusListFor: StatusListLoader
+): Promise<Omit<BatchItemResult, "index" | "itemHash">> {
+  const invalid = (assetId: string | null, code: string, reason?: string) =>
+    ({ assetId, verdict: "invalid" as const, code, reason });
+
+  let presented: ReturnType<typeof describeReceipt> | undefined;
+  if (item.receipt) {
+    try {
+      presented = describeReceipt(item.receipt);
+    } catch (error: any) {
+      return invalid(item.assetId || null, "RECEIPT_INVALID", error.message);
+    }
+  }
+
+  const assetId = item.assetId || presented?.subject;
+  if (!assetId) {
+    return invalid(null, "ASSET_ID_REQUIRED", "Receipt has no subject - pass assetId");
+  }
+  const proof = await storage.getProofAsset(assetId);
+  if (!proof) {
+    return invalid(assetId, "ASSET_NOT_FOUND");
+  }
+
+  const receipt = item.receipt || proof.verifierProofRef;
+  if (!receipt) {
+    return invalid(assetId, "NO_RECEIPT", "No verification receipt available");
+  }
+
+  // Presented receipts may carry any audience the asset has been issued to
+  let audience = REGISTRY_RECEIPT_AUDIENCE;
+  if (presented) {
+    if (!presented.audience || !(await isAudienceIssued(proof.proofAssetId, presented.audience))) {
+      return invalid(assetId, "RECEIPT_AUDIENCE_NOT_ISSUED");
+    }
+    audience = presented.audience;
+  }
+
+  const verification = await verifyReceipt(receipt, {
+    expectedAudience: audience,
+    expectedNonce: presented ? item.nonce : undefined,
+    allowedAlgorithms: receiptAlgorithmsFor({ audience, partnerId: proof.partnerId }),
+    defaultReplayMode: presented ? "one-time" : "bearer-reusable",
+  });
+  if (!verification.ok || !verification.claims) {
+    return invalid(assetId, verification.code || "RECEIPT_INVALID", verification.reason);
+  }
+  const receiptInfo = {
+    profile: verification.profile,
+    replayMode: verification.replayMode,
+    jtiConsumed: verification.jtiConsumed,
+  };
+
+  // Commitments and status reference must match the asset (prevent substitution)
+  const claims = verification.claims;
+  if (claims.proof_digest !== proof.proofDigest) {
+    return { ...invalid(assetId, "DIGEST_MISMATCH"), ...receiptInfo };
+  }
+  if (claims.policy_hash !== proof.policyHash) {
+    return { ...invalid(assetId, "POLICY_MISMATCH"), ...receiptInfo };
+  }
+  if (claims.constraint_hash !== proof.constraintHash) {
+    return { ...invalid(assetId, "CONSTRAINT_MISMATCH"), ...receiptInfo };
+  }
+  try {
+    if (normalizeUrl(claims.status_ref.statusListUrl) !== normalizeUrl(proof.statusListUrl) ||
+      claims.status_ref.statusListIndex !== proof.statusListIndex ||
+      claims.status_ref.statusPurpose !== proof.statusPurpose) {
+      return { ...invalid(assetId, "STATUS_REF_MISMATCH"), ...receiptInfo };
+    }
+  } catch (error: any) {
+    return { ...invalid(assetId, "INVALID_STATUS_URL", error.message), ...receiptInfo };
+  }
+
+  // Revocation, suspension and message lists shared across the batch (fail closed per item)
+  const statusCheck = await verifyAssetStatus(proof, statusListFor);
+  if (statusCheck.verdict === "unknown") {
+    return { assetId, verdict: "unknown", code: "STATUS_UNAVAILABLE", reason: statusCheck.reason, ...receiptInfo };
+  }
+  const verdict: BatchVerdict = statusCheck.verdict;
+
+  await storage.updateProofAsset(proof.proofAssetId, {
+    verificationStatus: verdict === "valid" ? "verified" : verdict,
+    verificationTimestamp: new Date(),
+  });
+
+  return { assetId, verdict, statusMessage: statusCheck.statusMessage, ...receiptInfo };
+}
+
+export function registerVerifyBatchRoutes(app: Express) {
+  // Charged before the handler runs, so only a batch that passes validation
+  // costs its item count (the handler rejects the rest with 400)
+  const itemCount = (req: Request) => {
+    const parsed = BatchVerifyRequest.safeParse(req.body || {});
+    return parsed.success ? parsed.data.items.length : 1;
+  };
+
+  /**
+   * POST /api/verify/batch
+   *
+   * Body: { items: [{ assetId?, receipt?, nonce? }] }
+   * Returns per-item verdicts (valid, revoked, suspended, invalid, unknown)
+   * and a summary. Counts the items of a valid batch against the per-key rate
+   * limit (a rejected batch counts once).
+   */
+  app.post("/api/verify/batch", apiKeyAuth, perKeyRateLimitBy(itemCount), async (req: Request, res: Response) => {
+    try {
+      const body = BatchVerifyRequest.parse(req.body || {});
+
+      const statusLists = new Map<string, Promise<StatusListResult>>();
+      const statusListFor: StatusListLoader = (url) => {
+        const key = normalizeStatusListUrl(url);
+        let list = statusLists.get(key);
+        if (!list) {
+          list = fetchStatusList(url);
+          statusLists.set(key, list);
+        }
+        return list;
+      };
+
+      const items: BatchItemResult[] = await Promise.all(body.items.map(async (item, index) => {
+        const itemHash = createHash("sha256").update(jcs(item)).digest("hex");
+        try {
+          return { index, itemHash, ...(await verifyItem(item, statusListFor)) };
+        } catch (error: any) {
+          return { index, itemHash, assetId: item.assetId || null, verdict: "unknown" as const, code: "VERIFICATION_ERROR", reason: error.message };
+        }
+      }));
+
+      const summary = {
+        total: items.length,
+        valid: 0,
+        revoked: 0,
+        suspended: 0,
+        invalid: 0,
+        unknown: 0,
+        statusListsFetched: statusLists.size,
+      };
+      for (const item of items) {
+        summary[item.verdict]++;
+      }
+
+      const batchId = randomUUID();
+      await storage.createAuditEvent({
+        eventType: "BATCH_VERIFY",
+        assetId: null,
+        payload: {
+          batch_id: batchId,
+          item_count: items.length,
+          summary,
+          items: items.map((item) => ({
+            item_hash: item.itemHash,
+            asset_id: item.assetId,
+            verdict: item.verdict,
+            code: item.code,
+          })),
+        },
+        traceId: batchId,
+      });
+
+      res.json({
+        ok: true,
+        batchId,
+        verifiedAt: new Date().toISOString(),
+        summary,
+        items,
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return badRequest(req, res, "Validation error", "VALIDATION_FAILED", error.errors[0]?.message);
+      }
+      return internalError(req, res, error.message);
+    }
+  });
+}
@@ -1,13 +1,25 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage.js";
-import { insertProofAssetSchema, updateStatusListSchema } from "../shared/schema.js";
+import { insertProofAssetSchema, updateStatusListSchema, type ReceiptIssuance } from "../shared/schema.js";
 import { z } from "zod";
 import { generateProofCommitment, generateCID, normalizeUrl, validateDigestEncoding } from "./crypto-utils.js";
 import { verifyProof } from "./proof-verification.js";
-import { generateReceipt, generateTestKeypair } from "./receipt-service.js";
+import { describeReceipt, generateReceipt } from "./receipt-service.js";
+import { getReceiptSigner, initReceiptSigner } from "./services/signers/index.js";
+import { receiptAlgorithmsFor, signingAlgorithmFor } from "./services/receipt-alg-policy.js";
+import {
+  REGISTRY_RECEIPT_AUDIENCE,
+  isAudienceIssued,
+  receiptIssuanceTtl,
+  recordReceiptIssuance,
+} from "./services/receipt-issuance.js";
+import { logIssuedReceipt, type ReceiptLogEntry } from "./services/receipt-transparency.js";
+import { RECEIPT_PROFILES } from "./services/vc-receipt.js";
 import { notFound, conflict, internalError, badRequest, sendError } from "./utils/errors.js";
 import { apiKeyAuth, verifyBodySignature, requireScopes } from "./middleware/apiKey.js";
+import { perKeyRateLimit } from "./middleware/rateLimit.js";
+import { statusMessageFor, type StatusMessage } from "./services/status-messages.js";
 
 // ═══════════════════════════════════════════════════════════════════════
 // PROOF ASSET LIFECYCLE — Three-Layer Model
@@ -34,82 +46,20 @@ import { apiKeyAuth, verifyBodySignature, requireScopes } from "./middleware/api
 //
 // ═══════════════════════════════════════════════════════════════════════
 
-// Generate signing keypair for receipts (in production, use KMS/HSM)
-let receiptSigningKey: JsonWebKey | null = null;
-let receiptPublicKey: JsonWebKey | null = null;
+// Receipt signing keys live in the keyring (services/receipt-keys.ts);
+// RECEIPT_SIGNER selects a local, PKCS#11 or remote signer (services/signers)
+initReceiptSigner().catch(console.error);
 
-// Export getter for demo routes
-export function getReceiptSigningKey(): JsonWebKey | null {
-  return receiptSigningKey;
-}
-
-async function initReceiptKeys() {
-  // Try to load keypair from environment (for persistence across restarts)
-  const privateKeyEnv = process.env.RECEIPT_VERIFIER_PRIVATE_JWK;
-  const publicKeyEnv = process.env.RECEIPT_VERIFIER_PUBLIC_JWK;
-
-  if (privateKeyEnv && publicKeyEnv) {
-    try {
-      receiptSigningKey = JSON.parse(privateKeyEnv);
-      receiptPublicKey = JSON.parse(publicKeyEnv);
-      const kid = (receiptPublicKey as any).kid || 'unknown';
-      console.log(`[receipt-keys] ✓ Loaded receipt verifier keys from environment (kid: ${kid})`);
-      return;
-    } catch (error) {
-      console.error("[receipt-keys] Failed to parse receipt keys from environment, generating new ones");
-    }
-  }
-
-  // Only in development mode
-  if (process.env.NODE_ENV === 'production') {
-    throw new Error(
-      "[receipt-keys] PRODUCTION ERROR: Receipt verifier keys not configured. " +
-      "Set RECEIPT_VERIFIER_PUBLIC_JWK and RECEIPT_VERIFIER_PRIVATE_JWK environment variables. " +
-      "In production, use KMS/HSM for key management."
-    );
-  }
-
-  // Generate new keypair for development only
-  console.warn("[receipt-keys] ⚠️  DEVELOPMENT MODE: Generating ephemeral receipt keys");
-  const { privateKey, publicKey } = await generateTestKeypair();
-  receiptSigningKey = privateKey;
-  receiptPublicKey = publicKey;
-
-  const kid = (publicKey as any).kid || 'unknown';
-  console.log(`[receipt-keys] Generated new keypair (kid: ${kid})`);
-  console.log("[receipt-keys] ⚠️  To persist keys across restarts, set these environment variables:");
-  console.log("[receipt-keys] Public JWKS (safe to share):");
-  console.log(`RECEIPT_VERIFIER_PUBLIC_JWK='${JSON.stringify(publicKey)}'`);
-  console.log("[receipt-keys] ⚠️  PRIVATE KEY - Keep secret, never commit to version control:");
-  console.log(`RECEIPT_VERIFIER_PRIVATE_JWK='<redacted in logs - check startup console>'`);
-
-  // Only show private key on first generation, not in logs
-  if (process.stdout.isTTY) {
-    console.log("\n[receipt-keys] Private JWK (display once, save securely):");
-    console.log(JSON.stringify(privateKey, null, 2));
-  }
-}
+// Receipt format: plain JWT, VC-JWT or VC with a Data Integrity proof (services/vc-receipt.ts)
+const ReceiptProfileSchema = z.enum(RECEIPT_PROFILES);
 
-// Initialize keys on startup
-initReceiptKeys().catch(console.error);
-
-// Status list allocation — sequential, collision-safe
-// Uses COUNT(*) on existing proof assets for this status list to determine next index.
-// Retries with +1 on collision (concurrent mints).
-async function allocateStatusRef(purpose: string): Promise<{ statusListUrl: string; statusListIndex: string; statusPurpose: string }> {
-  const baseUrl = process.env.STATUS_BASE_URL || "https://registry.myproof.ai/status";
-  const statusListUrl = `${baseUrl}/${purpose}/default`;
-
-  // Count existing allocations for this list to get next sequential index
-  const existingCount = await storage.getProofAssetCountByStatusList(statusListUrl);
-  const nextIndex = existingCount; // 0-based: first mint gets index 0
-
-  return {
-    statusListUrl,
-    statusListIndex: String(nextIndex),
-    statusPurpose: purpose,
-  };
-}
+// Relying-party receipt request (POST /api/proof-assets/:id/receipts)
+const ReceiptIssuanceRequest = z.object({
+  audience: z.string().min(1).max(512),
+  nonce: z.string().min(1).max(256),
+  ttlSeconds: z.number().int().positive().optional(),
+  profile: ReceiptProfileSchema.optional(),
+});
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Phase 2E: API Versioning — /api/v1/* → /api/* URL rewrite
@@ -121,39 +71,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     (app as any).handle(req, res, next);
   });
 
-  // Phase 2G: Per-API-key rate limiting on mutation endpoints
-  const rateLimitStore = new Map<string, { count: number; resetAt: number }>();
-  const PER_KEY_LIMIT = 60;   // 60 req/min per API key
-  const GLOBAL_LIMIT = 10;    // 10 req/min for unauthenticated
-  const WINDOW_MS = 60_000;   // 1 minute
-
-  function perKeyRateLimit(req: any, res: any, next: any) {
-    const key = req.auth?.keyId || req.ip || 'anonymous';
-    const limit = req.auth ? PER_KEY_LIMIT : GLOBAL_LIMIT;
-    const now = Date.now();
-
-    let entry = rateLimitStore.get(key);
-    if (!entry || now > entry.resetAt) {
-      entry = { count: 0, resetAt: now + WINDOW_MS };
-      rateLimitStore.set(key, entry);
-    }
-
-    entry.count++;
-    res.setHeader('X-RateLimit-Limit', limit);
-    res.setHeader('X-RateLimit-Remaining', Math.max(0, limit - entry.count));
-    res.setHeader('X-RateLimit-Reset', Math.ceil(entry.resetAt / 1000));
-
-    if (entry.count > limit) {
-      return res.status(429).json({
-        error: 'rate_limited',
-        detail: `Rate limit exceeded: ${limit} req/min`,
-        retry_after: Math.ceil((entry.resetAt - now) / 1000),
-      });
-    }
-
-    return next();
-  }
-
   // Health check
   app.get("/api/health", async (_req, res) => {
     const health = await storage.getSystemHealth();
@@ -241,6 +158,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Determine verification path: receipt-based (fast) or fresh-proof (slow)
       const requireFresh = Boolean(req.body.requireFreshProof);
       let claims: any = null;
+      let receiptAudience = REGISTRY_RECEIPT_AUDIENCE;
+      let receiptProfile: string | undefined;
+      let receiptReplay: { replayMode?: string; jtiConsumed?: boolean } = {};
 
       // If requireFreshProof is true, skip receipt validation and go straight to fresh-proof
       if (requireFresh) {
@@ -258,8 +178,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           },
         };
       } else {
-        // Fast path: receipt-based verification
-        if (!proof.verifierProofRef) {
+        // Fast path: receipt-based verification (stored receipt, or one issued to a relying party)
+        const presentedReceipt = typeof req.body.receipt === "string" ? req.body.receipt : null;
+        const receipt = presentedReceipt || proof.verifierProofRef;
+        if (!receipt) {
           console.log('[verify] ❌ No receipt available for fast-path verification');
           return badRequest(
             req,
@@ -273,9 +195,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log('[verify] Step 1: Verifying receipt signature (fast path)...');
         const { verifyReceipt } = await import("./receipt-service.js");
 
-        const receiptVerification = await verifyReceipt(proof.verifierProofRef, {
-          publicKey: receiptPublicKey!,
-          expectedAudience: "myproof-registry",
+        // Presented receipts may carry any audience the asset has been issued to
+        if (presentedReceipt) {
+          let presentedAudience: unknown;
+          try {
+            presentedAudience = describeReceipt(presentedReceipt).audience;
+          } catch (error: any) {
+            return badRequest(req, res, "Receipt verification failed", "RECEIPT_INVALID", error.message);
+          }
+          if (typeof presentedAudience !== "string" || !(await isAudienceIssued(proof.proofAssetId, presentedAudience))) {
+            console.log('[verify] ❌ Receipt audience was never issued for this asset');
+            return badRequest(req, res, "Receipt audience not issued for this asset", "RECEIPT_AUDIENCE_NOT_ISSUED");
+          }
+          receiptAudience = presentedAudience;
+        }
+
+        // Key selected by the receipt's kid from the keyring (survives rotation);
+        // algorithm allow-list from RECEIPT_ALG_POLICY for the audience/partner
+        const receiptVerification = await verifyReceipt(receipt, {
+          expectedAudience: receiptAudience,
+          expectedNonce: presentedReceipt && typeof req.body.nonce === "string" ? req.body.nonce : undefined,
+          allowedAlgorithms: receiptAlgorithmsFor({ audience: receiptAudience, partnerId: proof.partnerId }),
+          // Receipts stored before replay modes are the registry's own bearer receipts
+          defaultReplayMode: presentedReceipt ? "one-time" : "bearer-reusable",
         });
 
         if (!receiptVerification.ok || !receiptVerification.claims) {
@@ -284,13 +226,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
             req,
             res,
             "Receipt verification failed",
-            "RECEIPT_INVALID",
+            receiptVerification.code || "RECEIPT_INVALID",
             receiptVerification.reason
           );
         }
 
         console.log('[verify] ✓ Receipt signature valid');
         claims = receiptVerification.claims;
+        receiptProfile = receiptVerification.profile;
+        receiptReplay = { replayMode: receiptVerification.replayMode, jtiConsumed: receiptVerification.jtiConsumed };
       }
 
       // Validate commitments match (prevent substitution attacks) - skip if fresh-proof only
@@ -347,17 +291,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Check W3C Status List with fail-closed security model
       console.log('[verify] Step 4: Checking W3C Status List...');
-      const { verifyProofStatus } = await import("./status-list-client.js");
+      const { verifyAssetStatus } = await import("./status-list-client.js");
 
       let statusVerdict: string;
       let statusCheckReason: string | undefined;
 
-      // Always check current status from W3C Status List (fail-closed)
-      const statusCheck = await verifyProofStatus(
-        proof.statusListUrl,
-        proof.statusListIndex,
-        proof.statusPurpose as 'revocation' | 'suspension'
-      );
+      // Always check current status from W3C Status List (fail-closed):
+      // revocation entry first, then the suspension entry, then the status message
+      const statusCheck = await verifyAssetStatus(proof);
 
       if (statusCheck.verdict === 'unknown') {
         // Fail closed: status list unreachable or stale
@@ -376,6 +317,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         verdict: statusCheck.verdict,
         reason: statusCheck.reason,
         statusListIndex: proof.statusListIndex,
+        suspensionChecked: statusCheck.suspensionChecked,
+        statusMessage: statusCheck.statusMessage?.message,
       });
 
       statusVerdict = statusCheck.verdict === 'valid' ? 'verified' : statusCheck.verdict;
@@ -419,7 +362,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         // Verify fresh proof by format
         console.log('[verify] Executing fresh-proof verification for format:', proof.proofFormat);
-        const verifyResult = await verifyFreshProof(proof.proofFormat, proofBytes);
+        const verifyResult = await verifyFreshProof(proof.proofFormat, proofBytes, {
+          circuitOrSchemaId: proof.circuitOrSchemaId,
+          circuitCid: proof.circuitCid,
+          issuerDid: proof.issuerDid,
+          verificationMetadata: proof.verificationMetadata,
+          verificationPublicKeyDigest: proof.verificationPublicKeyDigest,
+        }, {
+          nonce: typeof req.body.kb_nonce === "string" ? req.body.kb_nonce : undefined,
+          audience: typeof req.body.kb_audience === "string" ? req.body.kb_audience : undefined,
+        });
 
         if (!verifyResult.ok) {
           console.log('[verify] ❌ Fresh proof verification failed:', verifyResult.reason);
@@ -454,6 +406,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           old_status: proof.verificationStatus,
           new_status: statusVerdict,
           verification_method: requireFresh ? "fresh_proof" : "receipt_based",
+          receipt_audience: requireFresh ? undefined : receiptAudience,
+          receipt_profile: receiptProfile,
+          receipt_replay_mode: receiptReplay.replayMode,
           receipt_verified: true,
           commitments_matched: true,
           fresh_proof_verified: requireFresh,
@@ -485,8 +440,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         verificationResult: {
           ok: true,
           receiptVerified: true,
+          replayMode: receiptReplay.replayMode,
+          jtiConsumed: receiptReplay.jtiConsumed,
           commitmentsMatched: true,
           statusChecked: true,
+          suspensionChecked: statusCheck.suspensionChecked,
+          statusMessage: statusCheck.statusMessage,
           freshProofVerified: requireFresh,
           freshProofMetadata: freshProofResult?.metadata,
           claims: {
@@ -504,12 +463,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Issue a short-lived receipt bound to a relying party's audience and nonce
+  app.post("/api/proof-assets/:id/receipts", apiKeyAuth, requireScopes(['receipts:issue']), perKeyRateLimit, async (req, res) => {
+    try {
+      const body = ReceiptIssuanceRequest.parse(req.body || {});
+
+      const proof = await storage.getProofAsset(req.params.id);
+      if (!proof) {
+        return notFound(req, res, "Proof asset not found", "ASSET_NOT_FOUND");
+      }
+      // Issued audiences are accepted on re-verification, so only the owning
+      // partner (or an admin) may add one
+      const isAdmin = req.auth?.scopes.includes('admin:*');
+      if (!isAdmin && (!proof.partnerId || proof.partnerId !== req.auth?.partnerId)) {
+        return sendError(req, res, 403, "Asset is not owned by this partner", "FORBIDDEN");
+      }
+
+      // Live status check (fail closed) - never vouch for a revoked/suspended asset:
+      // revocation entry first, then the suspension entry
+      const { verifyAssetStatus } = await import("./status-list-client.js");
+      const statusCheck = await verifyAssetStatus(proof);
+      if (statusCheck.verdict === 'unknown') {
+        return sendError(req, res, 503, "Status verification unavailable - failing closed for security", "STATUS_UNAVAILABLE", statusCheck.reason);
+      }
+      if (statusCheck.verdict !== 'valid') {
+        return conflict(req, res, "Proof asset is not valid", "ASSET_NOT_VALID", statusCheck.verdict);
+      }
+
+      const signer = await getReceiptSigner(signingAlgorithmFor({ audience: body.audience, partnerId: proof.partnerId }));
+      if (!signer) {
+        return sendError(req, res, 503, "Receipt signing unavailable", "RECEIPT_SIGNER_UNAVAILABLE");
+      }
+
+      let issuance: ReceiptIssuance | undefined;
+      const receipt = await generateReceipt(signer, {
+        proofDigest: proof.proofDigest,
+        policyHash: proof.policyHash,
+        constraintHash: proof.constraintHash,
+        statusRef: {
+          statusListUrl: proof.statusListUrl,
+          statusListIndex: proof.statusListIndex,
+          statusPurpose: proof.statusPurpose as "revocation" | "suspension",
+        },
+        audience: body.audience,
+        subject: proof.proofAssetId,
+        nonce: body.nonce,
+        replayMode: "one-time",
+        issuer: "did:example:verifier",
+        expiresInSeconds: receiptIssuanceTtl(body.ttlSeconds),
+        profile: body.profile,
+        // Record the issuance before the RECEIPT_ISSUED audit event, so the log
+        // never holds a receipt the registry has no issuance row for.
+        // partnerId is the requesting partner: the asset owner, or an admin's partner
+        recordIssuance: async (entry) => {
+          issuance = await recordReceiptIssuance({
+            assetId: proof.proofAssetId,
+            partnerId: req.auth?.partnerId || null,
+            audience: body.audience,
+            nonce: body.nonce,
+            jti: entry.jti,
+            kid: entry.kid,
+            alg: entry.alg,
+            expiresAt: new Date(entry.expiresAt * 1000),
+          });
+          await logIssuedReceipt(entry);
+        },
+      });
+      const issued = describeReceipt(receipt);
+
+      res.status(201).json({
+        ok: true,
+        receipt,
+        issuanceId: issuance!.issuanceId,
+        audience: issuance!.audience,
+        kid: issuance!.kid,
+        alg: issuance!.alg,
+        profile: issued.profile,
+        expiresAt: issuance!.expiresAt.toISOString(),
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return badRequest(req, res, "Validation error", "VALIDATION_FAILED", error.errors[0]?.message);
+      }
+      return internalError(req, res, error.message);
+    }
+  });
+
   // Create new proof asset (REQUIRES API KEY + SCOPE + BODY SIGNATURE + RATE LIMIT)
   // GAP 10: requireScopes(['assets:mint']) enforces least-privilege
   app.post("/api/proof-assets", apiKeyAuth, requireScopes(['assets:mint']), verifyBodySignature, perKeyRateLimit, async (req, res) => {
     try {
       // Validate request body
       const body = insertProofAssetSchema.parse(req.body);
+      const receiptProfile = ReceiptProfileSchema.optional().parse(req.body.receiptProfile);
 
       // Validate digest encoding based on algorithm
       const digestValidation = validateDigestEncoding(body.proofDigest, body.digestAlg);
@@ -541,10 +587,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Verify the proof with issuer context
       const verification = await verifyProof(body.verifier_proof_ref, {
         issuerDid: body.issuerDid,
+        circuitOrSchemaId: body.circuitOrSchemaId,
+        circuitCid: body.circuitCid,
       });
 
       if (!verification.ok) {
-        return badRequest(req, res, "Invalid proof", "PROOF_VERIFICATION_FAILED", verification.reason || "Proof verification failed");
+        return badRequest(req, res, "Invalid proof", verification.code || "PROOF_VERIFICATION_FAILED", verification.reason || "Proof verification failed");
       }
 
       // Generate commitment using RFC 8785 JCS + CIDv1
@@ -560,47 +608,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       const proofAssetCommitment = await generateProofCommitment(commitmentData);
 
-      // Allocate status list reference (sequential — await required)
-      const statusRef = await allocateStatusRef("revocation");
-
-      // Create status list if it doesn't exist
-      let statusList = await storage.getStatusList(statusRef.statusListUrl);
-      if (!statusList) {
-        statusList = await storage.createStatusList({
-          purpose: "revocation",
-          url: statusRef.statusListUrl,
-          bitstring: Buffer.alloc(16384).toString('base64'), // 131072 bits, base64-encoded
-          size: 131072,
-          etag: `W/"${Date.now()}"`,
-        });
-      }
-
-      // Generate verification receipt (signed JWS binding proof digest + policy + constraints)
-      let verifierProofRef: string | undefined;
-      if (receiptSigningKey) {
-        try {
-          verifierProofRef = await generateReceipt(receiptSigningKey, {
-            proofDigest: body.proofDigest,
-            policyHash: body.policyHash,
-            constraintHash: body.constraintHash,
-            statusRef: {
-              statusListUrl: statusRef.statusListUrl,
-              statusListIndex: statusRef.statusListIndex,
-              statusPurpose: statusRef.statusPurpose as "revocation" | "suspension",
-            },
-            audience: "myproof-registry",
-            issuer: "did:example:verifier",
-            // Cryptographic validity ceiling (1 year). This bounds how long the
-            // signed receipt can be used for receipt-based re-verification. It is
-            // NOT a freshness indicator — relying parties use the advisory TTL
-            // metadata (ttlSeconds, expiresAt) for freshness decisions.
-            expiresInSeconds: 31536000,
-          });
-        } catch (error: any) {
-          console.error("[receipt] Receipt generation failed:", error.message);
-        }
-      }
-
       // partnerId already extracted above (idempotency check)
 
       // Advisory freshness hints — NOT enforced by PAR. Relying parties decide
@@ -617,10 +624,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const ttlSeconds = FRESHNESS_HINT[policyChannel] || FRESHNESS_HINT['default'];
       // expiresAt computed by Postgres: created_at + ttl_seconds (one clock, zero drift)
 
+      // Random revocation, suspension and status message entries are allocated in
+      // the partition's open status lists (opening a new list when full) in the
+      // same transaction as the insert, so a failed insert releases them.
       // GAP 9: Wrap insert in 23505-safe try-catch for concurrent insert race condition
       let proof;
       try {
-        proof = await storage.createProofAsset({
+        proof = await storage.createProofAssetWithStatus({
           proofAssetCommitment,
           issuerDid: body.issuerDid,
           partnerId,
@@ -637,17 +647,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           circuitCid: body.circuitCid,
           schemaCid: body.schemaCid,
           license: body.license,
-          statusListUrl: statusRef.statusListUrl,
-          statusListIndex: statusRef.statusListIndex,
-          statusPurpose: statusRef.statusPurpose,
           verificationStatus: "verified",
           verificationAlgorithm: verification.algorithm,
           verificationPublicKeyDigest: verification.publicKeyDigest,
           verificationTimestamp: verification.verifiedAt ? new Date(verification.verifiedAt) : new Date(),
           verificationMetadata: verification.derivedFacts,
-          verifierProofRef,
           ttlSeconds,
-        });
+        }, { partnerId, policyHash: body.policyHash });
       } catch (insertErr: any) {
         // Postgres unique violation — concurrent insert won the race
         if (insertErr.code === '23505') {
@@ -663,6 +669,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
         throw insertErr;
       }
 
+      // Generate verification receipt (signed JWS binding proof digest + policy + constraints)
+      // for the stored asset, attach it and only then log its RECEIPT_ISSUED event.
+      // A missing receipt is reported in the response as _receiptError
+      let verifierProofRef: string | undefined;
+      let receiptLogEntry: ReceiptLogEntry | undefined;
+      let receiptError: { code: string; reason: string } | undefined;
+      const receiptSigner = await getReceiptSigner(
+        signingAlgorithmFor({ audience: REGISTRY_RECEIPT_AUDIENCE, partnerId })
+      );
+      if (!receiptSigner) {
+        receiptError = { code: "RECEIPT_SIGNER_UNAVAILABLE", reason: "No receipt signing key available" };
+      } else {
+        try {
+          verifierProofRef = await generateReceipt(receiptSigner, {
+            proofDigest: body.proofDigest,
+            policyHash: body.policyHash,
+            constraintHash: body.constraintHash,
+            statusRef: {
+              statusListUrl: proof.statusListUrl,
+              statusListIndex: proof.statusListIndex,
+              statusPurpose: "revocation",
+            },
+            audience: REGISTRY_RECEIPT_AUDIENCE,
+            subject: proof.proofAssetId,
+            issuer: "did:example:verifier",
+            profile: receiptProfile,
+            // Stored and re-verified repeatedly - never consumes its jti
+            replayMode: "bearer-reusable",
+            // Cryptographic validity ceiling (1 year). This bounds how long the
+            // signed receipt can be used for receipt-based re-verification. It is
+            // NOT a freshness indicator — relying parties use the advisory TTL
+            // metadata (ttlSeconds, expiresAt) for freshness decisions.
+            expiresInSeconds: 31536000,
+            recordIssuance: async (entry) => {
+              receiptLogEntry = entry;
+            },
+          });
+        } catch (error: any) {
+          console.error("[receipt] Receipt generation failed:", error.message);
+          receiptError = { code: "RECEIPT_SIGNING_FAILED", reason: error.message };
+        }
+      }
+
+      if (verifierProofRef) {
+        try {
+          proof = await storage.updateProofAsset(proof.proofAssetId, { verifierProofRef });
+        } catch (error: any) {
+          console.error("[receipt] Storing the receipt failed:", error.message);
+          receiptError = { code: "RECEIPT_NOT_STORED", reason: error.message };
+          verifierProofRef = undefined;
+          receiptLogEntry = undefined;
+        }
+      }
+
+      if (receiptLogEntry) {
+        try {
+          await logIssuedReceipt(receiptLogEntry);
+        } catch (error: any) {
+          console.error("[receipt] Receipt transparency log failed:", error.message);
+          receiptError = { code: "RECEIPT_NOT_LOGGED", reason: error.message };
+        }
+      }
+
       // Create audit event
       await storage.createAuditEvent({
         eventType: "MINT",
@@ -678,6 +747,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(201).json({
         ...proof,
         _receipt: verifierProofRef, // Include receipt in response for client
+        _receiptError: receiptError,
       });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
@@ -785,11 +855,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
         proof.statusPurpose
       );
 
+      // Suspension entry (assets minted before suspend / reinstate have none)
+      if (proof.suspensionListUrl && proof.suspensionListIndex) {
+        const suspensionList = await storage.getStatusList(proof.suspensionListUrl);
+        if (!suspensionList) {
+          return notFound(req, res, "Suspension status list not found", "STATUS_LIST_NOT_FOUND");
+        }
+        const suspension = getCredentialStatus(suspensionList.bitstring, parseInt(proof.suspensionListIndex), "suspension");
+        status.isSuspended = suspension.isSuspended;
+        status.isActive = status.isActive && !suspension.isSuspended;
+      }
+
+      // Status message entry (multi-bit; assets minted before message lists have none)
+      let statusMessage: StatusMessage | null = null;
+      if (proof.messageListUrl && proof.messageListIndex) {
+        const messageList = await storage.getStatusList(proof.messageListUrl);
+        if (!messageList) {
+          return notFound(req, res, "Message status list not found", "STATUS_LIST_NOT_FOUND");
+        }
+        const { decompressBitstring, readStatusEntry } = await import("./bitstring-utils.js");
+        const value = readStatusEntry(
+          decompressBitstring(Buffer.from(messageList.bitstring, 'base64')),
+          parseInt(proof.messageListIndex),
+          messageList.statusSize
+        );
+        statusMessage = statusMessageFor(value, (messageList.statusMessages as StatusMessage[] | null) || []) || null;
+      }
+
       res.json({
         proofAssetId: proof.proofAssetId,
         statusListUrl: proof.statusListUrl,
         statusListIndex: proof.statusListIndex,
+        suspensionListUrl: proof.suspensionListUrl,
+        suspensionListIndex: proof.suspensionListIndex,
+        messageListUrl: proof.messageListUrl,
+        messageListIndex: proof.messageListIndex,
         ...status,
+        statusMessage,
         checkedAt: new Date().toISOString(),
       });
     } catch (error: any) {
@@ -801,7 +903,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/status-lists", async (req, res) => {
     try {
       const lists = await storage.getStatusLists();
-      res.json(lists);
+      // The allocation seed would reveal which indexes are in use
+      res.json(lists.map(({ allocationSeed, ...list }) => list));
     } catch (error: any) {
       return internalError(req, res, error.message);
     }
@@ -816,6 +919,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!statusList) {
         return notFound(req, res, "Status list not found", "STATUS_LIST_NOT_FOUND");
       }
+      if (statusList.statusSize > 1) {
+        return badRequest(
+          req,
+          res,
+          "Multi-bit status list",
+          "MULTI_BIT_STATUS_LIST",
+          "Set status messages with POST /api/proof-assets/:id/status-message"
+        );
+      }
 
       // Optimistic concurrency control: check If-Match header
       const ifMatch = req.headers['if-match'];
@@ -829,13 +941,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         );
       }
 
-      // Decode base64 bitstring, apply operations using utilities, re-encode
-      const { applyOperations } = await import("./bitstring-utils.js");
-      const bitstring = Buffer.from(statusList.bitstring, 'base64');
+      // Decode base64 bitstring, apply operations using utilities, re-encode in the stored format
+      const { applyOperations, compressBitstring, decompressBitstring, isCompressedBitstring } = await import("./bitstring-utils.js");
+      const stored = Buffer.from(statusList.bitstring, 'base64');
+      const bitstring = decompressBitstring(stored);
       applyOperations(bitstring, body.operations);
 
       const etag = `W/"${Date.now()}"`;
-      await storage.updateStatusList(body.statusListUrl, bitstring.toString('base64'), etag);
+      const encoded = isCompressedBitstring(stored) ? compressBitstring(bitstring) : bitstring;
+      await storage.updateStatusList(body.statusListUrl, encoded.toString('base64'), etag);
 
       // Create audit event for status update
       await storage.createAuditEvent({
@@ -943,28 +1057,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Phase 2H: Key Compromise Recovery — Revoked Keys Discovery
-  // In production, this would be backed by a database table.
-  // For now, env-configurable list of revoked key IDs.
-  const REVOKED_KIDS = new Set(
-    (process.env.REVOKED_KEY_IDS || '').split(',').filter(Boolean)
-  );
-
-  app.get("/.well-known/revoked-keys.json", (_req, res) => {
-    const revokedKeys = Array.from(REVOKED_KIDS).map(kid => ({
-      kid,
-      revoked_at: new Date().toISOString(), // In production: lookup from DB
-      reason: "key_compromise",
-    }));
-
-    res.setHeader('Cache-Control', 'public, max-age=300'); // 5 min cache
-    res.json({
-      issuer: "registry.myproof.ai",
-      revoked_keys: revokedKeys,
-      updated_at: new Date().toISOString(),
-    });
-  });
-
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -10,6 +10,7 @@ export type Scope =
   | 'assets:mint' 
   | 'assets:read' 
   | 'status:update' 
+  | 'receipts:issue' 
   | 'transfer:execute' 
   | 'audit:read' 
   | 'admin:*';
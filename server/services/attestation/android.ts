@@ -0,0 +1,150 @@
+import { timingSafeEqual } from "node:crypto";
+import { jwkDigestHex } from "../../utils/digest.js";
+import { decodeCertificateChain, verifyCertificateChain } from "./x509-chain.js";
+import { getTrustRoots } from "./trust-roots.js";
+import { derBool, derChildren, derInt, findCertificateExtension, parseDer, TAG_CLASS_CONTEXT, type DerNode } from "./der.js";
+import type { AttestationVerifier } from "./types.js";
+
+/**
+ * Android Key Attestation
+ *
+ * Envelope:
+ * {
+ *   "type": "android-key",
+ *   "certificateChain": ["<base64 DER>", ...],   // leaf (attested key) first
+ *   "challenge": "<base64>"                       // optional, must match attestationChallenge
+ * }
+ *
+ * The leaf carries the KeyDescription extension (OID 1.3.6.1.4.1.11129.2.1.17).
+ * Software-only attestations are rejected unless ANDROID_ALLOW_SOFTWARE_ATTESTATION=true.
+ * Certificate revocation status is not checked (the verifier runs offline).
+ *
+ * Spec: https://source.android.com/docs/security/features/keystore/attestation
+ */
+
+const KEY_DESCRIPTION_OID = "1.3.6.1.4.1.11129.2.1.17";
+
+const SECURITY_LEVELS = ["Software", "TrustedEnvironment", "StrongBox"];
+const VERIFIED_BOOT_STATES = ["Verified", "SelfSigned", "Unverified", "Failed"];
+
+// AuthorizationList tags recorded as device facts
+const TAG_ORIGIN = 702;
+const TAG_ROOT_OF_TRUST = 704;
+const TAG_OS_VERSION = 705;
+const TAG_OS_PATCH_LEVEL = 706;
+const TAG_VENDOR_PATCH_LEVEL = 718;
+const TAG_BOOT_PATCH_LEVEL = 719;
+
+export const androidKeyAttestationVerifier: AttestationVerifier = {
+  type: "android-key",
+
+  async verify(envelope, context) {
+    let chain;
+    try {
+      chain = decodeCertificateChain(envelope.certificateChain);
+    } catch (error: any) {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: error.message };
+    }
+
+    const chainResult = verifyCertificateChain(chain, getTrustRoots("android"), context.now);
+    if (!chainResult.ok) {
+      return { ok: false, code: "ATTESTATION_CHAIN_INVALID", reason: chainResult.reason };
+    }
+
+    let description: KeyDescription;
+    try {
+      const ext = findCertificateExtension(Buffer.from(chain[0].raw), KEY_DESCRIPTION_OID);
+      if (!ext) {
+        return { ok: false, code: "ATTESTATION_INVALID", reason: "Leaf certificate has no KeyDescription extension" };
+      }
+      description = parseKeyDescription(ext);
+    } catch (error: any) {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: `Malformed KeyDescription: ${error.message}` };
+    }
+
+    const allowSoftware = process.env.ANDROID_ALLOW_SOFTWARE_ATTESTATION === "true";
+    if (description.attestationSecurityLevel === "Software" && !allowSoftware) {
+      return { ok: false, code: "ATTESTATION_INSECURE", reason: "Software-backed key attestation is not accepted" };
+    }
+
+    const expected = context.expectedChallenge
+      ?? (typeof envelope.challenge === "string" ? Buffer.from(envelope.challenge, "base64") : undefined);
+    if (expected && !bytesEqual(expected, description.attestationChallenge)) {
+      return { ok: false, code: "ATTESTATION_CHALLENGE_MISMATCH", reason: "attestationChallenge does not match" };
+    }
+
+    return {
+      ok: true,
+      attestationType: "android-key",
+      publicKeyDigest: jwkDigestHex(chain[0].publicKey.export({ format: "jwk" })),
+      deviceFacts: {
+        attestationVersion: description.attestationVersion,
+        attestationSecurityLevel: description.attestationSecurityLevel,
+        keymasterVersion: description.keymasterVersion,
+        keymasterSecurityLevel: description.keymasterSecurityLevel,
+        ...description.hardwareFacts,
+      },
+    };
+  },
+};
+
+interface KeyDescription {
+  attestationVersion: number;
+  attestationSecurityLevel: string;
+  keymasterVersion: number;
+  keymasterSecurityLevel: string;
+  attestationChallenge: Buffer;
+  hardwareFacts: Record<string, unknown>;
+}
+
+function parseKeyDescription(ext: Buffer): KeyDescription {
+  const fields = derChildren(parseDer(ext));
+  if (fields.length < 8) throw new Error("KeyDescription has too few fields");
+
+  return {
+    attestationVersion: derInt(fields[0]),
+    attestationSecurityLevel: SECURITY_LEVELS[derInt(fields[1])] ?? "Unknown",
+    keymasterVersion: derInt(fields[2]),
+    keymasterSecurityLevel: SECURITY_LEVELS[derInt(fields[3])] ?? "Unknown",
+    attestationChallenge: Buffer.from(fields[4].value),
+    // Only hardware-enforced (TEE/StrongBox) values are trustworthy device facts
+    hardwareFacts: parseAuthorizationList(fields[7]),
+  };
+}
+
+function parseAuthorizationList(list: DerNode): Record<string, unknown> {
+  const facts: Record<string, unknown> = {};
+  for (const entry of derChildren(list)) {
+    if (entry.tagClass !== TAG_CLASS_CONTEXT) continue;
+    const [inner] = derChildren(entry); // EXPLICIT tagging
+
+    switch (entry.tagNumber) {
+      case TAG_ORIGIN:
+        facts.keyOrigin = derInt(inner) === 0 ? "Generated" : "Imported";
+        break;
+      case TAG_ROOT_OF_TRUST: {
+        const rot = derChildren(inner);
+        facts.deviceLocked = derBool(rot[1]);
+        facts.verifiedBootState = VERIFIED_BOOT_STATES[derInt(rot[2])] ?? "Unknown";
+        break;
+      }
+      case TAG_OS_VERSION:
+        facts.osVersion = derInt(inner);
+        break;
+      case TAG_OS_PATCH_LEVEL:
+        facts.osPatchLevel = derInt(inner);
+        break;
+      case TAG_VENDOR_PATCH_LEVEL:
+        facts.vendorPatchLevel = derInt(inner);
+        break;
+      case TAG_BOOT_PATCH_LEVEL:
+        facts.bootPatchLevel = derInt(inner);
+        break;
+    }
+  }
+  return facts;
+}
+
+function bytesEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,150 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { decode as decodeCbor } from "cbor-x";
+import { jwkDigestHex } from "../../utils/digest.js";
+import { decodeCertificateChain, verifyCertificateChain } from "./x509-chain.js";
+import { getTrustRoots } from "./trust-roots.js";
+import { derChildren, findCertificateExtension, parseDer } from "./der.js";
+import type { AttestationVerifier } from "./types.js";
+
+/**
+ * Apple App Attest
+ *
+ * Envelope:
+ * {
+ *   "type": "apple-app-attest",
+ *   "attestationObject": "<base64 CBOR>",
+ *   "clientDataHash": "<base64>",   // SHA-256 of the client data / server challenge
+ *   "keyId": "<base64>",            // App Attest key identifier
+ *   "appId": "TEAMID.bundle.id"
+ * }
+ *
+ * When APP_ATTEST_ALLOWED_APP_IDS (comma separated) is set, appId must be listed.
+ *
+ * Spec: https://developer.apple.com/documentation/devicecheck/validating_apps_that_connect_to_your_server
+ */
+
+const NONCE_OID = "1.2.840.113635.100.8.2";
+const AAGUID_PRODUCTION = Buffer.concat([Buffer.from("appattest"), Buffer.alloc(7)]);
+const AAGUID_DEVELOPMENT = Buffer.from("appattestdevelop");
+
+export const appleAppAttestVerifier: AttestationVerifier = {
+  type: "apple-app-attest",
+
+  async verify(envelope, context) {
+    for (const field of ["attestationObject", "clientDataHash", "keyId", "appId"]) {
+      if (typeof envelope[field] !== "string") {
+        return { ok: false, code: "ATTESTATION_INVALID", reason: `${field} is required` };
+      }
+    }
+
+    const allowedAppIds = process.env.APP_ATTEST_ALLOWED_APP_IDS?.split(",").map((s) => s.trim()).filter(Boolean);
+    if (allowedAppIds && allowedAppIds.length > 0 && !allowedAppIds.includes(envelope.appId)) {
+      return { ok: false, code: "ATTESTATION_APP_NOT_ALLOWED", reason: `App ${envelope.appId} is not allowed` };
+    }
+
+    let attestation: any;
+    try {
+      attestation = decodeCbor(Buffer.from(envelope.attestationObject, "base64"));
+    } catch (error: any) {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: `attestationObject is not valid CBOR: ${error.message}` };
+    }
+    if (attestation?.fmt !== "apple-appattest" || !attestation.attStmt || !attestation.authData) {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: "Not an apple-appattest attestation object" };
+    }
+
+    let chain;
+    try {
+      chain = decodeCertificateChain(
+        (attestation.attStmt.x5c as Uint8Array[]).map((der) => Buffer.from(der).toString("base64"))
+      );
+    } catch (error: any) {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: error.message };
+    }
+
+    const chainResult = verifyCertificateChain(chain, getTrustRoots("apple"), context.now);
+    if (!chainResult.ok) {
+      return { ok: false, code: "ATTESTATION_CHAIN_INVALID", reason: chainResult.reason };
+    }
+
+    // nonce = SHA256(authData || clientDataHash) must equal the credential certificate extension
+    const authData = Buffer.from(attestation.authData);
+    const clientDataHash = Buffer.from(envelope.clientDataHash, "base64");
+    if (context.expectedChallenge && !bytesEqual(context.expectedChallenge, clientDataHash)) {
+      return { ok: false, code: "ATTESTATION_CHALLENGE_MISMATCH", reason: "clientDataHash does not match challenge" };
+    }
+    const nonce = sha256(Buffer.concat([authData, clientDataHash]));
+    let certNonce: Buffer | undefined;
+    try {
+      const ext = findCertificateExtension(Buffer.from(chain[0].raw), NONCE_OID);
+      if (ext) {
+        // SEQUENCE { [1] EXPLICIT OCTET STRING nonce }
+        const [tagged] = derChildren(parseDer(ext));
+        certNonce = Buffer.from(derChildren(tagged)[0].value);
+      }
+    } catch {
+      certNonce = undefined;
+    }
+    if (!certNonce || !bytesEqual(certNonce, nonce)) {
+      return { ok: false, code: "ATTESTATION_CHALLENGE_MISMATCH", reason: "Attestation nonce does not match" };
+    }
+
+    // keyId = SHA256(uncompressed EC public key of the credential certificate)
+    const jwk = chain[0].publicKey.export({ format: "jwk" });
+    const publicPoint = Buffer.concat([
+      Buffer.from([0x04]),
+      Buffer.from(jwk.x!, "base64url"),
+      Buffer.from(jwk.y!, "base64url"),
+    ]);
+    const keyId = Buffer.from(envelope.keyId, "base64");
+    if (!bytesEqual(sha256(publicPoint), keyId)) {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: "keyId does not match the attested public key" };
+    }
+
+    // authenticatorData: rpIdHash(32) flags(1) signCount(4) aaguid(16) credIdLen(2) credId
+    if (authData.length < 55) {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: "authenticatorData is truncated" };
+    }
+    const rpIdHash = authData.subarray(0, 32);
+    const signCount = authData.readUInt32BE(33);
+    const aaguid = authData.subarray(37, 53);
+    const credIdLength = authData.readUInt16BE(53);
+    const credentialId = authData.subarray(55, 55 + credIdLength);
+
+    if (!bytesEqual(rpIdHash, sha256(Buffer.from(envelope.appId, "utf8")))) {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: "rpIdHash does not match appId" };
+    }
+    if (signCount !== 0) {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: "signCount must be 0 for an attestation" };
+    }
+    let environment: string;
+    if (aaguid.equals(AAGUID_PRODUCTION)) {
+      environment = "production";
+    } else if (aaguid.equals(AAGUID_DEVELOPMENT)) {
+      environment = "development";
+    } else {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: "Unrecognized App Attest aaguid" };
+    }
+    if (!bytesEqual(credentialId, keyId)) {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: "credentialId does not match keyId" };
+    }
+
+    return {
+      ok: true,
+      attestationType: "apple-app-attest",
+      publicKeyDigest: jwkDigestHex(jwk),
+      deviceFacts: {
+        appId: envelope.appId,
+        environment,
+        receiptPresent: !!attestation.attStmt.receipt,
+      },
+    };
+  },
+};
+
+function sha256(data: Buffer): Buffer {
+  return createHash("sha256").update(data).digest();
+}
+
+function bytesEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeAll, afterEach } from "vitest";
+import { createHash, randomBytes, sign, type X509Certificate } from "node:crypto";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { encode as encodeCbor } from "cbor-x";
+import { getTrustRoots, setTrustRoots, verifyAttestation, type TrustRootKind } from "./index.js";
+import { der, issueCertificate, issueChain, testKeyPair } from "./test-certificates.js";
+
+/**
+ * Tests for Android Key Attestation, Apple App Attest and TPM 2.0 quote
+ * verification against fixture chains and trust roots (offline)
+ */
+
+const NOW = new Date("2026-06-01T00:00:00Z");
+const CHALLENGE = Buffer.from("relying-party-challenge");
+
+function envelopeBytes(envelope: Record<string, unknown>) {
+  return Buffer.from(JSON.stringify(envelope));
+}
+
+function base64Chain(chain: { der: Buffer }[]) {
+  return chain.map((cert) => cert.der.toString("base64"));
+}
+
+// --- Android Key Attestation ---
+
+function keyDescription(securityLevel: number, challenge: Buffer) {
+  const teeEnforced = der.seq(
+    der.explicit(702, der.int(0)),                                   // origin: generated
+    der.explicit(704, der.seq(der.octets(Buffer.alloc(32, 7)), der.bool(true), der.enumerated(0))),
+    der.explicit(705, der.int(140000)),                              // osVersion
+    der.explicit(706, der.int(202605))                               // osPatchLevel
+  );
+  return der.seq(
+    der.int(4), der.enumerated(securityLevel),
+    der.int(41), der.enumerated(securityLevel),
+    der.octets(challenge), der.octets(Buffer.alloc(0)),
+    der.seq(), teeEnforced
+  );
+}
+
+function androidFixture(securityLevel = 1) {
+  return issueChain("Test Android Root", {
+    subject: "Android Keystore Key",
+    extensions: [{ oid: "1.3.6.1.4.1.11129.2.1.17", value: keyDescription(securityLevel, CHALLENGE) }],
+  });
+}
+
+// --- Apple App Attest ---
+
+const APP_ID = "TEAMID1234.com.example.wallet";
+
+function appAttestFixture() {
+  const clientDataHash = createHash("sha256").update(CHALLENGE).digest();
+  const leafKeys = testKeyPair();
+  const jwk = leafKeys.publicKey.export({ format: "jwk" });
+  const keyId = createHash("sha256")
+    .update(Buffer.concat([Buffer.from([0x04]), Buffer.from(jwk.x!, "base64url"), Buffer.from(jwk.y!, "base64url")]))
+    .digest();
+
+  const credIdLength = Buffer.alloc(2);
+  credIdLength.writeUInt16BE(keyId.length);
+  const authData = Buffer.concat([
+    createHash("sha256").update(APP_ID).digest(),   // rpIdHash
+    Buffer.from([0x40]),                             // flags: attested credential data
+    Buffer.alloc(4),                                 // signCount
+    Buffer.from("appattestdevelop"),                 // aaguid
+    credIdLength,
+    keyId,
+  ]);
+  const nonce = createHash("sha256").update(Buffer.concat([authData, clientDataHash])).digest();
+
+  const fixture = issueChain("Test Apple App Attestation Root CA", {
+    subject: "App Attest Credential",
+    keys: leafKeys,
+    extensions: [{ oid: "1.2.840.113635.100.8.2", value: der.seq(der.explicit(1, der.octets(nonce))) }],
+  });
+  const attestationObject = encodeCbor({
+    fmt: "apple-appattest",
+    attStmt: { x5c: fixture.chain.map((cert) => cert.der), receipt: Buffer.from("receipt") },
+    authData,
+  });
+
+  return {
+    ...fixture,
+    envelope: {
+      type: "apple-app-attest",
+      attestationObject: Buffer.from(attestationObject).toString("base64"),
+      clientDataHash: clientDataHash.toString("base64"),
+      keyId: keyId.toString("base64"),
+      appId: APP_ID,
+    },
+  };
+}
+
+// --- TPM 2.0 quote ---
+
+const PCRS = { "0": "11".repeat(32), "7": "22".repeat(32) };
+
+function tpmFixture(nonce = CHALLENGE) {
+  const fixture = issueChain("Test TPM Manufacturer Root", { subject: "TPM Attestation Key" });
+
+  const u16 = (v: number) => { const b = Buffer.alloc(2); b.writeUInt16BE(v); return b; };
+  const u32 = (v: number) => { const b = Buffer.alloc(4); b.writeUInt32BE(v); return b; };
+  const u64 = (v: bigint) => { const b = Buffer.alloc(8); b.writeBigUInt64BE(v); return b; };
+  const tpm2b = (data: Buffer) => Buffer.concat([u16(data.length), data]);
+
+  const pcrDigest = createHash("sha256")
+    .update(Buffer.concat([Buffer.from(PCRS["0"], "hex"), Buffer.from(PCRS["7"], "hex")]))
+    .digest();
+  const quoted = Buffer.concat([
+    u32(0xff544347), u16(0x8018),
+    tpm2b(Buffer.from("signer")), tpm2b(nonce),
+    u64(123456n), u32(3), u32(1), Buffer.from([1]), u64(0x20260001n),
+    u32(1), u16(0x000b), Buffer.from([3, 0x81, 0x00, 0x00]),          // sha256: PCR 0 and 7
+    tpm2b(pcrDigest),
+  ]);
+  const p1363 = sign("sha256", quoted, { key: fixture.leaf.privateKey, dsaEncoding: "ieee-p1363" });
+  const signature = Buffer.concat([
+    u16(0x0018), u16(0x000b), tpm2b(p1363.subarray(0, 32)), tpm2b(p1363.subarray(32)),
+  ]);
+
+  return {
+    ...fixture,
+    envelope: {
+      type: "tpm2-quote",
+      akCertChain: base64Chain(fixture.chain),
+      quoted: quoted.toString("base64"),
+      signature: signature.toString("base64"),
+      nonce: nonce.toString("base64"),
+      pcrs: PCRS,
+    },
+  };
+}
+
+const android = androidFixture();
+const apple = appAttestFixture();
+const tpm = tpmFixture();
+
+beforeAll(() => {
+  // Roots are read from disk, the way ATTESTATION_TRUST_ROOTS_DIR is provisioned
+  const dir = mkdtempSync(join(tmpdir(), "attestation-roots-"));
+  for (const [kind, root] of [["android", android.root], ["apple", apple.root], ["tpm", tpm.root]] as const) {
+    mkdirSync(join(dir, kind));
+    writeFileSync(join(dir, kind, "root.pem"), root.certificate.toString());
+  }
+  process.env.ATTESTATION_TRUST_ROOTS_DIR = dir;
+});
+
+const diskRoots = new Map<TrustRootKind, X509Certificate[]>();
+
+afterEach(() => {
+  for (const [kind, roots] of Array.from(diskRoots.entries())) setTrustRoots(kind, roots);
+});
+
+// Replace the disk roots of a kind for one test
+function trustOnly(kind: TrustRootKind, root: X509Certificate) {
+  diskRoots.set(kind, getTrustRoots(kind));
+  setTrustRoots(kind, [root]);
+}
+
+// A root with the same name as the real one but a different key
+function trustWrongRoot(kind: TrustRootKind, subject: string) {
+  trustOnly(kind, issueCertificate({ subject, ca: true }).certificate);
+}
+
+describe("trust roots", () => {
+  it("loads PEM roots from ATTESTATION_TRUST_ROOTS_DIR", () => {
+    expect(getTrustRoots("android").map((root) => root.fingerprint256)).toEqual([android.root.certificate.fingerprint256]);
+    expect(getTrustRoots("iaca")).toEqual([]);
+  });
+});
+
+describe("android-key attestation", () => {
+  const envelope = { type: "android-key", certificateChain: base64Chain(android.chain) };
+
+  it("verifies a hardware-backed key and records device facts", async () => {
+    const result = await verifyAttestation(envelopeBytes(envelope), { expectedChallenge: CHALLENGE, now: NOW });
+
+    expect(result.ok).toBe(true);
+    expect(result.deviceFacts).toMatchObject({
+      attestationSecurityLevel: "TrustedEnvironment",
+      keyOrigin: "Generated",
+      deviceLocked: true,
+      verifiedBootState: "Verified",
+      osVersion: 140000,
+      osPatchLevel: 202605,
+    });
+  });
+
+  it("rejects a chain from a different root", async () => {
+    trustWrongRoot("android", "Test Android Root");
+
+    const result = await verifyAttestation(envelopeBytes(envelope), { now: NOW });
+    expect(result).toMatchObject({ ok: false, code: "ATTESTATION_CHAIN_INVALID" });
+  });
+
+  it("rejects expired chains, software keys and other challenges", async () => {
+    const expired = await verifyAttestation(envelopeBytes(envelope), { now: new Date("2036-01-01T00:00:00Z") });
+    expect(expired.code).toBe("ATTESTATION_CHAIN_INVALID");
+
+    const otherChallenge = await verifyAttestation(envelopeBytes(envelope), { expectedChallenge: Buffer.from("other"), now: NOW });
+    expect(otherChallenge.code).toBe("ATTESTATION_CHALLENGE_MISMATCH");
+
+    const software = androidFixture(0);
+    trustOnly("android", software.root.certificate);
+    const insecure = await verifyAttestation(
+      envelopeBytes({ type: "android-key", certificateChain: base64Chain(software.chain) }),
+      { now: NOW }
+    );
+    expect(insecure.code).toBe("ATTESTATION_INSECURE");
+  });
+});
+
+describe("apple-app-attest attestation", () => {
+  it("verifies the attestation object, nonce and key identifier", async () => {
+    const result = await verifyAttestation(envelopeBytes(apple.envelope), { now: NOW });
+
+    expect(result.ok).toBe(true);
+    expect(result.deviceFacts).toEqual({ appId: APP_ID, environment: "development", receiptPresent: true });
+  });
+
+  it("rejects a chain from a different root", async () => {
+    trustWrongRoot("apple", "Test Apple App Attestation Root CA");
+
+    const result = await verifyAttestation(envelopeBytes(apple.envelope), { now: NOW });
+    expect(result).toMatchObject({ ok: false, code: "ATTESTATION_CHAIN_INVALID" });
+  });
+
+  it("rejects a clientDataHash the certificate nonce does not cover", async () => {
+    const tampered = { ...apple.envelope, clientDataHash: randomBytes(32).toString("base64") };
+
+    const result = await verifyAttestation(envelopeBytes(tampered), { now: NOW });
+    expect(result.code).toBe("ATTESTATION_CHALLENGE_MISMATCH");
+  });
+});
+
+describe("tpm2-quote attestation", () => {
+  it("verifies the quote signature, nonce and PCR digest", async () => {
+    const result = await verifyAttestation(envelopeBytes(tpm.envelope), { expectedChallenge: CHALLENGE, now: NOW });
+
+    expect(result.ok).toBe(true);
+    expect(result.deviceFacts).toMatchObject({
+      firmwareVersion: "20260001",
+      clockSafe: true,
+      pcrSelections: [{ hashAlg: "sha256", pcrs: [0, 7] }],
+      pcrValuesVerified: true,
+    });
+  });
+
+  it("rejects a chain from a different root", async () => {
+    trustWrongRoot("tpm", "Test TPM Manufacturer Root");
+
+    const result = await verifyAttestation(envelopeBytes(tpm.envelope), { now: NOW });
+    expect(result).toMatchObject({ ok: false, code: "ATTESTATION_CHAIN_INVALID" });
+  });
+
+  it("rejects tampered quotes and PCR values", async () => {
+    const quoted = Buffer.from(tpm.envelope.quoted, "base64");
+    quoted[quoted.length - 1] ^= 0xff;
+    const forged = await verifyAttestation(envelopeBytes({ ...tpm.envelope, quoted: quoted.toString("base64") }), { now: NOW });
+    expect(forged.code).toBe("ATTESTATION_SIGNATURE_INVALID");
+
+    const pcrs = await verifyAttestation(envelopeBytes({ ...tpm.envelope, pcrs: { ...PCRS, "7": "33".repeat(32) } }), { now: NOW });
+    expect(pcrs.code).toBe("ATTESTATION_PCR_MISMATCH");
+  });
+});
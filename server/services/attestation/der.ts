@@ -0,0 +1,146 @@
+/**
+ * Minimal DER reader for attestation certificate extensions
+ *
+ * Node's X509Certificate verifies signatures and validity but does not expose
+ * extension payloads, so the Android KeyDescription and Apple App Attest nonce
+ * extensions are parsed here. Supports high tag numbers (Android uses
+ * context-specific tags such as [704]) and long-form lengths; indefinite
+ * lengths are rejected as DER forbids them.
+ */
+
+export const TAG_CLASS_UNIVERSAL = 0;
+export const TAG_CLASS_CONTEXT = 2;
+
+export interface DerNode {
+  tagClass: number;
+  constructed: boolean;
+  tagNumber: number;
+  value: Buffer;          // content octets
+  raw: Buffer;            // header + content
+}
+
+/**
+ * Parse a single DER element starting at offset
+ */
+export function parseDer(buf: Buffer, offset = 0): DerNode {
+  let pos = offset;
+  if (pos >= buf.length) throw new Error("der_truncated");
+
+  const first = buf[pos++];
+  const tagClass = first >> 6;
+  const constructed = (first & 0x20) !== 0;
+  let tagNumber = first & 0x1f;
+  if (tagNumber === 0x1f) {
+    tagNumber = 0;
+    let b: number;
+    do {
+      if (pos >= buf.length) throw new Error("der_truncated");
+      b = buf[pos++];
+      tagNumber = tagNumber * 128 + (b & 0x7f);
+    } while (b & 0x80);
+  }
+
+  if (pos >= buf.length) throw new Error("der_truncated");
+  let length = buf[pos++];
+  if (length & 0x80) {
+    const n = length & 0x7f;
+    if (n === 0 || n > 4) throw new Error("der_unsupported_length");
+    length = 0;
+    for (let i = 0; i < n; i++) {
+      if (pos >= buf.length) throw new Error("der_truncated");
+      length = length * 256 + buf[pos++];
+    }
+  }
+
+  const end = pos + length;
+  if (end > buf.length) throw new Error("der_truncated");
+  return {
+    tagClass,
+    constructed,
+    tagNumber,
+    value: buf.subarray(pos, end),
+    raw: buf.subarray(offset, end),
+  };
+}
+
+/**
+ * Parse the children of a constructed element
+ */
+export function derChildren(node: DerNode): DerNode[] {
+  if (!node.constructed) throw new Error("der_not_constructed");
+  const out: DerNode[] = [];
+  let pos = 0;
+  while (pos < node.value.length) {
+    const child = parseDer(node.value, pos);
+    out.push(child);
+    pos += child.raw.length;
+  }
+  return out;
+}
+
+/**
+ * Read an INTEGER or ENUMERATED as a number (values beyond 2^53 are rejected)
+ */
+export function derInt(node: DerNode): number {
+  let n = 0;
+  for (let i = 0; i < node.value.length; i++) n = n * 256 + node.value[i];
+  if (node.value.length > 0 && node.value[0] & 0x80) {
+    n -= 2 ** (8 * node.value.length);
+  }
+  if (!Number.isSafeInteger(n)) throw new Error("der_integer_too_large");
+  return n;
+}
+
+/**
+ * Read a BOOLEAN
+ */
+export function derBool(node: DerNode): boolean {
+  return node.value.length === 1 && node.value[0] !== 0;
+}
+
+/**
+ * Read an OBJECT IDENTIFIER in dotted form
+ */
+export function derOid(node: DerNode): string {
+  const bytes = node.value;
+  if (bytes.length === 0) throw new Error("der_invalid_oid");
+  const parts: number[] = [];
+  let value = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    value = value * 128 + (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) {
+      if (parts.length === 0) {
+        const first = Math.min(Math.floor(value / 40), 2);
+        parts.push(first, value - first * 40);
+      } else {
+        parts.push(value);
+      }
+      value = 0;
+    }
+  }
+  return parts.join(".");
+}
+
+/**
+ * Find an X.509 v3 extension by OID and return its extnValue contents
+ *
+ * @param certDer - DER-encoded certificate
+ * @param oid - Extension OID in dotted form
+ * @returns The OCTET STRING contents, or undefined if absent
+ */
+export function findCertificateExtension(certDer: Buffer, oid: string): Buffer | undefined {
+  const [tbs] = derChildren(parseDer(certDer));
+  const extensionsWrapper = derChildren(tbs).find(
+    (n) => n.tagClass === TAG_CLASS_CONTEXT && n.tagNumber === 3
+  );
+  if (!extensionsWrapper) return undefined;
+
+  const [extensions] = derChildren(extensionsWrapper);
+  for (const ext of derChildren(extensions)) {
+    const fields = derChildren(ext);
+    if (derOid(fields[0]) === oid) {
+      return fields[fields.length - 1].value;
+    }
+  }
+  return undefined;
+}
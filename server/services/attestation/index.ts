@@ -0,0 +1,67 @@
+import { androidKeyAttestationVerifier } from "./android.js";
+import { appleAppAttestVerifier } from "./apple.js";
+import { tpm2QuoteVerifier } from "./tpm.js";
+import type { AttestationContext, AttestationResult, AttestationVerifier } from "./types.js";
+
+export type { AttestationContext, AttestationResult, AttestationVerifier } from "./types.js";
+export { getTrustRoots, setTrustRoots, type TrustRootKind } from "./trust-roots.js";
+
+/**
+ * Hardware attestation verification (HW_ATTESTATION)
+ *
+ * Proof bytes are a JSON envelope whose `type` selects a verifier:
+ *
+ * - android-key       Android Key Attestation certificate chain
+ * - apple-app-attest  Apple App Attest attestation object
+ * - tpm2-quote        TPM 2.0 quote signed by a certified attestation key
+ *
+ * Every verifier validates an X.509 chain against local trust roots and
+ * returns non-PII device facts. Additional verifiers can be plugged in with
+ * registerAttestationVerifier().
+ */
+
+const VERIFIERS = new Map<string, AttestationVerifier>();
+
+/**
+ * Register (or replace) the verifier for an envelope type
+ */
+export function registerAttestationVerifier(verifier: AttestationVerifier): void {
+  VERIFIERS.set(verifier.type, verifier);
+}
+
+registerAttestationVerifier(androidKeyAttestationVerifier);
+registerAttestationVerifier(appleAppAttestVerifier);
+registerAttestationVerifier(tpm2QuoteVerifier);
+
+/**
+ * Verify a serialized attestation envelope
+ *
+ * @param bytes - JSON envelope bytes
+ * @param context - Expected challenge and validation time
+ */
+export async function verifyAttestation(
+  bytes: Uint8Array,
+  context: AttestationContext = {}
+): Promise<AttestationResult> {
+  let envelope: any;
+  try {
+    envelope = JSON.parse(Buffer.from(bytes).toString("utf8"));
+  } catch {
+    return { ok: false, code: "ATTESTATION_INVALID", reason: "Attestation envelope is not valid JSON" };
+  }
+
+  if (!envelope || typeof envelope !== "object" || typeof envelope.type !== "string") {
+    return { ok: false, code: "ATTESTATION_INVALID", reason: "Attestation envelope must declare a type" };
+  }
+
+  const verifier = VERIFIERS.get(envelope.type);
+  if (!verifier) {
+    return { ok: false, code: "ATTESTATION_UNSUPPORTED", reason: `Unsupported attestation type: ${envelope.type}` };
+  }
+
+  try {
+    return await verifier.verify(envelope, context);
+  } catch (error: any) {
+    return { ok: false, code: "ATTESTATION_INVALID", reason: `Attestation verification error: ${error.message}` };
+  }
+}
@@ -0,0 +1,155 @@
+import { generateKeyPairSync, sign, X509Certificate, type KeyObject } from "node:crypto";
+
+/**
+ * Test certificate authority for attestation and mdoc fixtures
+ *
+ * Builds small DER X.509 v3 certificates (ECDSA P-256 / SHA-256) with
+ * arbitrary extensions, so chain validation, Android KeyDescription and App
+ * Attest nonce parsing can be exercised offline without vendor roots.
+ * Test-only: nothing in the server imports this module.
+ */
+
+export interface TestKeyPair {
+  publicKey: KeyObject;
+  privateKey: KeyObject;
+}
+
+export interface TestCertificate extends TestKeyPair {
+  certificate: X509Certificate;
+  der: Buffer;
+  subject: string;
+}
+
+export interface IssueOptions {
+  subject: string;                    // Common name
+  issuer?: TestCertificate;           // Self-signed when omitted
+  keys?: TestKeyPair;
+  ca?: boolean;
+  notBefore?: Date;
+  notAfter?: Date;
+  extensions?: { oid: string; value: Buffer; critical?: boolean }[];
+}
+
+const ECDSA_WITH_SHA256 = "1.2.840.10045.4.3.2";
+const COMMON_NAME = "2.5.4.3";
+const BASIC_CONSTRAINTS = "2.5.29.19";
+
+let serial = 1;
+
+export function testKeyPair(): TestKeyPair {
+  return generateKeyPairSync("ec", { namedCurve: "P-256" });
+}
+
+/**
+ * Issue a certificate (self-signed root when no issuer is given)
+ */
+export function issueCertificate(options: IssueOptions): TestCertificate {
+  const keys = options.keys || testKeyPair();
+  const signer = options.issuer || { ...keys, subject: options.subject };
+  const signatureAlgorithm = der.seq(der.oid(ECDSA_WITH_SHA256));
+
+  const extensions = [...(options.extensions || [])];
+  if (options.ca) {
+    extensions.unshift({ oid: BASIC_CONSTRAINTS, value: der.seq(der.bool(true)), critical: true });
+  }
+
+  const tbs = der.seq(
+    der.explicit(0, der.int(2)),
+    der.int(serial++),
+    signatureAlgorithm,
+    name(signer.subject),
+    der.seq(
+      der.time(options.notBefore || new Date("2025-01-01T00:00:00Z")),
+      der.time(options.notAfter || new Date("2035-01-01T00:00:00Z"))
+    ),
+    name(options.subject),
+    keys.publicKey.export({ type: "spki", format: "der" }),
+    ...(extensions.length > 0
+      ? [der.explicit(3, der.seq(...extensions.map((ext) => der.seq(
+          der.oid(ext.oid),
+          ...(ext.critical ? [der.bool(true)] : []),
+          der.octets(ext.value)
+        ))))]
+      : [])
+  );
+
+  const signature = sign("sha256", tbs, signer.privateKey);
+  const certificateDer = der.seq(tbs, signatureAlgorithm, der.bitString(signature));
+  return {
+    ...keys,
+    certificate: new X509Certificate(certificateDer),
+    der: certificateDer,
+    subject: options.subject,
+  };
+}
+
+/**
+ * Root → intermediate → leaf chain; returns the chain leaf first
+ */
+export function issueChain(rootSubject: string, leaf: Omit<IssueOptions, "issuer" | "ca">) {
+  const root = issueCertificate({ subject: rootSubject, ca: true });
+  const intermediate = issueCertificate({ subject: `${rootSubject} Intermediate`, issuer: root, ca: true });
+  const leafCert = issueCertificate({ ...leaf, issuer: intermediate });
+  return { root, intermediate, leaf: leafCert, chain: [leafCert, intermediate] };
+}
+
+function name(commonName: string): Buffer {
+  return der.seq(der.set(der.seq(der.oid(COMMON_NAME), der.utf8(commonName))));
+}
+
+/**
+ * Minimal DER encoder (definite lengths only)
+ */
+export const der = {
+  tlv(tag: number | number[], content: Buffer): Buffer {
+    const tagBytes = Array.isArray(tag) ? tag : [tag];
+    return Buffer.concat([Buffer.from(tagBytes), encodeLength(content.length), content]);
+  },
+  seq: (...children: Buffer[]) => der.tlv(0x30, Buffer.concat(children)),
+  set: (...children: Buffer[]) => der.tlv(0x31, Buffer.concat(children)),
+  int: (value: number) => der.tlv(0x02, integerBytes(value)),
+  enumerated: (value: number) => der.tlv(0x0a, integerBytes(value)),
+  bool: (value: boolean) => der.tlv(0x01, Buffer.from([value ? 0xff : 0x00])),
+  octets: (value: Buffer) => der.tlv(0x04, value),
+  utf8: (value: string) => der.tlv(0x0c, Buffer.from(value, "utf8")),
+  bitString: (value: Buffer) => der.tlv(0x03, Buffer.concat([Buffer.from([0]), value])),
+  oid(dotted: string): Buffer {
+    const [first, second, ...rest] = dotted.split(".").map(Number);
+    const bytes = [first * 40 + second];
+    for (const arc of rest) {
+      const chunk = [arc & 0x7f];
+      for (let v = Math.floor(arc / 128); v > 0; v = Math.floor(v / 128)) chunk.unshift((v & 0x7f) | 0x80);
+      bytes.push(...chunk);
+    }
+    return der.tlv(0x06, Buffer.from(bytes));
+  },
+  time(date: Date): Buffer {
+    const iso = date.toISOString().replace(/[-:T]/g, "").slice(0, 14) + "Z";
+    return date.getUTCFullYear() < 2050 ? der.tlv(0x17, Buffer.from(iso.slice(2))) : der.tlv(0x18, Buffer.from(iso));
+  },
+  // [n] EXPLICIT, context-specific constructed (high tag numbers supported)
+  explicit(tagNumber: number, content: Buffer): Buffer {
+    if (tagNumber < 31) return der.tlv(0xa0 | tagNumber, content);
+    const tag = [tagNumber & 0x7f];
+    for (let v = Math.floor(tagNumber / 128); v > 0; v = Math.floor(v / 128)) tag.unshift((v & 0x7f) | 0x80);
+    return der.tlv([0xbf, ...tag], content);
+  },
+};
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length]);
+  const bytes: number[] = [];
+  for (let v = length; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function integerBytes(value: number): Buffer {
+  const bytes: number[] = [];
+  let v = value;
+  do {
+    bytes.unshift(v & 0xff);
+    v = Math.floor(v / 256);
+  } while (v > 0);
+  if (bytes[0] & 0x80) bytes.unshift(0);
+  return Buffer.from(bytes);
+}
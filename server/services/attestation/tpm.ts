@@ -0,0 +1,237 @@
+import { constants, createHash, timingSafeEqual, verify as cryptoVerify, type KeyObject } from "node:crypto";
+import { jwkDigestHex } from "../../utils/digest.js";
+import { decodeCertificateChain, verifyCertificateChain } from "./x509-chain.js";
+import { getTrustRoots } from "./trust-roots.js";
+import type { AttestationVerifier } from "./types.js";
+
+/**
+ * TPM 2.0 quote attestation
+ *
+ * Envelope:
+ * {
+ *   "type": "tpm2-quote",
+ *   "akCertChain": ["<base64 DER>", ...],   // attestation key certificate first
+ *   "quoted": "<base64>",                   // TPMS_ATTEST structure
+ *   "signature": "<base64>",                // TPMT_SIGNATURE over quoted
+ *   "nonce": "<base64>",                    // optional, must equal extraData
+ *   "pcrs": { "<index>": "<hex>", ... }     // optional PCR values for pcrDigest check
+ * }
+ *
+ * Spec: TCG TPM 2.0 Library Part 2 (Structures) — TPMS_ATTEST, TPMT_SIGNATURE
+ */
+
+const TPM_GENERATED_VALUE = 0xff544347;
+const TPM_ST_ATTEST_QUOTE = 0x8018;
+
+const TPM_ALG_RSASSA = 0x0014;
+const TPM_ALG_RSAPSS = 0x0016;
+const TPM_ALG_ECDSA = 0x0018;
+
+const TPM_HASH_ALGS: Record<number, string> = {
+  0x0004: "sha1",
+  0x000b: "sha256",
+  0x000c: "sha384",
+  0x000d: "sha512",
+};
+
+interface PcrSelection {
+  hashAlg: string;
+  pcrs: number[];
+}
+
+interface TpmQuote {
+  qualifiedSigner: Buffer;
+  extraData: Buffer;
+  clock: bigint;
+  resetCount: number;
+  restartCount: number;
+  safe: boolean;
+  firmwareVersion: bigint;
+  pcrSelections: PcrSelection[];
+  pcrDigest: Buffer;
+}
+
+export const tpm2QuoteVerifier: AttestationVerifier = {
+  type: "tpm2-quote",
+
+  async verify(envelope, context) {
+    if (typeof envelope.quoted !== "string" || typeof envelope.signature !== "string") {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: "quoted and signature are required" };
+    }
+
+    let chain;
+    try {
+      chain = decodeCertificateChain(envelope.akCertChain);
+    } catch (error: any) {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: error.message };
+    }
+
+    const chainResult = verifyCertificateChain(chain, getTrustRoots("tpm"), context.now);
+    if (!chainResult.ok) {
+      return { ok: false, code: "ATTESTATION_CHAIN_INVALID", reason: chainResult.reason };
+    }
+
+    const quoted = Buffer.from(envelope.quoted, "base64");
+    const signature = Buffer.from(envelope.signature, "base64");
+    const akKey = chain[0].publicKey;
+
+    let signatureValid: boolean;
+    try {
+      signatureValid = verifyTpmSignature(quoted, signature, akKey);
+    } catch (error: any) {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: `Malformed TPMT_SIGNATURE: ${error.message}` };
+    }
+    if (!signatureValid) {
+      return { ok: false, code: "ATTESTATION_SIGNATURE_INVALID", reason: "Quote signature does not verify with the AK" };
+    }
+
+    let quote: TpmQuote;
+    try {
+      quote = parseQuote(quoted);
+    } catch (error: any) {
+      return { ok: false, code: "ATTESTATION_INVALID", reason: `Malformed TPMS_ATTEST: ${error.message}` };
+    }
+
+    const expected = context.expectedChallenge
+      ?? (typeof envelope.nonce === "string" ? Buffer.from(envelope.nonce, "base64") : undefined);
+    if (expected && !bytesEqual(expected, quote.extraData)) {
+      return { ok: false, code: "ATTESTATION_CHALLENGE_MISMATCH", reason: "Quote extraData does not match nonce" };
+    }
+
+    let pcrValuesVerified = false;
+    if (envelope.pcrs !== undefined) {
+      const check = checkPcrDigest(quote, envelope.pcrs, TPM_HASH_ALGS[signature.readUInt16BE(2)]);
+      if (!check.ok) {
+        return { ok: false, code: "ATTESTATION_PCR_MISMATCH", reason: check.reason };
+      }
+      pcrValuesVerified = true;
+    }
+
+    return {
+      ok: true,
+      attestationType: "tpm2-quote",
+      publicKeyDigest: jwkDigestHex(akKey.export({ format: "jwk" })),
+      deviceFacts: {
+        firmwareVersion: quote.firmwareVersion.toString(16),
+        resetCount: quote.resetCount,
+        restartCount: quote.restartCount,
+        clockSafe: quote.safe,
+        pcrSelections: quote.pcrSelections,
+        pcrDigest: quote.pcrDigest.toString("hex"),
+        pcrValuesVerified,
+      },
+    };
+  },
+};
+
+/**
+ * Sequential big-endian reader for TPM marshalled structures
+ */
+class TpmReader {
+  private pos = 0;
+  constructor(private readonly buf: Buffer) {}
+
+  private need(n: number) {
+    if (this.pos + n > this.buf.length) throw new Error("truncated");
+  }
+  u8(): number { this.need(1); return this.buf.readUInt8(this.pos++); }
+  u16(): number { this.need(2); const v = this.buf.readUInt16BE(this.pos); this.pos += 2; return v; }
+  u32(): number { this.need(4); const v = this.buf.readUInt32BE(this.pos); this.pos += 4; return v; }
+  u64(): bigint { this.need(8); const v = this.buf.readBigUInt64BE(this.pos); this.pos += 8; return v; }
+  bytes(n: number): Buffer { this.need(n); const v = this.buf.subarray(this.pos, this.pos + n); this.pos += n; return v; }
+  tpm2b(): Buffer { return this.bytes(this.u16()); }
+  done(): boolean { return this.pos === this.buf.length; }
+}
+
+function parseQuote(quoted: Buffer): TpmQuote {
+  const r = new TpmReader(quoted);
+  if (r.u32() !== TPM_GENERATED_VALUE) throw new Error("magic is not TPM_GENERATED_VALUE");
+  if (r.u16() !== TPM_ST_ATTEST_QUOTE) throw new Error("type is not TPM_ST_ATTEST_QUOTE");
+
+  const qualifiedSigner = r.tpm2b();
+  const extraData = r.tpm2b();
+  const clock = r.u64();
+  const resetCount = r.u32();
+  const restartCount = r.u32();
+  const safe = r.u8() === 1;
+  const firmwareVersion = r.u64();
+
+  const pcrSelections: PcrSelection[] = [];
+  const count = r.u32();
+  for (let i = 0; i < count; i++) {
+    const alg = r.u16();
+    const bitmap = r.bytes(r.u8());
+    const pcrs: number[] = [];
+    bitmap.forEach((byte, j) => {
+      for (let bit = 0; bit < 8; bit++) {
+        if (byte & (1 << bit)) pcrs.push(j * 8 + bit);
+      }
+    });
+    pcrSelections.push({ hashAlg: TPM_HASH_ALGS[alg] || `0x${alg.toString(16)}`, pcrs });
+  }
+  const pcrDigest = r.tpm2b();
+  if (!r.done()) throw new Error("trailing bytes");
+
+  return { qualifiedSigner, extraData, clock, resetCount, restartCount, safe, firmwareVersion, pcrSelections, pcrDigest };
+}
+
+function verifyTpmSignature(quoted: Buffer, signature: Buffer, key: KeyObject): boolean {
+  const r = new TpmReader(signature);
+  const sigAlg = r.u16();
+  const hash = TPM_HASH_ALGS[r.u16()];
+  if (!hash) throw new Error("unsupported hash algorithm");
+
+  if (sigAlg === TPM_ALG_RSASSA) {
+    return cryptoVerify(hash, quoted, key, r.tpm2b());
+  }
+  if (sigAlg === TPM_ALG_RSAPSS) {
+    return cryptoVerify(
+      hash,
+      quoted,
+      { key, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_AUTO },
+      r.tpm2b()
+    );
+  }
+  if (sigAlg === TPM_ALG_ECDSA) {
+    const size = Buffer.from(key.export({ format: "jwk" }).x!, "base64url").length;
+    const rBytes = leftPad(r.tpm2b(), size);
+    const sBytes = leftPad(r.tpm2b(), size);
+    return cryptoVerify(hash, quoted, { key, dsaEncoding: "ieee-p1363" }, Buffer.concat([rBytes, sBytes]));
+  }
+  throw new Error(`unsupported signature algorithm 0x${sigAlg.toString(16)}`);
+}
+
+/**
+ * pcrDigest = H(PCR values concatenated in selection order), H being the signing scheme hash
+ */
+function checkPcrDigest(quote: TpmQuote, pcrs: unknown, hash: string): { ok: boolean; reason?: string } {
+  if (!pcrs || typeof pcrs !== "object") {
+    return { ok: false, reason: "pcrs must be an object of index → hex value" };
+  }
+  const values = pcrs as Record<string, unknown>;
+  const parts: Buffer[] = [];
+  for (const selection of quote.pcrSelections) {
+    for (const index of selection.pcrs) {
+      const value = values[String(index)];
+      if (typeof value !== "string") {
+        return { ok: false, reason: `Missing value for selected PCR ${index}` };
+      }
+      parts.push(Buffer.from(value, "hex"));
+    }
+  }
+
+  const computed = createHash(hash).update(Buffer.concat(parts)).digest();
+  if (!bytesEqual(computed, quote.pcrDigest)) {
+    return { ok: false, reason: "PCR values do not match quote pcrDigest" };
+  }
+  return { ok: true };
+}
+
+function leftPad(buf: Buffer, size: number): Buffer {
+  if (buf.length >= size) return buf.subarray(buf.length - size);
+  return Buffer.concat([Buffer.alloc(size - buf.length), buf]);
+}
+
+function bytesEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,75 @@
+import { readdirSync, readFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { X509Certificate } from "node:crypto";
+
+/**
+ * Attestation trust roots
+ *
+ * Roots are read from local files only so attestation verification works
+ * offline and in tests. ATTESTATION_TRUST_ROOTS_DIR (default
+ * ./attestation-roots) contains one subdirectory per attestation kind:
+ *
+ *   android/  Google hardware attestation roots
+ *   apple/    Apple App Attestation Root CA
+ *   tpm/      TPM manufacturer / attestation CA roots
+ *   iaca/     ISO 18013-5 issuing authority (IACA) roots for MDOC proofs
+ *
+ * Each file may be PEM (one or more certificates) or a single DER certificate.
+ */
+
+export type TrustRootKind = "android" | "apple" | "tpm" | "iaca";
+
+const PEM_CERT = /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+
+const cache = new Map<TrustRootKind, X509Certificate[]>();
+
+function rootsDir(): string {
+  return process.env.ATTESTATION_TRUST_ROOTS_DIR || join(process.cwd(), "attestation-roots");
+}
+
+function readCertificates(file: string): X509Certificate[] {
+  const data = readFileSync(file);
+  const pems = data.toString("utf8").match(PEM_CERT);
+  if (pems) {
+    return pems.map((pem) => new X509Certificate(pem));
+  }
+  return [new X509Certificate(data)];
+}
+
+/**
+ * Load trust roots for an attestation kind (cached after first read)
+ * Missing directories yield an empty list, which fails verification closed.
+ */
+export function getTrustRoots(kind: TrustRootKind): X509Certificate[] {
+  const cached = cache.get(kind);
+  if (cached) return cached;
+
+  const dir = join(rootsDir(), kind);
+  const roots: X509Certificate[] = [];
+  let files: string[] = [];
+  try {
+    files = readdirSync(dir).filter((f) => /\.(pem|crt|cer|der)$/i.test(f));
+  } catch {
+    console.warn(`[attestation] No trust roots directory for ${kind}: ${dir}`);
+  }
+
+  for (const file of files) {
+    const path = join(dir, file);
+    if (!statSync(path).isFile()) continue;
+    try {
+      roots.push(...readCertificates(path));
+    } catch (error: any) {
+      console.error(`[attestation] Failed to load trust root ${path}:`, error.message);
+    }
+  }
+
+  cache.set(kind, roots);
+  return roots;
+}
+
+/**
+ * Replace the trust roots for a kind (tests, or roots provisioned at runtime)
+ */
+export function setTrustRoots(kind: TrustRootKind, roots: X509Certificate[]): void {
+  cache.set(kind, roots);
+}
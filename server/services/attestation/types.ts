@@ -0,0 +1,26 @@
+/**
+ * Shared types for hardware attestation verifiers
+ */
+
+export interface AttestationContext {
+  expectedChallenge?: Buffer;   // Relying-party challenge the attestation must bind
+  now?: Date;                   // Validation time for certificate chains
+}
+
+export interface AttestationResult {
+  ok: boolean;
+  code?: string;
+  reason?: string;
+  attestationType?: string;
+  publicKeyDigest?: string;     // Digest of the attested key (JCS JWK, SHA-256 hex)
+  deviceFacts?: Record<string, unknown>;
+}
+
+/**
+ * A verifier for one attestation envelope type
+ * Envelopes are JSON objects whose `type` field selects the verifier.
+ */
+export interface AttestationVerifier {
+  type: string;
+  verify(envelope: Record<string, any>, context: AttestationContext): Promise<AttestationResult>;
+}
@@ -0,0 +1,87 @@
+import { X509Certificate } from "node:crypto";
+
+/**
+ * X.509 attestation chain validation
+ *
+ * Chains are ordered leaf first. Each certificate must be within its validity
+ * window, be issued and signed by the next certificate, and every issuer must
+ * be a CA. The chain must terminate in (or be issued by) a configured trust
+ * root — no system trust store is consulted.
+ */
+
+export interface ChainVerificationResult {
+  ok: boolean;
+  reason?: string;
+  leaf?: X509Certificate;
+  root?: X509Certificate;
+}
+
+/**
+ * Decode a base64/base64url DER certificate list into X509Certificate objects
+ * @throws Error if any entry is not a valid certificate
+ */
+export function decodeCertificateChain(chain: unknown): X509Certificate[] {
+  if (!Array.isArray(chain) || chain.length === 0) {
+    throw new Error("certificate chain must be a non-empty array");
+  }
+  return chain.map((entry, i) => {
+    if (typeof entry !== "string") {
+      throw new Error(`certificate ${i} must be a base64 DER string`);
+    }
+    return new X509Certificate(Buffer.from(entry, "base64"));
+  });
+}
+
+/**
+ * Verify a leaf-first certificate chain against trust roots
+ *
+ * @param chain - Certificates, leaf first
+ * @param trustRoots - Root certificates the chain must anchor to
+ * @param at - Validation time (defaults to now)
+ */
+export function verifyCertificateChain(
+  chain: X509Certificate[],
+  trustRoots: X509Certificate[],
+  at: Date = new Date()
+): ChainVerificationResult {
+  if (chain.length === 0) {
+    return { ok: false, reason: "empty_certificate_chain" };
+  }
+  if (trustRoots.length === 0) {
+    return { ok: false, reason: "no_trust_roots_configured" };
+  }
+
+  for (let i = 0; i < chain.length; i++) {
+    const cert = chain[i];
+    if (!isValidAt(cert, at)) {
+      return { ok: false, reason: `certificate ${i} is outside its validity period` };
+    }
+    const issuer = chain[i + 1];
+    if (!issuer) break;
+    if (!issuer.ca) {
+      return { ok: false, reason: `certificate ${i + 1} is not a CA` };
+    }
+    if (!cert.checkIssued(issuer) || !cert.verify(issuer.publicKey)) {
+      return { ok: false, reason: `certificate ${i} is not signed by certificate ${i + 1}` };
+    }
+  }
+
+  const last = chain[chain.length - 1];
+  const pinned = trustRoots.find((root) => root.fingerprint256 === last.fingerprint256);
+  if (pinned) {
+    return { ok: true, leaf: chain[0], root: pinned };
+  }
+
+  const issuingRoot = trustRoots.find(
+    (root) => root.ca && isValidAt(root, at) && last.checkIssued(root) && last.verify(root.publicKey)
+  );
+  if (!issuingRoot) {
+    return { ok: false, reason: "certificate chain does not anchor to a trusted root" };
+  }
+  return { ok: true, leaf: chain[0], root: issuingRoot };
+}
+
+function isValidAt(cert: X509Certificate, at: Date): boolean {
+  const t = at.getTime();
+  return Date.parse(cert.validFrom) <= t && t <= Date.parse(cert.validTo);
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { windowInclusionProof, windowRoot, type AuditLogReader } from "./audit-checkpoints.js";
+import { leafHash, verifyMerkleProof } from "./merkle.js";
+
+/**
+ * Tests for checkpointed audit Merkle windows (in-memory log, no database)
+ */
+
+const WINDOW = 10;
+
+function memoryLog(size: number): AuditLogReader & { rows: any[] } {
+  const rows = Array.from({ length: size }, (_, i) => ({
+    event_id: `event-${i}`,
+    event_type: i % 2 ? "RECEIPT_ISSUED" : "MINT",
+    asset_id: null,
+    payload: { jti: `jti-${i}` },
+    created_at: new Date(Date.UTC(2026, 0, 1, 0, 0, i)).toISOString(),
+  }));
+  return {
+    rows,
+    async positionOf(eventId) {
+      const position = rows.findIndex((row) => row.event_id === eventId);
+      return position === -1 ? null : position;
+    },
+    async readRange(start, limit) {
+      return rows.slice(start, start + limit);
+    },
+    async count() {
+      return rows.length;
+    },
+  };
+}
+
+describe("audit checkpoint windows", () => {
+  it("proves events logged after the first window", async () => {
+    const log = memoryLog(3 * WINDOW + 5);
+
+    const inclusion = await windowInclusionProof(log, "event-33", WINDOW);
+    expect(inclusion).not.toBeNull();
+    expect(inclusion!.window).toEqual({ index: 3, start: 30, count: 5, capacity: WINDOW });
+    expect(inclusion!.eventIndex).toBe(3);
+    expect(inclusion!.leaf.equals(leafHash(log.rows[33]))).toBe(true);
+
+    const published = await windowRoot(log, 3, WINDOW);
+    expect(published!.root.equals(inclusion!.root)).toBe(true);
+    expect(verifyMerkleProof(inclusion!.leaf, inclusion!.proof, published!.root, inclusion!.eventIndex)).toBe(true);
+  });
+
+  it("keeps full windows' roots stable as the log grows", async () => {
+    const log = memoryLog(2 * WINDOW);
+    const before = await windowRoot(log, 1, WINDOW);
+
+    const grown = memoryLog(4 * WINDOW + 1);
+    expect((await windowRoot(grown, 1, WINDOW))!.root.equals(before!.root)).toBe(true);
+    expect((await windowRoot(grown, undefined, WINDOW))!.window).toMatchObject({ index: 4, count: 1 });
+    expect(await windowRoot(grown, 5, WINDOW)).toBeNull();
+  });
+
+  it("returns null for events that are not logged", async () => {
+    expect(await windowInclusionProof(memoryLog(WINDOW), "event-missing", WINDOW)).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+import { leafHash, merkleProof, merkleRoot } from "./merkle.js";
+
+/**
+ * Checkpointed Merkle windows over the audit log
+ *
+ * The log (ordered by timestamp, then event_id) is cut into consecutive
+ * windows of AUDIT_MERKLE_WINDOW events (default 10000): window k covers
+ * positions k*size .. (k+1)*size - 1. Each window has its own Merkle root, so
+ * an inclusion proof only hashes the window holding the event, however long
+ * the log grows. A full window's root never changes; the newest window's root
+ * grows until it is full.
+ */
+
+const DEFAULT_WINDOW_SIZE = 10000;
+
+export interface AuditLogReader {
+  positionOf(eventId: string): Promise<number | null>;   // 0-based position in log order, null if absent
+  readRange(start: number, limit: number): Promise<any[]>; // Rows in log order
+  count(): Promise<number>;
+}
+
+export interface AuditWindow {
+  index: number;
+  start: number;      // Position of the window's first event
+  count: number;      // Events currently in the window
+  capacity: number;   // Window size (the window is final once count === capacity)
+}
+
+export function auditWindowSize(): number {
+  const size = parseInt(process.env.AUDIT_MERKLE_WINDOW || String(DEFAULT_WINDOW_SIZE), 10);
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new Error(`AUDIT_MERKLE_WINDOW must be a positive integer, got ${process.env.AUDIT_MERKLE_WINDOW}`);
+  }
+  return size;
+}
+
+/**
+ * Root of one window (the newest window when index is omitted)
+ *
+ * @returns Window and root, or null if the window is past the end of the log
+ */
+export async function windowRoot(
+  reader: AuditLogReader,
+  index?: number,
+  capacity = auditWindowSize()
+): Promise<{ window: AuditWindow; root: Buffer } | null> {
+  const total = await reader.count();
+  const windowIndex = index ?? Math.max(0, Math.ceil(total / capacity) - 1);
+  const start = windowIndex * capacity;
+  if (windowIndex < 0 || start >= Math.max(total, 1)) {
+    return null;
+  }
+
+  const rows = await reader.readRange(start, capacity);
+  return {
+    window: { index: windowIndex, start, count: rows.length, capacity },
+    root: merkleRoot(rows.map((row) => leafHash(row))),
+  };
+}
+
+/**
+ * Inclusion proof for an event against the root of its window
+ *
+ * @returns Proof with the hashed event row, or null if the event is not logged
+ */
+export async function windowInclusionProof(
+  reader: AuditLogReader,
+  eventId: string,
+  capacity = auditWindowSize()
+): Promise<{
+  window: AuditWindow;
+  eventIndex: number;   // Index within the window (the leaf index the proof is for)
+  event: any;
+  leaf: Buffer;
+  root: Buffer;
+  proof: Buffer[];
+} | null> {
+  const position = await reader.positionOf(eventId);
+  if (position === null) return null;
+
+  const windowIndex = Math.floor(position / capacity);
+  const start = windowIndex * capacity;
+  const rows = await reader.readRange(start, capacity);
+  const eventIndex = rows.findIndex((row) => row.event_id === eventId);
+  if (eventIndex === -1) return null;
+
+  const leaves = rows.map((row) => leafHash(row));
+  return {
+    window: { index: windowIndex, start, count: rows.length, capacity },
+    eventIndex,
+    event: rows[eventIndex],
+    leaf: leaves[eventIndex],
+    root: merkleRoot(leaves),
+    proof: merkleProof(leaves, eventIndex),
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { verifyChainTxProof } from "./index.js";
+
+/**
+ * Tests for BLOCKCHAIN_TX_PROOF verification using the file-backed mock adapter.
+ */
+
+const dir = mkdtempSync(join(tmpdir(), "par-chain-"));
+const file = join(dir, "chain.json");
+
+const TX_HASH = "0x" + "ab".repeat(32);
+const TOPIC = "0x" + "11".repeat(32);
+
+function writeChain(head: number, blockNumber: number, blockHash: string) {
+  writeFileSync(file, JSON.stringify({
+    "eip155:1": {
+      head,
+      transactions: {
+        [TX_HASH]: {
+          to: "0x00000000000000000000000000000000000000aa",
+          input: "0xdeadbeef",
+          blockNumber,
+          blockHash,
+          status: "success",
+          logs: [{ address: "0x00000000000000000000000000000000000000aa", topics: [TOPIC], data: "0x", logIndex: 3 }],
+        },
+      },
+    },
+  }));
+}
+
+function envelope(expectation: Record<string, unknown>) {
+  return Buffer.from(JSON.stringify({ chainId: "eip155:1", txHash: TX_HASH, expect: expectation }));
+}
+
+describe("verifyChainTxProof (mock adapter)", () => {
+  beforeEach(() => {
+    process.env.CHAIN_ADAPTER = "mock";
+    process.env.CHAIN_MOCK_FILE = file;
+    process.env.CHAIN_MIN_CONFIRMATIONS = "12";
+    writeChain(120, 100, "0xb1");
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.CHAIN_ADAPTER;
+    delete process.env.CHAIN_MOCK_FILE;
+    delete process.env.CHAIN_MIN_CONFIRMATIONS;
+  });
+
+  it("reports inclusion and confirmation depth", async () => {
+    const result = await verifyChainTxProof(envelope({ calldata: "0xDEADBEEF" }));
+    expect(result.ok).toBe(true);
+    expect(result.blockNumber).toBe(100);
+    expect(result.confirmations).toBe(21);
+  });
+
+  it("matches an expected event with wildcard topics", async () => {
+    const result = await verifyChainTxProof(envelope({ event: { topics: [TOPIC, null] } }));
+    expect(result.ok).toBe(true);
+  });
+
+  it("rejects mismatched calldata", async () => {
+    const result = await verifyChainTxProof(envelope({ calldata: "0x00" }));
+    expect(result.code).toBe("CHAIN_TX_MISMATCH");
+  });
+
+  it("rejects shallow transactions", async () => {
+    writeChain(105, 100, "0xb1");
+    const result = await verifyChainTxProof(envelope({ calldata: "0xdeadbeef" }));
+    expect(result.code).toBe("CHAIN_INSUFFICIENT_CONFIRMATIONS");
+  });
+
+  it("detects a reorg against the recorded block", async () => {
+    const recorded = { chainId: "eip155:1", txHash: TX_HASH, blockNumber: 100, blockHash: "0xb1" };
+    writeChain(125, 102, "0xc2");
+    const result = await verifyChainTxProof(envelope({ calldata: "0xdeadbeef" }), recorded);
+    expect(result.ok).toBe(false);
+    expect(result.code).toBe("CHAIN_REORG_DETECTED");
+  });
+});
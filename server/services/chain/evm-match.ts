@@ -0,0 +1,51 @@
+import type { EvmTxView, TxExpectation, TxInclusionResult } from "./types.js";
+
+/**
+ * Check a mined EVM transaction against the expected call or event
+ *
+ * @param tx - Transaction + receipt view
+ * @param head - Current chain head block number
+ * @param expectation - Expected recipient, calldata and/or event
+ */
+export function matchEvmTransaction(
+  tx: EvmTxView,
+  head: number,
+  expectation: TxExpectation
+): TxInclusionResult {
+  const base = {
+    blockNumber: tx.blockNumber,
+    blockHash: tx.blockHash,
+    confirmations: Math.max(0, head - tx.blockNumber + 1),
+  };
+
+  if (tx.status !== "success") {
+    return { ok: false, code: "CHAIN_TX_REVERTED", reason: "Transaction reverted", ...base };
+  }
+
+  if (expectation.to && !hexEqual(tx.to, expectation.to)) {
+    return { ok: false, code: "CHAIN_TX_MISMATCH", reason: "Transaction recipient does not match", ...base };
+  }
+
+  if (expectation.calldata && !hexEqual(tx.input, expectation.calldata)) {
+    return { ok: false, code: "CHAIN_TX_MISMATCH", reason: "Transaction calldata does not match", ...base };
+  }
+
+  if (expectation.event) {
+    const expected = expectation.event;
+    const log = tx.logs.find((l) =>
+      (!expected.address || hexEqual(l.address, expected.address)) &&
+      (!expected.topics || expected.topics.every((t, i) => t === null || hexEqual(l.topics[i], t))) &&
+      (!expected.data || hexEqual(l.data, expected.data))
+    );
+    if (!log) {
+      return { ok: false, code: "CHAIN_TX_MISMATCH", reason: "Expected event not emitted", ...base };
+    }
+    return { ok: true, ...base, logIndex: log.logIndex };
+  }
+
+  return { ok: true, ...base };
+}
+
+function hexEqual(a: string | null | undefined, b: string): boolean {
+  return typeof a === "string" && a.toLowerCase() === b.toLowerCase();
+}
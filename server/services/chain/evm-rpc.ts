@@ -0,0 +1,97 @@
+import { ETH_RPC_URL } from "../did.js";
+import { matchEvmTransaction } from "./evm-match.js";
+import type { ChainAdapter, EvmTxView } from "./types.js";
+
+/**
+ * EVM JSON-RPC chain adapter
+ *
+ * Supports CAIP-2 "eip155:<chainId>" chains. Mainnet (eip155:1) uses the
+ * ETH_RPC_URL endpoint shared with the did:ethr resolver; other chains are
+ * configured with CHAIN_RPC_URLS, a JSON map of chain id → RPC URL.
+ * The endpoint's eth_chainId must match the requested chain.
+ */
+
+const TIMEOUT_MS = parseInt(process.env.CHAIN_RPC_TIMEOUT_MS || "5000", 10);
+
+function rpcUrls(): Record<string, string> {
+  let configured: Record<string, string> = {};
+  if (process.env.CHAIN_RPC_URLS) {
+    try {
+      configured = JSON.parse(process.env.CHAIN_RPC_URLS);
+    } catch {
+      console.error("[chain] CHAIN_RPC_URLS is not valid JSON - ignoring");
+    }
+  }
+  return { "eip155:1": ETH_RPC_URL, ...configured };
+}
+
+async function rpc(url: string, method: string, params: unknown[]): Promise<any> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+      signal: controller.signal,
+    });
+    if (!res.ok) {
+      throw new Error(`rpc_http_${res.status}`);
+    }
+    const body = await res.json();
+    if (body.error) {
+      throw new Error(`rpc_error: ${body.error.message || body.error.code}`);
+    }
+    return body.result;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export const evmRpcAdapter: ChainAdapter = {
+  name: "evm-rpc",
+
+  supports(chainId) {
+    return chainId.startsWith("eip155:") && !!rpcUrls()[chainId];
+  },
+
+  async getTxInclusion(chainId, txHash, expectation) {
+    const url = rpcUrls()[chainId];
+    if (!url) {
+      return { ok: false, code: "CHAIN_UNSUPPORTED", reason: `No RPC endpoint for ${chainId}` };
+    }
+
+    try {
+      const remoteChainId = parseInt(await rpc(url, "eth_chainId", []), 16);
+      if (`eip155:${remoteChainId}` !== chainId) {
+        return { ok: false, code: "CHAIN_ID_MISMATCH", reason: `RPC endpoint serves eip155:${remoteChainId}` };
+      }
+
+      const [tx, receipt, head] = await Promise.all([
+        rpc(url, "eth_getTransactionByHash", [txHash]),
+        rpc(url, "eth_getTransactionReceipt", [txHash]),
+        rpc(url, "eth_blockNumber", []),
+      ]);
+      if (!tx || !receipt || !receipt.blockHash) {
+        return { ok: false, code: "CHAIN_TX_NOT_FOUND", reason: "Transaction is not mined on this chain" };
+      }
+
+      const view: EvmTxView = {
+        to: tx.to,
+        input: tx.input,
+        blockNumber: parseInt(receipt.blockNumber, 16),
+        blockHash: receipt.blockHash,
+        status: receipt.status === "0x1" ? "success" : "reverted",
+        logs: (receipt.logs || []).map((l: any) => ({
+          address: l.address,
+          topics: l.topics,
+          data: l.data,
+          logIndex: parseInt(l.logIndex, 16),
+        })),
+      };
+      return matchEvmTransaction(view, parseInt(head, 16), expectation);
+    } catch (error: any) {
+      return { ok: false, code: "CHAIN_UNAVAILABLE", reason: `Chain query failed: ${error.message}` };
+    }
+  },
+};
@@ -0,0 +1,128 @@
+import { evmRpcAdapter } from "./evm-rpc.js";
+import { mockChainAdapter } from "./mock.js";
+import type { ChainAdapter, TxExpectation } from "./types.js";
+
+export type { ChainAdapter, TxExpectation, TxInclusionResult } from "./types.js";
+
+/**
+ * Blockchain transaction proof verification (BLOCKCHAIN_TX_PROOF)
+ *
+ * Proof bytes are a JSON envelope:
+ * {
+ *   "chainId": "eip155:1",               // CAIP-2 chain id
+ *   "txHash": "0x...",
+ *   "expect": { "to"?, "calldata"?, "event"? },   // calldata and/or event required
+ *   "minConfirmations": 12               // optional, raises the server minimum
+ * }
+ *
+ * CHAIN_ADAPTER selects the adapter (default "evm-rpc"; "mock" for the
+ * file-backed stand-in). CHAIN_MIN_CONFIRMATIONS sets the minimum depth.
+ */
+
+const ADAPTERS = new Map<string, ChainAdapter>();
+
+/**
+ * Register (or replace) a chain adapter by name
+ */
+export function registerChainAdapter(adapter: ChainAdapter): void {
+  ADAPTERS.set(adapter.name, adapter);
+}
+
+registerChainAdapter(evmRpcAdapter);
+registerChainAdapter(mockChainAdapter);
+
+const TX_HASH = /^0x[0-9a-fA-F]{64}$/;
+
+export interface ChainTxProofResult {
+  ok: boolean;
+  code?: string;
+  reason?: string;
+  adapter?: string;
+  chainId?: string;
+  txHash?: string;
+  blockNumber?: number;
+  blockHash?: string;
+  confirmations?: number;
+}
+
+/**
+ * Inclusion recorded at mint, used to detect reorgs on re-verification
+ */
+export interface RecordedInclusion {
+  chainId?: unknown;
+  txHash?: unknown;
+  blockNumber?: unknown;
+  blockHash?: unknown;
+}
+
+/**
+ * Verify a transaction proof envelope through the configured chain adapter
+ *
+ * @param bytes - JSON envelope bytes
+ * @param recorded - Inclusion recorded at mint; the transaction must still be in that block
+ */
+export async function verifyChainTxProof(
+  bytes: Uint8Array,
+  recorded?: RecordedInclusion
+): Promise<ChainTxProofResult> {
+  let envelope: any;
+  try {
+    envelope = JSON.parse(Buffer.from(bytes).toString("utf8"));
+  } catch {
+    return { ok: false, code: "CHAIN_PROOF_INVALID", reason: "Transaction proof is not valid JSON" };
+  }
+
+  if (!envelope || typeof envelope.chainId !== "string" || typeof envelope.txHash !== "string" || !TX_HASH.test(envelope.txHash)) {
+    return { ok: false, code: "CHAIN_PROOF_INVALID", reason: "chainId and a 32-byte hex txHash are required" };
+  }
+  const expectation: TxExpectation = envelope.expect || {};
+  if (!expectation.calldata && !expectation.event) {
+    return { ok: false, code: "CHAIN_PROOF_INVALID", reason: "expect.calldata or expect.event is required" };
+  }
+
+  const adapterName = process.env.CHAIN_ADAPTER || "evm-rpc";
+  const adapter = ADAPTERS.get(adapterName);
+  if (!adapter || !adapter.supports(envelope.chainId)) {
+    return { ok: false, code: "CHAIN_UNSUPPORTED", reason: `Chain ${envelope.chainId} not supported by ${adapterName}` };
+  }
+
+  if (recorded && (recorded.chainId !== envelope.chainId || String(recorded.txHash).toLowerCase() !== envelope.txHash.toLowerCase())) {
+    return { ok: false, code: "CHAIN_PROOF_MISMATCH", reason: "Transaction differs from the one recorded at mint" };
+  }
+
+  const inclusion = await adapter.getTxInclusion(envelope.chainId, envelope.txHash, expectation);
+  const result: ChainTxProofResult = {
+    ok: inclusion.ok,
+    code: inclusion.code,
+    reason: inclusion.reason,
+    adapter: adapter.name,
+    chainId: envelope.chainId,
+    txHash: envelope.txHash.toLowerCase(),
+    blockNumber: inclusion.blockNumber,
+    blockHash: inclusion.blockHash,
+    confirmations: inclusion.confirmations,
+  };
+  if (!inclusion.ok) return result;
+
+  if (recorded && (recorded.blockNumber !== inclusion.blockNumber || String(recorded.blockHash).toLowerCase() !== inclusion.blockHash?.toLowerCase())) {
+    return {
+      ...result,
+      ok: false,
+      code: "CHAIN_REORG_DETECTED",
+      reason: `Transaction moved from block ${recorded.blockNumber} to ${inclusion.blockNumber} (${inclusion.blockHash})`,
+    };
+  }
+
+  const serverMinimum = parseInt(process.env.CHAIN_MIN_CONFIRMATIONS || "12", 10);
+  const required = Math.max(serverMinimum, Number.isSafeInteger(envelope.minConfirmations) ? envelope.minConfirmations : 0);
+  if ((inclusion.confirmations ?? 0) < required) {
+    return {
+      ...result,
+      ok: false,
+      code: "CHAIN_INSUFFICIENT_CONFIRMATIONS",
+      reason: `Transaction has ${inclusion.confirmations} confirmations, ${required} required`,
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,63 @@
+import { readFileSync } from "node:fs";
+import { matchEvmTransaction } from "./evm-match.js";
+import type { ChainAdapter, EvmTxView } from "./types.js";
+
+/**
+ * File-backed mock chain adapter
+ *
+ * Stand-in for tests and air-gapped deployments. CHAIN_MOCK_FILE points to a
+ * JSON file, re-read on every query so a reorg can be simulated by editing it:
+ *
+ * {
+ *   "eip155:1": {
+ *     "head": 120,
+ *     "transactions": {
+ *       "0x<txHash>": {
+ *         "to": "0x...", "input": "0x...",
+ *         "blockNumber": 100, "blockHash": "0x...",
+ *         "status": "success",
+ *         "logs": [{ "address": "0x...", "topics": ["0x..."], "data": "0x", "logIndex": 0 }]
+ *       }
+ *     }
+ *   }
+ * }
+ */
+
+interface MockChain {
+  head: number;
+  transactions: Record<string, EvmTxView>;
+}
+
+function loadChains(): Record<string, MockChain> {
+  const file = process.env.CHAIN_MOCK_FILE;
+  if (!file) return {};
+  try {
+    return JSON.parse(readFileSync(file, "utf8"));
+  } catch (error: any) {
+    console.error("[chain] Failed to load CHAIN_MOCK_FILE:", error.message);
+    return {};
+  }
+}
+
+export const mockChainAdapter: ChainAdapter = {
+  name: "mock",
+
+  supports(chainId) {
+    return !!loadChains()[chainId];
+  },
+
+  async getTxInclusion(chainId, txHash, expectation) {
+    const chain = loadChains()[chainId];
+    if (!chain) {
+      return { ok: false, code: "CHAIN_UNSUPPORTED", reason: `Mock chain ${chainId} not configured` };
+    }
+    const entry = Object.entries(chain.transactions || {}).find(
+      ([hash]) => hash.toLowerCase() === txHash.toLowerCase()
+    );
+    if (!entry) {
+      return { ok: false, code: "CHAIN_TX_NOT_FOUND", reason: "Transaction is not mined on this chain" };
+    }
+    const tx = entry[1];
+    return matchEvmTransaction({ ...tx, logs: tx.logs || [] }, chain.head, expectation);
+  },
+};
@@ -0,0 +1,49 @@
+/**
+ * Shared types for blockchain transaction proof adapters
+ */
+
+/**
+ * What the transaction must contain to count as the proven action
+ * Hex values are 0x-prefixed and compared case-insensitively.
+ */
+export interface TxExpectation {
+  to?: string;                    // Contract / recipient address
+  calldata?: string;              // Exact transaction input
+  event?: {
+    address?: string;             // Emitting contract
+    topics?: (string | null)[];   // Positional topics, null matches any
+    data?: string;                // Exact log data
+  };
+}
+
+export interface TxInclusionResult {
+  ok: boolean;
+  code?: string;
+  reason?: string;
+  blockNumber?: number;
+  blockHash?: string;
+  confirmations?: number;
+  logIndex?: number;              // Matching log when an event was expected
+}
+
+/**
+ * Minimal EVM-style transaction view shared by the RPC and mock adapters
+ */
+export interface EvmTxView {
+  to: string | null;
+  input: string;
+  blockNumber: number;
+  blockHash: string;
+  status: "success" | "reverted";
+  logs: { address: string; topics: string[]; data: string; logIndex?: number }[];
+}
+
+/**
+ * A chain adapter answers inclusion and depth queries for one family of chains
+ * Chain ids use CAIP-2 notation, e.g. "eip155:1".
+ */
+export interface ChainAdapter {
+  name: string;
+  supports(chainId: string): boolean;
+  getTxInclusion(chainId: string, txHash: string, expectation: TxExpectation): Promise<TxInclusionResult>;
+}
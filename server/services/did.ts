@@ -1,28 +1,47 @@
 import { Resolver } from "did-resolver";
 import { getResolver as ethrGetResolver } from "ethr-did-resolver";
 import { getResolver as webGetResolver } from "web-did-resolver";
+import { varint } from "multiformats";
+import { base58btc } from "multiformats/bases/base58";
+import { ECDH } from "crypto";
+
+// Ethereum mainnet JSON-RPC endpoint (shared with the EVM chain adapter)
+export const ETH_RPC_URL = process.env.ETH_RPC_URL || "https://cloudflare-eth.com";
 
 // Initialize DID resolvers for different methods
 const ethr = ethrGetResolver({
   networks: [
     {
       name: "mainnet",
-      rpcUrl: process.env.ETH_RPC_URL || "https://cloudflare-eth.com",
+      rpcUrl: ETH_RPC_URL,
     },
   ],
 });
 
 const web = webGetResolver();
 
+// did:key is resolved offline - the identifier itself encodes the public key
+const key = {
+  key: async (did: string) => {
+    const didDocument = didKeyDocument(did);
+    return {
+      didResolutionMetadata: didDocument ? { contentType: "application/did+ld+json" } : { error: "invalidDid" },
+      didDocument,
+      didDocumentMetadata: {},
+    };
+  },
+};
+
 // Create universal DID resolver
 const resolver = new Resolver({
   ...ethr,
   ...web,
-  // Add more method resolvers as needed (key, ion, etc.)
+  ...key,
+  // Add more method resolvers as needed (ion, etc.)
 });
 
 // Method allow-list for v1 (block unsupported methods early)
-const ALLOWED_METHODS = new Set(['did:web', 'did:ethr']);
+const ALLOWED_METHODS = new Set(['did:web', 'did:ethr', 'did:key']);
 
 // Simple in-memory cache with TTL
 const CACHE = new Map<string, { doc: any; ts: number }>();
@@ -59,7 +78,7 @@ export interface DidCheckResult {
  * Features:
  * - 3-second timeout to prevent stalls
  * - 10-minute cache to reduce resolver calls
- * - Method allow-list (web, ethr only in v1)
+ * - Method allow-list (web, ethr, key in v1)
  * - Verification method validation
  * 
  * @param did - Decentralized Identifier to check
@@ -160,3 +179,195 @@ export async function isDidUsable(did: string, timeoutMs: number = 3000): Promis
 export function clearDidCache() {
   CACHE.clear();
 }
+
+export interface VerificationMethodResult {
+  ok: boolean;
+  code?: string;
+  reason?: string;
+  verificationMethod?: any;
+  publicKeyJwk?: JsonWebKey;
+}
+
+/**
+ * Dereference a DID URL (did:...#fragment) to a verification method
+ *
+ * Resolves the controlling DID document, locates the verification method by
+ * id (absolute or relative fragment) and, when a relationship is given,
+ * enforces that the method is authorized for it (e.g. assertionMethod).
+ *
+ * @param didUrl - DID URL of the verification method
+ * @param options - Required verification relationship and resolver timeout
+ * @returns Verification method and its public key as a JWK
+ */
+export async function resolveVerificationMethod(
+  didUrl: string,
+  options: { relationship?: string; timeoutMs?: number } = {}
+): Promise<VerificationMethodResult> {
+  const [did, fragment] = didUrl.split("#");
+  if (!did || !did.startsWith("did:") || !fragment) {
+    return {
+      ok: false,
+      code: "INVALID_VERIFICATION_METHOD",
+      reason: "Verification method must be a DID URL with a fragment",
+    };
+  }
+
+  let doc: any;
+  const cached = CACHE.get(did);
+  if (cached && Date.now() - cached.ts < TTL_MS) {
+    doc = cached.doc;
+  } else {
+    try {
+      const result = await resolveDid(did, options.timeoutMs);
+      if (!result?.didDocument || result.didResolutionMetadata?.error) {
+        return {
+          ok: false,
+          code: "DID_NOT_RESOLVED",
+          reason: result?.didResolutionMetadata?.error || "DID resolution failed - document not found",
+        };
+      }
+      doc = result.didDocument;
+      CACHE.set(did, { doc, ts: Date.now() });
+    } catch (e: any) {
+      console.error("[did-resolver]", did.split(':').slice(0, 2).join(':'), "error:", e.message);
+      return {
+        ok: false,
+        code: "DID_RESOLUTION_ERROR",
+        reason: "Failed to resolve DID - resolver unavailable or network error",
+      };
+    }
+  }
+
+  const matches = (id: unknown) =>
+    typeof id === "string" && (id === didUrl || id === `#${fragment}` || id === `${doc.id}#${fragment}`);
+
+  const methods: any[] = [...(doc.verificationMethod || [])];
+  for (const rel of ["authentication", "assertionMethod", "keyAgreement", "capabilityInvocation", "capabilityDelegation"]) {
+    for (const entry of doc[rel] || []) {
+      if (entry && typeof entry === "object") methods.push(entry);
+    }
+  }
+
+  const vm = methods.find((m) => matches(m?.id));
+  if (!vm) {
+    return {
+      ok: false,
+      code: "VERIFICATION_METHOD_NOT_FOUND",
+      reason: `Verification method #${fragment} not found in DID document`,
+    };
+  }
+
+  if (options.relationship) {
+    const authorized = (doc[options.relationship] || []).some((entry: any) =>
+      matches(typeof entry === "string" ? entry : entry?.id)
+    );
+    if (!authorized) {
+      return {
+        ok: false,
+        code: "VERIFICATION_RELATIONSHIP_MISSING",
+        reason: `Verification method #${fragment} is not authorized for ${options.relationship}`,
+      };
+    }
+  }
+
+  const publicKeyJwk = verificationMethodToJwk(vm);
+  if (!publicKeyJwk) {
+    return {
+      ok: false,
+      code: "UNSUPPORTED_VERIFICATION_METHOD",
+      reason: `Unsupported verification method type: ${vm.type}`,
+    };
+  }
+
+  return { ok: true, verificationMethod: vm, publicKeyJwk };
+}
+
+// Multicodec public key prefixes → JWK curve parameters
+const MULTICODEC_KEYS: Record<number, { kty: "OKP" | "EC"; crv: string; ecdhCurve?: string }> = {
+  0xed: { kty: "OKP", crv: "Ed25519" },
+  0xe7: { kty: "EC", crv: "secp256k1", ecdhCurve: "secp256k1" },
+  0x1200: { kty: "EC", crv: "P-256", ecdhCurve: "prime256v1" },
+  0x1201: { kty: "EC", crv: "P-384", ecdhCurve: "secp384r1" },
+};
+
+/**
+ * Decode a multibase (base58btc) multicodec public key into a JWK
+ * Supports Ed25519, secp256k1, P-256 and P-384 (compressed points)
+ */
+export function multikeyToJwk(publicKeyMultibase: string): JsonWebKey | null {
+  try {
+    const bytes = base58btc.decode(publicKeyMultibase);
+    const [code, prefixLength] = varint.decode(bytes);
+    const params = MULTICODEC_KEYS[code];
+    if (!params) return null;
+    const raw = Buffer.from(bytes.subarray(prefixLength));
+
+    if (params.kty === "OKP") {
+      return { kty: "OKP", crv: params.crv, x: raw.toString("base64url") };
+    }
+
+    const uncompressed = ECDH.convertKey(raw, params.ecdhCurve!, undefined, undefined, "uncompressed") as Buffer;
+    const coordinateLength = (uncompressed.length - 1) / 2;
+    return {
+      kty: "EC",
+      crv: params.crv,
+      x: uncompressed.subarray(1, 1 + coordinateLength).toString("base64url"),
+      y: uncompressed.subarray(1 + coordinateLength).toString("base64url"),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the DID document for a did:key identifier
+ * did:key:z<multikey> → a single Multikey verification method (#z<multikey>)
+ * authorized for every verification relationship.
+ *
+ * @returns DID document, or null if the key is not a supported multikey
+ */
+export function didKeyDocument(did: string): any | null {
+  const multibase = did.startsWith("did:key:") ? did.slice("did:key:".length) : "";
+  if (!multibase.startsWith("z") || !multikeyToJwk(multibase)) {
+    return null;
+  }
+
+  const vmId = `${did}#${multibase}`;
+  return {
+    "@context": ["https://www.w3.org/ns/did/v1", "https://w3id.org/security/multikey/v1"],
+    id: did,
+    verificationMethod: [{ id: vmId, type: "Multikey", controller: did, publicKeyMultibase: multibase }],
+    authentication: [vmId],
+    assertionMethod: [vmId],
+    capabilityInvocation: [vmId],
+    capabilityDelegation: [vmId],
+  };
+}
+
+/**
+ * Convert a DID document verification method to a public JWK
+ * Handles publicKeyJwk, multicodec publicKeyMultibase (Multikey, Ed25519VerificationKey2020)
+ * and legacy publicKeyBase58 (Ed25519VerificationKey2018)
+ */
+export function verificationMethodToJwk(vm: any): JsonWebKey | null {
+  if (vm?.publicKeyJwk) {
+    // Strip any private members a misconfigured document might carry
+    const { d, p, q, dp, dq, qi, ...publicJwk } = vm.publicKeyJwk;
+    return publicJwk;
+  }
+
+  if (typeof vm?.publicKeyMultibase === "string") {
+    return multikeyToJwk(vm.publicKeyMultibase);
+  }
+
+  if (typeof vm?.publicKeyBase58 === "string" && vm.type === "Ed25519VerificationKey2018") {
+    try {
+      const raw = base58btc.decode(`z${vm.publicKeyBase58}`);
+      return { kty: "OKP", crv: "Ed25519", x: Buffer.from(raw).toString("base64url") };
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,59 @@
+import { readFileSync } from "node:fs";
+import { contexts as credentialsContexts } from "@digitalbazaar/credentials-context";
+import dataIntegrityContext from "@digitalbazaar/data-integrity-context";
+import multikeyContext from "@digitalbazaar/multikey-context";
+
+/**
+ * Offline JSON-LD document loader
+ *
+ * Linked Data proof verification must never fetch contexts over the network:
+ * a remote context can silently change the meaning of a signed document, and
+ * the verifier has to work air-gapped. Only bundled contexts are resolvable.
+ *
+ * Bundled: VC Data Model v1/v2, Data Integrity v1/v2, Multikey v1.
+ * Extra contexts can be supplied via LD_EXTRA_CONTEXTS_FILE, a JSON file
+ * mapping context URL → context document.
+ */
+
+const BUNDLED_CONTEXTS = new Map<string, object>([
+  ...Array.from(credentialsContexts.entries()),
+  ...Array.from(dataIntegrityContext.contexts.entries()),
+  ...Array.from(multikeyContext.contexts.entries()),
+]);
+
+function loadExtraContexts(): Map<string, object> {
+  const file = process.env.LD_EXTRA_CONTEXTS_FILE;
+  if (!file) return new Map();
+
+  try {
+    const parsed = JSON.parse(readFileSync(file, "utf8"));
+    return new Map(Object.entries(parsed) as [string, object][]);
+  } catch (error: any) {
+    console.error("[ld-contexts] Failed to load LD_EXTRA_CONTEXTS_FILE:", error.message);
+    return new Map();
+  }
+}
+
+const CONTEXTS = new Map<string, object>([
+  ...Array.from(BUNDLED_CONTEXTS.entries()),
+  ...Array.from(loadExtraContexts().entries()),
+]);
+
+/**
+ * Register an additional context at runtime (e.g. a partner-specific vocabulary)
+ */
+export function registerContext(url: string, document: object): void {
+  CONTEXTS.set(url, document);
+}
+
+/**
+ * jsonld.js-compatible document loader backed by the bundled context map
+ * @throws Error if the context is not bundled (fail closed, no network)
+ */
+export async function offlineDocumentLoader(url: string) {
+  const document = CONTEXTS.get(url);
+  if (!document) {
+    throw new Error(`context_not_bundled: ${url}`);
+  }
+  return { contextUrl: undefined, documentUrl: url, document };
+}
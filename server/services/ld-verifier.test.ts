@@ -0,0 +1,205 @@
+import { describe, it, expect } from "vitest";
+import { createHash, createPrivateKey, generateKeyPairSync, sign } from "node:crypto";
+import { base58btc } from "multiformats/bases/base58";
+import { jcs } from "../plugins/canonicalize.js";
+import { verifyLdProof } from "../proof-verification.js";
+import { multikeyToJwk, resolveVerificationMethod } from "./did.js";
+import { verifyDataIntegrityProof } from "./ld-verifier.js";
+
+/**
+ * Tests for W3C Data Integrity proofs and did:key multikey decoding (offline)
+ *
+ * Known-answer vectors were produced with fixed keys: Ed25519 seed 0x11 * 32
+ * and P-256 private scalar 0x22 * 32.
+ */
+
+const ED25519_MULTIKEY = "z6MktULudTtAsAhRegYPiZ6631RV3viv12qd4GQF8z1xB22S";
+const P256_MULTIKEY = "zDnaex62me84JZnkEzmeYRa8FCLNe7y1asoSwBMK26GBYpL7c";
+const ED25519_DID = `did:key:${ED25519_MULTIKEY}`;
+const P256_DID = `did:key:${P256_MULTIKEY}`;
+
+const VECTORS = [
+  {
+    cryptosuite: "eddsa-rdfc-2022",
+    did: ED25519_DID,
+    multikey: ED25519_MULTIKEY,
+    proofValue: "z41ZLq1wVb4br2t8thZWZEDyJNkLa79bVo7YuD5CC3Uux9NazZfmtXmaDs8wY8m23bgEQgWzYXrqzvcUyLiENRnDC",
+  },
+  {
+    cryptosuite: "eddsa-jcs-2022",
+    did: ED25519_DID,
+    multikey: ED25519_MULTIKEY,
+    proofValue: "z3GZa3BEmnk9AUN1zx4FQiE9Xmrpq6YJ54WdGnYmpC71VihkmVh5kDNy3LTbG9fdvLTajVvD9nzaPrvQhC378gw1p",
+  },
+  {
+    cryptosuite: "ecdsa-jcs-2019",
+    did: P256_DID,
+    multikey: P256_MULTIKEY,
+    proofValue: "z2L4thU5Hh9ZQ917HYoGqugNtsaoYGw4xiM4PS2o2WBPsekUaZ3LYs9Gnyd7Z1WJj4ngSYLmPa7duQxurc8PPSTGB",
+  },
+];
+
+function credential(issuer: string) {
+  return {
+    "@context": ["https://www.w3.org/ns/credentials/v2"],
+    id: "urn:uuid:58172aac-d8ba-11ed-83dd-0b3aef56cc33",
+    type: ["VerifiableCredential"],
+    issuer,
+    validFrom: "2026-01-01T00:00:00Z",
+    credentialSubject: { id: "did:example:holder", name: "Alice" },
+  };
+}
+
+function securedVector(vector: typeof VECTORS[number]) {
+  return {
+    ...credential(vector.did),
+    proof: {
+      type: "DataIntegrityProof",
+      cryptosuite: vector.cryptosuite,
+      created: "2026-01-01T00:00:00Z",
+      verificationMethod: `${vector.did}#${vector.multikey}`,
+      proofPurpose: "assertionMethod",
+      proofValue: vector.proofValue,
+    },
+  };
+}
+
+function ed25519DidKey() {
+  const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+  const raw = Buffer.from(publicKey.export({ format: "jwk" }).x as string, "base64url");
+  const multikey = base58btc.encode(Uint8Array.from([0xed, 0x01, ...Array.from(raw)]));
+  return { did: `did:key:${multikey}`, multikey, privateKey };
+}
+
+// eddsa-jcs-2022 signing, for documents the vectors do not cover
+function signJcs(document: Record<string, any>, privateKey: ReturnType<typeof createPrivateKey>, proof: Record<string, any>) {
+  const proofConfig = { type: "DataIntegrityProof", cryptosuite: "eddsa-jcs-2022", ...proof, "@context": document["@context"] };
+  const hash = (value: object) => createHash("sha256").update(jcs(value), "utf8").digest();
+  const signature = sign(null, Buffer.concat([hash(proofConfig), hash(document)]), privateKey);
+  const { "@context": _context, ...embedded } = proofConfig;
+  return { ...document, proof: { ...embedded, proofValue: base58btc.encode(signature) } };
+}
+
+describe("Data Integrity cryptosuites", () => {
+  it.each(VECTORS)("verifies the $cryptosuite known-answer vector through did:key", async (vector) => {
+    const result = await verifyDataIntegrityProof(securedVector(vector));
+
+    expect(result).toMatchObject({
+      ok: true,
+      cryptosuite: vector.cryptosuite,
+      verificationMethod: `${vector.did}#${vector.multikey}`,
+      proofPurpose: "assertionMethod",
+    });
+  });
+
+  it.each(VECTORS)("rejects a tampered $cryptosuite document", async (vector) => {
+    const tampered = securedVector(vector);
+    tampered.credentialSubject.name = "Mallory";
+
+    expect((await verifyDataIntegrityProof(tampered)).code).toBe("LD_SIGNATURE_INVALID");
+  });
+
+  it.each(VECTORS)("rejects tampered $cryptosuite proof options", async (vector) => {
+    const tampered = securedVector(vector);
+    tampered.proof.created = "2026-01-02T00:00:00Z";
+
+    expect((await verifyDataIntegrityProof(tampered)).code).toBe("LD_SIGNATURE_INVALID");
+  });
+
+  it("rejects a key that does not match the cryptosuite", async () => {
+    const mismatched = securedVector(VECTORS[1]);
+    mismatched.proof.verificationMethod = `${P256_DID}#${P256_MULTIKEY}`;
+
+    expect((await verifyDataIntegrityProof(mismatched)).code).toBe("LD_KEY_SUITE_MISMATCH");
+  });
+});
+
+describe("Data Integrity proof purpose", () => {
+  it("rejects a proof made for another purpose", async () => {
+    const { did, multikey, privateKey } = ed25519DidKey();
+    const secured = signJcs(credential(did), privateKey, {
+      verificationMethod: `${did}#${multikey}`,
+      proofPurpose: "authentication",
+    });
+
+    expect((await verifyDataIntegrityProof(secured)).code).toBe("LD_PROOF_PURPOSE_MISMATCH");
+    expect((await verifyDataIntegrityProof(secured, { expectedProofPurpose: "authentication" })).ok).toBe(true);
+  });
+
+  it("rejects a purpose the DID document does not authorize the key for", async () => {
+    const { did, multikey, privateKey } = ed25519DidKey();
+    const secured = signJcs(credential(did), privateKey, {
+      verificationMethod: `${did}#${multikey}`,
+      proofPurpose: "keyAgreement",
+    });
+
+    const result = await verifyDataIntegrityProof(secured, { expectedProofPurpose: "keyAgreement" });
+    expect(result.code).toBe("VERIFICATION_RELATIONSHIP_MISSING");
+  });
+});
+
+describe("Data Integrity controller binding", () => {
+  it("rejects a credential signed by a key its issuer does not control", async () => {
+    const attacker = ed25519DidKey();
+    const secured = signJcs(credential(ED25519_DID), attacker.privateKey, {
+      verificationMethod: `${attacker.did}#${attacker.multikey}`,
+      proofPurpose: "assertionMethod",
+    });
+
+    // The proof itself is valid; the issuer binding is what fails
+    expect((await verifyDataIntegrityProof(secured)).ok).toBe(true);
+    const result = await verifyLdProof(Buffer.from(JSON.stringify(secured)));
+    expect(result.ok).toBe(false);
+    expect(result.reason).toMatch(/not controlled by issuer/);
+  });
+
+  it("rejects a verification method that is not in the controller's DID document", async () => {
+    const attacker = ed25519DidKey();
+    const secured = signJcs(credential(ED25519_DID), attacker.privateKey, {
+      verificationMethod: `${ED25519_DID}#${attacker.multikey}`,
+      proofPurpose: "assertionMethod",
+    });
+
+    expect((await verifyDataIntegrityProof(secured)).code).toBe("VERIFICATION_METHOD_NOT_FOUND");
+  });
+
+  it("accepts the issuer's own key and checks the registered issuer DID", async () => {
+    const secured = securedVector(VECTORS[1]);
+    const bytes = Buffer.from(JSON.stringify(secured));
+
+    expect((await verifyLdProof(bytes, { issuerDid: ED25519_DID })).ok).toBe(true);
+    expect((await verifyLdProof(bytes, { issuerDid: P256_DID })).reason).toMatch(/Issuer mismatch/);
+  });
+});
+
+describe("multikey decoding", () => {
+  it("decodes Ed25519 and compressed P-256 multikeys", () => {
+    expect(multikeyToJwk(ED25519_MULTIKEY)).toEqual({
+      kty: "OKP",
+      crv: "Ed25519",
+      x: "0EqyMnQrtKs6E2i9RhXk5tAiSrcaAWuvhSCjMsl3hzc",
+    });
+    expect(multikeyToJwk(P256_MULTIKEY)).toEqual({
+      kty: "EC",
+      crv: "P-256",
+      x: "1lqTl3yqPRsIGFL_V6eeRl8WYFdzBLrq1QXdOkhYnPM",
+      y: "UBheiVNy32Ih6joTdVfkc_3bZ1XwW9UHw8Uz_OnJEoU",
+    });
+  });
+
+  it("returns null for unknown codecs and malformed input", () => {
+    // multicodec x25519-pub (0xec) is a key agreement key, not a signing key
+    expect(multikeyToJwk(base58btc.encode(Uint8Array.from([0xec, 0x01, ...new Array(32).fill(1)])))).toBeNull();
+    expect(multikeyToJwk(base58btc.encode(Uint8Array.from([0x80, 0x24, 0x02, 0x01])))).toBeNull();
+    expect(multikeyToJwk("not-multibase")).toBeNull();
+  });
+
+  it("dereferences did:key verification methods", async () => {
+    const result = await resolveVerificationMethod(`${P256_DID}#${P256_MULTIKEY}`, { relationship: "assertionMethod" });
+    expect(result.ok).toBe(true);
+    expect(result.publicKeyJwk).toEqual(multikeyToJwk(P256_MULTIKEY));
+
+    expect((await resolveVerificationMethod(P256_DID)).code).toBe("INVALID_VERIFICATION_METHOD");
+    expect((await resolveVerificationMethod(`${P256_DID}#other`)).code).toBe("VERIFICATION_METHOD_NOT_FOUND");
+  });
+});
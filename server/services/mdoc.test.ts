@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { createHash, randomBytes, sign, type KeyObject } from "node:crypto";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { encode as encodeCbor, Tag } from "cbor-x";
+import { issueChain, testKeyPair } from "./attestation/test-certificates.js";
+import { MDL_NAMESPACE, verifyMdocDeviceResponse } from "./mdoc.js";
+import { mdocFormat } from "./proof-formats/mdoc.js";
+import { jwkDigestHex } from "../utils/digest.js";
+
+/**
+ * Tests for ISO 18013-5 DeviceResponse verification against fixture IACA roots
+ */
+
+const DOC_TYPE = `${MDL_NAMESPACE}.mDL`;
+const DAY = 24 * 60 * 60 * 1000;
+
+const iaca = issueChain("Test IACA Root", { subject: "Test Document Signer" });
+const deviceKey = testKeyPair();
+
+const ELEMENTS: Record<string, unknown> = {
+  family_name: "Doe",
+  birth_date: "1990-04-01",
+  age_over_18: true,
+  age_over_21: false,
+};
+
+interface FixtureOptions {
+  validFrom?: Date;
+  validUntil?: Date;
+  signer?: { der: Buffer; privateKey: KeyObject }[];   // x5chain, document signer first
+  tamper?: (items: Record<string, any>[]) => void;
+}
+
+function deviceResponse(options: FixtureOptions = {}): Buffer {
+  const items = Object.entries(ELEMENTS).map(([elementIdentifier, elementValue], digestID) => ({
+    digestID,
+    random: randomBytes(16),
+    elementIdentifier,
+    elementValue,
+  }));
+  const digests = new Map(items.map((item) => [
+    item.digestID,
+    createHash("sha256").update(encodeCbor(new Tag(encodeCbor(item), 24))).digest(),
+  ]));
+  options.tamper?.(items);
+
+  const jwk = deviceKey.publicKey.export({ format: "jwk" });
+  const mso = {
+    version: "1.0",
+    digestAlgorithm: "SHA-256",
+    valueDigests: { [MDL_NAMESPACE]: digests },
+    deviceKeyInfo: {
+      deviceKey: new Map<number, unknown>([
+        [1, 2], [-1, 1], [-2, Buffer.from(jwk.x!, "base64url")], [-3, Buffer.from(jwk.y!, "base64url")],
+      ]),
+    },
+    docType: DOC_TYPE,
+    validityInfo: {
+      signed: new Date(Date.now() - DAY),
+      validFrom: options.validFrom || new Date(Date.now() - DAY),
+      validUntil: options.validUntil || new Date(Date.now() + 365 * DAY),
+    },
+  };
+
+  const chain = options.signer || iaca.chain;
+  const protectedHeader = encodeCbor(new Map([[1, -7]]));             // alg: ES256
+  const payload = encodeCbor(new Tag(encodeCbor(mso), 24));
+  const sigStructure = encodeCbor(["Signature1", protectedHeader, Buffer.alloc(0), payload]);
+  const signature = sign("sha256", sigStructure, { key: chain[0].privateKey, dsaEncoding: "ieee-p1363" });
+  const issuerAuth = [protectedHeader, new Map([[33, chain.map((cert) => cert.der)]]), payload, signature];
+
+  return encodeCbor({
+    version: "1.0",
+    documents: [{
+      docType: DOC_TYPE,
+      issuerSigned: {
+        nameSpaces: { [MDL_NAMESPACE]: items.map((item) => new Tag(encodeCbor(item), 24)) },
+        issuerAuth,
+      },
+    }],
+    status: 0,
+  });
+}
+
+beforeAll(() => {
+  const dir = mkdtempSync(join(tmpdir(), "iaca-roots-"));
+  mkdirSync(join(dir, "iaca"));
+  writeFileSync(join(dir, "iaca", "root.pem"), iaca.root.certificate.toString());
+  process.env.ATTESTATION_TRUST_ROOTS_DIR = dir;
+});
+
+describe("mdoc DeviceResponse verification", () => {
+  it("verifies the MSO against the IACA root and derives age_over booleans", async () => {
+    const result = await verifyMdocDeviceResponse(deviceResponse());
+
+    expect(result).toMatchObject({
+      ok: true,
+      algorithm: "ES256",
+      docType: DOC_TYPE,
+      deviceKeyDigest: jwkDigestHex(deviceKey.publicKey.export({ format: "jwk" })),
+      ageOver: { age_over_18: true, age_over_21: false },
+    });
+  });
+
+  it("rejects a document signer from another IACA", async () => {
+    const rogue = issueChain("Test IACA Root", { subject: "Test Document Signer" });
+
+    const result = await verifyMdocDeviceResponse(deviceResponse({ signer: rogue.chain }));
+    expect(result.code).toBe("MDOC_ISSUER_UNTRUSTED");
+  });
+
+  it("rejects an MSO signed by a key other than the document signer certificate", async () => {
+    const signer = { der: iaca.leaf.der, privateKey: testKeyPair().privateKey };
+
+    const result = await verifyMdocDeviceResponse(deviceResponse({ signer: [signer, iaca.intermediate] }));
+    expect(result.code).toBe("MDOC_SIGNATURE_INVALID");
+  });
+
+  it("rejects elements that do not match their value digests", async () => {
+    const response = deviceResponse({
+      tamper: (items) => {
+        items.find((item) => item.elementIdentifier === "age_over_21")!.elementValue = true;
+      },
+    });
+
+    expect((await verifyMdocDeviceResponse(response)).code).toBe("MDOC_DIGEST_MISMATCH");
+  });
+
+  it("enforces the MSO validity window", async () => {
+    const response = deviceResponse({
+      validFrom: new Date("2026-01-01T00:00:00Z"),
+      validUntil: new Date("2026-02-01T00:00:00Z"),
+    });
+
+    expect((await verifyMdocDeviceResponse(response, { now: new Date("2026-01-15T00:00:00Z") })).ok).toBe(true);
+    expect((await verifyMdocDeviceResponse(response, { now: new Date("2026-03-01T00:00:00Z") })).code).toBe("MDOC_EXPIRED");
+    expect((await verifyMdocDeviceResponse(response, { now: new Date("2025-12-01T00:00:00Z") })).code).toBe("MDOC_EXPIRED");
+  });
+
+  it("rejects another docType", async () => {
+    const result = await verifyMdocDeviceResponse(deviceResponse(), { docType: "org.iso.23220.photoid.1" });
+    expect(result.code).toBe("MDOC_DOCTYPE_MISMATCH");
+  });
+});
+
+describe("MDOC proof format", () => {
+  it("records only docType, validity and derived booleans at mint", async () => {
+    const result = await mdocFormat.mint({
+      proofRef: { proof_format: "MDOC", proof_digest: "digest", digest_alg: "sha2-256" },
+      bytes: deviceResponse(),
+      context: {},
+      maxProofBytes: mdocFormat.maxProofBytes,
+    });
+
+    expect(result.ok).toBe(true);
+    expect(Object.keys(result.derivedFacts!).sort()).toEqual(["age_over_18", "age_over_21", "docType", "validUntil"]);
+    expect(result.derivedFacts).toMatchObject({ docType: DOC_TYPE, age_over_18: true, age_over_21: false });
+    const recorded = JSON.stringify(result);
+    expect(recorded).not.toContain("Doe");
+    expect(recorded).not.toContain("1990-04-01");
+  });
+
+  it("binds fresh presentations to the device key recorded at mint", async () => {
+    const publicKeyDigest = jwkDigestHex(deviceKey.publicKey.export({ format: "jwk" }));
+
+    const fresh = await mdocFormat.fresh!(deviceResponse(), { verificationPublicKeyDigest: publicKeyDigest }, {});
+    expect(fresh.ok).toBe(true);
+    expect(JSON.stringify(fresh.metadata)).not.toContain("Doe");
+
+    const otherDevice = await mdocFormat.fresh!(deviceResponse(), { verificationPublicKeyDigest: "0".repeat(64) }, {});
+    expect(otherDevice.reason).toBe("device_key_mismatch");
+  });
+});
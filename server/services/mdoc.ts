@@ -0,0 +1,279 @@
+import { createHash, createPublicKey, verify as verifySignature, type KeyObject } from "node:crypto";
+import { decode as decodeCbor, encode as encodeCbor, Tag } from "cbor-x";
+import { jwkDigestHex } from "../utils/digest.js";
+import { decodeCertificateChain, verifyCertificateChain } from "./attestation/x509-chain.js";
+import { getTrustRoots } from "./attestation/trust-roots.js";
+
+/**
+ * ISO/IEC 18013-5 mdoc / mDL verification (MDOC)
+ *
+ * Proof bytes are a CBOR DeviceResponse. For each document:
+ *
+ * - issuerAuth (COSE_Sign1) is verified with the document signer certificate
+ *   from its x5chain, which must chain to an IACA root (trust roots, kind "iaca")
+ * - the MSO must match the docType and be inside its validity window
+ * - every presented IssuerSignedItem must match its MSO value digest
+ *
+ * Only derived booleans (age_over_NN) are returned, never element values.
+ * Device authentication is not checked - it needs the reader's session
+ * transcript; fresh proofs are instead bound to the MSO device key.
+ */
+
+export const MDL_NAMESPACE = "org.iso.18013.5.1";
+
+const COSE_ALGS: Record<number, { name: string; hash: string | null }> = {
+  [-7]: { name: "ES256", hash: "sha256" },
+  [-35]: { name: "ES384", hash: "sha384" },
+  [-36]: { name: "ES512", hash: "sha512" },
+  [-8]: { name: "EdDSA", hash: null },
+};
+
+const MSO_DIGEST_ALGS: Record<string, string> = {
+  "SHA-256": "sha256",
+  "SHA-384": "sha384",
+  "SHA-512": "sha512",
+};
+
+const COSE_EC2_CURVES: Record<number, string> = { 1: "P-256", 2: "P-384", 3: "P-521" };
+const COSE_OKP_CURVES: Record<number, string> = { 6: "Ed25519" };
+
+const AGE_OVER = /^age_over_\d{2}$/;
+
+export interface MdocVerifyResult {
+  ok: boolean;
+  code?: string;
+  reason?: string;
+  algorithm?: string;
+  docType?: string;
+  deviceKeyDigest?: string;     // Digest of the MSO device key (JCS JWK, SHA-256 hex)
+  validUntil?: string;
+  ageOver?: Record<string, boolean>;
+}
+
+function fail(code: string, reason: string): MdocVerifyResult {
+  return { ok: false, code, reason };
+}
+
+/**
+ * Read a CBOR map entry whether cbor-x decoded it as a Map or an object
+ */
+function field(container: unknown, key: string | number): any {
+  if (container instanceof Map) return container.get(key);
+  if (container && typeof container === "object") return (container as any)[key];
+  return undefined;
+}
+
+function entries(container: unknown): [any, any][] {
+  if (container instanceof Map) return Array.from(container.entries());
+  if (container && typeof container === "object") return Object.entries(container);
+  return [];
+}
+
+/**
+ * Unwrap #6.24(bstr .cbor X) into the embedded bytes
+ */
+function embeddedBytes(value: unknown): Buffer | undefined {
+  if (value instanceof Tag && value.tag === 24 && value.value instanceof Uint8Array) {
+    return Buffer.from(value.value);
+  }
+  return undefined;
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return value;
+  if (value instanceof Tag && value.tag === 0 && typeof value.value === "string") return new Date(value.value);
+  if (typeof value === "string") return new Date(value);
+  return undefined;
+}
+
+/**
+ * Convert a COSE_Key (EC2 or OKP) to a public JWK
+ */
+export function coseKeyToJwk(coseKey: unknown): Record<string, string> | undefined {
+  const kty = field(coseKey, 1);
+  const crv = field(coseKey, -1);
+  const x = field(coseKey, -2);
+  if (!(x instanceof Uint8Array)) return undefined;
+
+  if (kty === 2 && COSE_EC2_CURVES[crv]) {
+    const y = field(coseKey, -3);
+    if (!(y instanceof Uint8Array)) return undefined;
+    return {
+      kty: "EC",
+      crv: COSE_EC2_CURVES[crv],
+      x: Buffer.from(x).toString("base64url"),
+      y: Buffer.from(y).toString("base64url"),
+    };
+  }
+  if (kty === 1 && COSE_OKP_CURVES[crv]) {
+    return { kty: "OKP", crv: COSE_OKP_CURVES[crv], x: Buffer.from(x).toString("base64url") };
+  }
+  return undefined;
+}
+
+/**
+ * Verify a COSE_Sign1 (untagged or tag 18) and return its payload
+ */
+function verifyCoseSign1(
+  coseSign1: unknown,
+  publicKey: KeyObject
+): { ok: true; payload: Buffer; algorithm: string } | { ok: false; reason: string } {
+  const message = coseSign1 instanceof Tag && coseSign1.tag === 18 ? coseSign1.value : coseSign1;
+  if (!Array.isArray(message) || message.length !== 4) {
+    return { ok: false, reason: "issuerAuth is not a COSE_Sign1" };
+  }
+  const [protectedBytes, , payload, signature] = message;
+  if (!(protectedBytes instanceof Uint8Array) || !(payload instanceof Uint8Array) || !(signature instanceof Uint8Array)) {
+    return { ok: false, reason: "COSE_Sign1 fields must be byte strings (detached payloads unsupported)" };
+  }
+
+  const alg = COSE_ALGS[field(decodeCbor(protectedBytes), 1)];
+  if (!alg) {
+    return { ok: false, reason: "Unsupported COSE algorithm" };
+  }
+
+  const sigStructure = encodeCbor(["Signature1", Buffer.from(protectedBytes), Buffer.alloc(0), Buffer.from(payload)]);
+  const valid = verifySignature(
+    alg.hash,
+    sigStructure,
+    alg.hash ? { key: publicKey, dsaEncoding: "ieee-p1363" } : publicKey,
+    signature
+  );
+  return valid
+    ? { ok: true, payload: Buffer.from(payload), algorithm: alg.name }
+    : { ok: false, reason: "COSE_Sign1 signature is invalid" };
+}
+
+/**
+ * Verify a CBOR DeviceResponse
+ *
+ * @param bytes - DeviceResponse bytes
+ * @param options.docType - Required docType (default org.iso.18013.5.1.mDL)
+ * @param options.now - Validation time
+ */
+export async function verifyMdocDeviceResponse(
+  bytes: Uint8Array,
+  options: { docType?: string; now?: Date } = {}
+): Promise<MdocVerifyResult> {
+  const now = options.now || new Date();
+  const expectedDocType = options.docType || `${MDL_NAMESPACE}.mDL`;
+
+  let response: unknown;
+  try {
+    response = decodeCbor(Buffer.from(bytes));
+  } catch (error: any) {
+    return fail("MDOC_INVALID", `DeviceResponse is not valid CBOR: ${error.message}`);
+  }
+
+  const documents = field(response, "documents");
+  if (!Array.isArray(documents) || documents.length !== 1) {
+    return fail("MDOC_INVALID", "DeviceResponse must contain exactly one document");
+  }
+  const document = documents[0];
+  const docType = field(document, "docType");
+  if (docType !== expectedDocType) {
+    return fail("MDOC_DOCTYPE_MISMATCH", `Expected docType ${expectedDocType}, got ${docType}`);
+  }
+
+  const issuerSigned = field(document, "issuerSigned");
+  const issuerAuth = field(issuerSigned, "issuerAuth");
+  const coseMessage = issuerAuth instanceof Tag ? issuerAuth.value : issuerAuth;
+  if (!Array.isArray(coseMessage)) {
+    return fail("MDOC_INVALID", "issuerSigned.issuerAuth is required");
+  }
+
+  // Document signer certificate (x5chain, COSE header 33) must chain to an IACA root
+  const x5chain = field(coseMessage[1], 33);
+  const chainDer = (Array.isArray(x5chain) ? x5chain : [x5chain]).filter((c) => c instanceof Uint8Array);
+  let chain;
+  try {
+    chain = decodeCertificateChain(chainDer.map((der: Uint8Array) => Buffer.from(der).toString("base64")));
+  } catch (error: any) {
+    return fail("MDOC_INVALID", `x5chain: ${error.message}`);
+  }
+  const chainResult = verifyCertificateChain(chain, getTrustRoots("iaca"), now);
+  if (!chainResult.ok) {
+    return fail("MDOC_ISSUER_UNTRUSTED", chainResult.reason!);
+  }
+
+  const signed = verifyCoseSign1(issuerAuth, chain[0].publicKey);
+  if (!signed.ok) {
+    return fail("MDOC_SIGNATURE_INVALID", signed.reason);
+  }
+
+  // MobileSecurityObject
+  let mso: unknown;
+  try {
+    const msoBytes = embeddedBytes(decodeCbor(signed.payload));
+    if (!msoBytes) throw new Error("payload is not MobileSecurityObjectBytes");
+    mso = decodeCbor(msoBytes);
+  } catch (error: any) {
+    return fail("MDOC_INVALID", `MSO: ${error.message}`);
+  }
+  if (field(mso, "docType") !== docType) {
+    return fail("MDOC_DOCTYPE_MISMATCH", "MSO docType does not match the document");
+  }
+
+  const validityInfo = field(mso, "validityInfo");
+  const validFrom = toDate(field(validityInfo, "validFrom"));
+  const validUntil = toDate(field(validityInfo, "validUntil"));
+  if (!validFrom || !validUntil || isNaN(validFrom.getTime()) || isNaN(validUntil.getTime())) {
+    return fail("MDOC_INVALID", "MSO validityInfo is incomplete");
+  }
+  if (now < validFrom || now > validUntil) {
+    return fail("MDOC_EXPIRED", `MSO valid ${validFrom.toISOString()} - ${validUntil.toISOString()}`);
+  }
+
+  const hashName = MSO_DIGEST_ALGS[field(mso, "digestAlgorithm")];
+  if (!hashName) {
+    return fail("MDOC_INVALID", `Unsupported MSO digestAlgorithm: ${field(mso, "digestAlgorithm")}`);
+  }
+
+  // Presented elements must match their MSO value digests
+  const valueDigests = field(mso, "valueDigests");
+  const ageOver: Record<string, boolean> = {};
+  for (const [namespace, items] of entries(field(issuerSigned, "nameSpaces"))) {
+    if (!Array.isArray(items)) {
+      return fail("MDOC_INVALID", `nameSpaces.${namespace} must be an array`);
+    }
+    const namespaceDigests = field(valueDigests, namespace);
+    for (const itemBytes of items) {
+      const embedded = embeddedBytes(itemBytes);
+      if (!embedded) {
+        return fail("MDOC_INVALID", "IssuerSignedItem must be tag-24 encoded");
+      }
+      const item = decodeCbor(embedded);
+      const expected = field(namespaceDigests, field(item, "digestID"));
+      const actual = createHash(hashName).update(encodeCbor(new Tag(embedded, 24))).digest();
+      if (!(expected instanceof Uint8Array) || !actual.equals(Buffer.from(expected))) {
+        return fail("MDOC_DIGEST_MISMATCH", `Value digest mismatch for ${namespace}/${field(item, "elementIdentifier")}`);
+      }
+
+      const identifier = field(item, "elementIdentifier");
+      const value = field(item, "elementValue");
+      if (namespace === MDL_NAMESPACE && AGE_OVER.test(identifier) && typeof value === "boolean") {
+        ageOver[identifier] = value;
+      }
+    }
+  }
+
+  const deviceJwk = coseKeyToJwk(field(field(mso, "deviceKeyInfo"), "deviceKey"));
+  if (!deviceJwk) {
+    return fail("MDOC_INVALID", "MSO deviceKeyInfo.deviceKey is missing or unsupported");
+  }
+  // Sanity check the device key is importable before binding to it
+  try {
+    createPublicKey({ key: deviceJwk, format: "jwk" });
+  } catch {
+    return fail("MDOC_INVALID", "MSO device key is not a valid public key");
+  }
+
+  return {
+    ok: true,
+    algorithm: signed.algorithm,
+    docType,
+    deviceKeyDigest: jwkDigestHex(deviceJwk),
+    validUntil: validUntil.toISOString(),
+    ageOver,
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { merkleRoot, merkleProof } from "./merkle.js";
+import { hashBytes } from "../utils/digest.js";
+import { verifyMerkleEnvelope } from "./merkle-proof.js";
+
+/**
+ * Tests for MERKLE_PROOF envelope verification.
+ *
+ * Envelopes are built with the audit-log tree helpers so both sides share
+ * the same node layout. Signed roots are not exercised here (they need a
+ * resolvable issuer key).
+ */
+
+function buildEnvelope(leafCount: number, index: number, hashAlg = "sha2-256") {
+  const leaves = Array.from({ length: leafCount }, (_, i) => hashBytes(Buffer.from(`leaf-${i}`), "sha2-256"));
+  const siblings = merkleProof(leaves, index);
+  return {
+    leaf: leaves[index].toString("hex"),
+    siblings: siblings.map((s) => s.toString("hex")),
+    index,
+    root: merkleRoot(leaves).toString("hex"),
+    hashAlg,
+  };
+}
+
+function encode(envelope: unknown): Uint8Array {
+  return Buffer.from(JSON.stringify(envelope));
+}
+
+describe("verifyMerkleEnvelope", () => {
+  it("accepts a valid sha2-256 inclusion proof", async () => {
+    const envelope = buildEnvelope(8, 5);
+    const result = await verifyMerkleEnvelope(encode(envelope));
+    expect(result.ok).toBe(true);
+    expect(result.root).toBe(envelope.root);
+    expect(result.depth).toBe(3);
+  });
+
+  it("accepts a sha2-256 multihash root", async () => {
+    const envelope = buildEnvelope(4, 2);
+    const result = await verifyMerkleEnvelope(encode({ ...envelope, root: "1220" + envelope.root, hashAlg: "multihash" }));
+    expect(result.ok).toBe(true);
+    expect(result.hashAlg).toBe("sha2-256");
+  });
+
+  it("rejects a proof for the wrong index", async () => {
+    const envelope = buildEnvelope(8, 5);
+    const result = await verifyMerkleEnvelope(encode({ ...envelope, index: 4 }));
+    expect(result.ok).toBe(false);
+    expect(result.code).toBe("MERKLE_ROOT_MISMATCH");
+  });
+
+  it("rejects a proof verified with a different hash algorithm", async () => {
+    const envelope = buildEnvelope(8, 1, "sha3-256");
+    const result = await verifyMerkleEnvelope(encode(envelope));
+    expect(result.ok).toBe(false);
+    expect(result.code).toBe("MERKLE_ROOT_MISMATCH");
+  });
+
+  it("rejects a root that differs from the recorded root", async () => {
+    const envelope = buildEnvelope(8, 3);
+    const result = await verifyMerkleEnvelope(encode(envelope), { expectedRoot: "00".repeat(32) });
+    expect(result.ok).toBe(false);
+    expect(result.code).toBe("MERKLE_ROOT_NOT_REGISTERED");
+  });
+
+  it("rejects malformed envelopes", async () => {
+    const envelope = buildEnvelope(2, 0);
+    const result = await verifyMerkleEnvelope(encode({ ...envelope, siblings: ["zz"] }));
+    expect(result.ok).toBe(false);
+    expect(result.code).toBe("MERKLE_ENVELOPE_INVALID");
+  });
+});
@@ -0,0 +1,179 @@
+import { verifyMerkleProof, type MerkleHashFn } from "./merkle.js";
+import { decodeMultihashHex, hashBytes } from "../utils/digest.js";
+
+/**
+ * MERKLE_PROOF envelope verification
+ *
+ * Partners anchoring batch attestations register a Merkle inclusion proof
+ * for one leaf of the batch. The proof bytes are a JSON envelope:
+ *
+ * {
+ *   "leaf": "<hex>",              // leaf hash
+ *   "siblings": ["<hex>", ...],   // sibling hashes, leaf level first
+ *   "index": 0,                   // leaf position (left/right per level)
+ *   "root": "<hex>",              // declared batch root
+ *   "hashAlg": "sha2-256" | "sha3-256" | "blake3" | "multihash",
+ *   "signedRoot": "<compact JWS>" // optional, payload { root, hashAlg, ... }
+ * }
+ *
+ * Node hashing matches services/merkle.ts: H(left || right), no domain
+ * separation. With hashAlg "multihash" the root is a hex multihash whose
+ * function code selects the node hash; leaf and siblings are raw digests.
+ */
+
+export interface MerkleEnvelope {
+  leaf: string;
+  siblings: string[];
+  index: number;
+  root: string;
+  hashAlg: string;
+  signedRoot?: string;
+}
+
+export interface MerkleEnvelopeResult {
+  ok: boolean;
+  code?: string;
+  reason?: string;
+  root?: string;                 // normalized lowercase hex as declared
+  hashAlg?: string;              // node hash function actually used
+  index?: number;
+  depth?: number;
+  rootSigned?: boolean;
+  rootSigner?: string;
+  rootSignerKeyDigest?: string;
+}
+
+const HEX = /^[0-9a-fA-F]+$/;
+const MAX_DEPTH = 64;
+
+/**
+ * Verify a serialized Merkle inclusion proof envelope
+ *
+ * @param bytes - JSON envelope bytes
+ * @param options.issuerDid - Registered issuer; a signed root must come from it
+ * @param options.expectedRoot - Root recorded for the asset; the envelope must match it
+ */
+export async function verifyMerkleEnvelope(
+  bytes: Uint8Array,
+  options: { issuerDid?: string; expectedRoot?: string } = {}
+): Promise<MerkleEnvelopeResult> {
+  let envelope: MerkleEnvelope;
+  try {
+    envelope = JSON.parse(Buffer.from(bytes).toString("utf8"));
+  } catch {
+    return { ok: false, code: "MERKLE_ENVELOPE_INVALID", reason: "Merkle proof is not valid JSON" };
+  }
+
+  const shapeError = checkEnvelopeShape(envelope);
+  if (shapeError) {
+    return { ok: false, code: "MERKLE_ENVELOPE_INVALID", reason: shapeError };
+  }
+
+  let nodeAlg: string;
+  let rootDigest: Buffer;
+  try {
+    if (envelope.hashAlg === "multihash") {
+      const decoded = decodeMultihashHex(envelope.root);
+      nodeAlg = decoded.alg;
+      rootDigest = decoded.digest;
+    } else {
+      hashBytes(new Uint8Array(0), envelope.hashAlg); // throws for unsupported algorithms
+      nodeAlg = envelope.hashAlg;
+      rootDigest = Buffer.from(envelope.root, "hex");
+    }
+  } catch (error: any) {
+    return { ok: false, code: "MERKLE_HASH_UNSUPPORTED", reason: error.message };
+  }
+
+  const leaf = Buffer.from(envelope.leaf, "hex");
+  const siblings = envelope.siblings.map((s) => Buffer.from(s, "hex"));
+  if ([leaf, ...siblings].some((node) => node.length !== rootDigest.length)) {
+    return { ok: false, code: "MERKLE_ENVELOPE_INVALID", reason: "All nodes must have the root digest length" };
+  }
+
+  const hash: MerkleHashFn = (data) => hashBytes(data, nodeAlg);
+  if (!verifyMerkleProof(leaf, siblings, rootDigest, envelope.index, hash)) {
+    return { ok: false, code: "MERKLE_ROOT_MISMATCH", reason: "Inclusion proof does not reconstruct the declared root" };
+  }
+
+  const root = envelope.root.toLowerCase();
+  if (options.expectedRoot && root !== options.expectedRoot.toLowerCase()) {
+    return { ok: false, code: "MERKLE_ROOT_NOT_REGISTERED", reason: "Declared root differs from the root recorded at mint" };
+  }
+
+  const result: MerkleEnvelopeResult = {
+    ok: true,
+    root,
+    hashAlg: nodeAlg,
+    index: envelope.index,
+    depth: siblings.length,
+    rootSigned: false,
+  };
+
+  if (envelope.signedRoot !== undefined) {
+    const signed = await verifySignedRoot(envelope, options.issuerDid);
+    if (!signed.ok) {
+      return { ok: false, code: "MERKLE_SIGNED_ROOT_INVALID", reason: signed.reason };
+    }
+    result.rootSigned = true;
+    result.rootSigner = signed.issuer;
+    result.rootSignerKeyDigest = signed.publicKeyDigest;
+  }
+
+  return result;
+}
+
+function checkEnvelopeShape(envelope: any): string | undefined {
+  if (!envelope || typeof envelope !== "object" || Array.isArray(envelope)) {
+    return "Merkle proof must be a JSON object";
+  }
+  if (typeof envelope.leaf !== "string" || !HEX.test(envelope.leaf)) {
+    return "leaf must be a hex string";
+  }
+  if (typeof envelope.root !== "string" || !HEX.test(envelope.root)) {
+    return "root must be a hex string";
+  }
+  if (!Array.isArray(envelope.siblings) || envelope.siblings.some((s: unknown) => typeof s !== "string" || !HEX.test(s))) {
+    return "siblings must be an array of hex strings";
+  }
+  if (envelope.siblings.length > MAX_DEPTH) {
+    return `siblings exceeds maximum depth of ${MAX_DEPTH}`;
+  }
+  if (!Number.isSafeInteger(envelope.index) || envelope.index < 0 || envelope.index >= 2 ** envelope.siblings.length) {
+    return "index must be a non-negative integer within the tree width";
+  }
+  if (typeof envelope.hashAlg !== "string") {
+    return "hashAlg is required";
+  }
+  if (envelope.signedRoot !== undefined && typeof envelope.signedRoot !== "string") {
+    return "signedRoot must be a compact JWS";
+  }
+  return undefined;
+}
+
+/**
+ * Verify the optional signed root: a JWS over { root, hashAlg } by the issuer
+ */
+async function verifySignedRoot(
+  envelope: MerkleEnvelope,
+  issuerDid?: string
+): Promise<{ ok: boolean; reason?: string; issuer?: string; publicKeyDigest?: string }> {
+  const { verifyJWS } = await import("../proof-verification.js");
+  const verified = await verifyJWS(envelope.signedRoot!, { issuerDid });
+  if (!verified.ok) {
+    return { ok: false, reason: verified.reason };
+  }
+
+  const claims = (verified.derivedFacts?.claims || {}) as Record<string, unknown>;
+  if (typeof claims.root !== "string" || claims.root.toLowerCase() !== envelope.root.toLowerCase()) {
+    return { ok: false, reason: "Signed root does not match envelope root" };
+  }
+  if (claims.hashAlg !== envelope.hashAlg) {
+    return { ok: false, reason: "Signed root hashAlg does not match envelope hashAlg" };
+  }
+  if (issuerDid && claims.iss !== issuerDid) {
+    return { ok: false, reason: `Signed root issuer mismatch - expected ${issuerDid}, got ${claims.iss}` };
+  }
+
+  return { ok: true, issuer: claims.iss as string | undefined, publicKeyDigest: verified.publicKeyDigest };
+}
@@ -102,6 +102,11 @@ export function merkleProof(leaves: Buffer[], index: number): Buffer[] {
   return proof;
 }
 
+/**
+ * Hash function combining two child nodes (or hashing a leaf)
+ */
+export type MerkleHashFn = (data: Buffer) => Buffer;
+
 /**
  * Verify Merkle inclusion proof
  * 
@@ -109,13 +114,15 @@ export function merkleProof(leaves: Buffer[], index: number): Buffer[] {
  * @param proof - Array of sibling hashes from merkleProof()
  * @param root - Expected root hash
  * @param index - Leaf index in original tree
+ * @param hash - Node hash function (defaults to SHA-256, as used by the audit log)
  * @returns True if proof validates
  */
 export function verifyMerkleProof(
   leaf: Buffer,
   proof: Buffer[],
   root: Buffer,
-  index: number
+  index: number,
+  hash: MerkleHashFn = sha256
 ): boolean {
   let current = leaf;
   let idx = index;
@@ -124,8 +131,8 @@ export function verifyMerkleProof(
     // Determine if current is left or right child
     const isLeft = idx % 2 === 0;
     current = isLeft
-      ? sha256(Buffer.concat([current, sibling]))
-      : sha256(Buffer.concat([sibling, current]));
+      ? hash(Buffer.concat([current, sibling]))
+      : hash(Buffer.concat([sibling, current]));
     idx = Math.floor(idx / 2);
   }
 
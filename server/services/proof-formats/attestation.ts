@@ -0,0 +1,53 @@
+import type { ProofFormatVerifier } from "./types.js";
+
+/**
+ * HW_ATTESTATION (Android Key Attestation, Apple App Attest, TPM2 quote)
+ *
+ * Fresh attestations must attest the same key as the one recorded at mint.
+ */
+export const attestationFormat: ProofFormatVerifier = {
+  format: "HW_ATTESTATION",
+  description: "Hardware key attestation envelope verified against local trust roots",
+  digestAlgs: ["sha2-256", "sha3-256", "blake3", "multihash"],
+  maxProofBytes: 64 * 1024,
+  loadsBytes: true,
+
+  async mint({ bytes }) {
+    const { verifyAttestation } = await import("../attestation/index.js");
+    const attestation = await verifyAttestation(bytes!);
+    if (!attestation.ok) {
+      return { ok: false, code: attestation.code, reason: `Attestation verification failed: ${attestation.reason}` };
+    }
+    return {
+      ok: true,
+      algorithm: attestation.attestationType,
+      publicKeyDigest: attestation.publicKeyDigest,
+      verifiedAt: new Date().toISOString(),
+      derivedFacts: {
+        attestationType: attestation.attestationType,
+        ...attestation.deviceFacts,
+      },
+    };
+  },
+
+  async fresh(bytes, asset) {
+    const { verifyAttestation } = await import("../attestation/index.js");
+    const result = await verifyAttestation(bytes);
+    if (!result.ok) {
+      return { ok: false, reason: result.reason };
+    }
+
+    if (asset.verificationPublicKeyDigest && result.publicKeyDigest !== asset.verificationPublicKeyDigest) {
+      return { ok: false, reason: "attested_key_mismatch" };
+    }
+
+    return {
+      ok: true,
+      metadata: {
+        attestationType: result.attestationType,
+        verified: "hw_attestation",
+        ...result.deviceFacts,
+      },
+    };
+  },
+};
@@ -0,0 +1,58 @@
+import type { ProofFormatVerifier } from "./types.js";
+
+/**
+ * BLOCKCHAIN_TX_PROOF
+ *
+ * Inclusion and confirmation depth via the configured chain adapter. Fresh
+ * verification fails if the block recorded at mint was reorged out.
+ */
+export const chainTxFormat: ProofFormatVerifier = {
+  format: "BLOCKCHAIN_TX_PROOF",
+  description: "On-chain transaction inclusion checked through the configured chain adapter",
+  digestAlgs: ["sha2-256", "sha3-256", "blake3", "multihash"],
+  maxProofBytes: 16 * 1024,
+  loadsBytes: true,
+
+  async mint({ bytes }) {
+    const { verifyChainTxProof } = await import("../chain/index.js");
+    const chainTx = await verifyChainTxProof(bytes!);
+    if (!chainTx.ok) {
+      return { ok: false, code: chainTx.code, reason: `Blockchain TX proof verification failed: ${chainTx.reason}` };
+    }
+    return {
+      ok: true,
+      algorithm: `${chainTx.adapter}:${chainTx.chainId}`,
+      verifiedAt: new Date().toISOString(),
+      derivedFacts: {
+        chainId: chainTx.chainId,
+        txHash: chainTx.txHash,
+        blockNumber: chainTx.blockNumber,
+        blockHash: chainTx.blockHash,
+        confirmations: chainTx.confirmations,
+      },
+    };
+  },
+
+  async fresh(bytes, asset) {
+    const recorded = asset.verificationMetadata as Record<string, unknown> | null | undefined;
+    if (!recorded || typeof recorded.blockHash !== "string") {
+      return { ok: false, reason: "chain_inclusion_not_recorded" };
+    }
+
+    const { verifyChainTxProof } = await import("../chain/index.js");
+    const result = await verifyChainTxProof(bytes, recorded);
+    if (!result.ok) {
+      return { ok: false, reason: result.code === "CHAIN_REORG_DETECTED" ? `chain_reorg_detected: ${result.reason}` : result.reason };
+    }
+
+    return {
+      ok: true,
+      metadata: {
+        chainId: result.chainId,
+        verified: result.adapter,
+        blockNumber: result.blockNumber,
+        confirmations: result.confirmations,
+      },
+    };
+  },
+};
@@ -0,0 +1,117 @@
+import type { DigestAlg } from "../../../shared/schema.js";
+import { attestationFormat } from "./attestation.js";
+import { chainTxFormat } from "./chain-tx.js";
+import { jwsFormat } from "./jws.js";
+import { ldFormat } from "./ld.js";
+import { mdocFormat } from "./mdoc.js";
+import { merkleFormat } from "./merkle.js";
+import { otherFormat } from "./other.js";
+import { sdJwtVcFormat } from "./sd-jwt-vc.js";
+import { zkFormat } from "./zk.js";
+import type { ProofFormatConfig, ProofFormatVerifier } from "./types.js";
+
+export type {
+  FreshAssetContext,
+  FreshPresentationContext,
+  FreshVerifyResult,
+  MintContext,
+  MintInput,
+  MintProofRef,
+  ProofFormatConfig,
+  ProofFormatVerifier,
+} from "./types.js";
+
+/**
+ * Proof-format verifier registry
+ *
+ * Each proof format registers its mint-time and fresh-time verification,
+ * accepted digest algorithms and size limit. verifyProof (mint) and
+ * verifyFreshProof (re-verification) both dispatch through this registry,
+ * so adding a format means writing one module and registering it here.
+ *
+ * PROOF_FORMAT_CONFIG overrides the defaults per format, e.g.
+ *   {"OTHER":{"enabled":false},"ZK_PROOF":{"maxProofBytes":2097152,"digestAlgs":["sha2-256"]}}
+ */
+
+const FORMATS = new Map<string, ProofFormatVerifier>();
+const ALIASES = new Map<string, string>();
+
+/**
+ * Register (or replace) the verifier for a proof format and its aliases
+ */
+export function registerProofFormat(verifier: ProofFormatVerifier): void {
+  FORMATS.set(verifier.format, verifier);
+  for (const alias of verifier.aliases || []) {
+    ALIASES.set(alias, verifier.format);
+  }
+}
+
+registerProofFormat(jwsFormat);
+registerProofFormat(zkFormat);
+registerProofFormat(ldFormat);
+registerProofFormat(attestationFormat);
+registerProofFormat(merkleFormat);
+registerProofFormat(chainTxFormat);
+registerProofFormat(sdJwtVcFormat);
+registerProofFormat(mdocFormat);
+registerProofFormat(otherFormat);
+
+/**
+ * A registered format with PROOF_FORMAT_CONFIG overrides applied
+ */
+export interface ResolvedProofFormat {
+  verifier: ProofFormatVerifier;
+  enabled: boolean;
+  digestAlgs: DigestAlg[];
+  maxProofBytes: number;
+}
+
+function loadConfig(): Record<string, ProofFormatConfig> {
+  if (!process.env.PROOF_FORMAT_CONFIG) return {};
+  try {
+    return JSON.parse(process.env.PROOF_FORMAT_CONFIG);
+  } catch {
+    console.error("[proof-formats] PROOF_FORMAT_CONFIG is not valid JSON - ignoring");
+    return {};
+  }
+}
+
+function resolve(verifier: ProofFormatVerifier, config: Record<string, ProofFormatConfig>): ResolvedProofFormat {
+  const overrides = config[verifier.format] || {};
+  return {
+    verifier,
+    enabled: overrides.enabled !== false,
+    digestAlgs: Array.isArray(overrides.digestAlgs) ? overrides.digestAlgs : verifier.digestAlgs,
+    maxProofBytes: Number.isSafeInteger(overrides.maxProofBytes) && overrides.maxProofBytes! > 0
+      ? overrides.maxProofBytes!
+      : verifier.maxProofBytes,
+  };
+}
+
+/**
+ * Look up a proof format by name or alias
+ */
+export function getProofFormat(format: string): ResolvedProofFormat | undefined {
+  const verifier = FORMATS.get(ALIASES.get(format) || format);
+  return verifier ? resolve(verifier, loadConfig()) : undefined;
+}
+
+/**
+ * Describe every registered format and its capabilities
+ */
+export function listProofFormats() {
+  const config = loadConfig();
+  return Array.from(FORMATS.values()).map((verifier) => {
+    const resolved = resolve(verifier, config);
+    return {
+      format: verifier.format,
+      aliases: verifier.aliases || [],
+      description: verifier.description,
+      enabled: resolved.enabled,
+      digestAlgs: resolved.digestAlgs,
+      maxProofBytes: resolved.maxProofBytes,
+      mint: true,
+      fresh: typeof verifier.fresh === "function",
+    };
+  });
+}
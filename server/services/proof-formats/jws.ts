@@ -0,0 +1,55 @@
+import type { ProofFormatVerifier } from "./types.js";
+
+/**
+ * JWS (compact serialization), also accepted as VC_JWT
+ *
+ * At mint the compact JWS is carried in proof_uri (or proof_digest in test
+ * scenarios). Fresh verification re-runs verifyJWS and binds the verifying
+ * key to the digest recorded at mint, so a token re-signed by a different
+ * key is rejected. Assets minted before canonical key digests recorded
+ * sha256(JSON.stringify(jwk)) or kid:<kid>; those forms are still accepted.
+ */
+export const jwsFormat: ProofFormatVerifier = {
+  format: "JWS",
+  aliases: ["VC_JWT"],
+  description: "JSON Web Signature (compact); key from embedded JWK, DID URL kid or issuer JWKS",
+  digestAlgs: ["sha2-256", "sha3-256", "blake3", "multihash"],
+  maxProofBytes: 64 * 1024,
+  loadsBytes: false,
+
+  async mint({ proofRef, context, maxProofBytes }) {
+    const jws = proofRef.proof_uri || proofRef.proof_digest;
+    if (Buffer.byteLength(jws, "utf8") > maxProofBytes) {
+      return { ok: false, code: "PROOF_TOO_LARGE", reason: `JWS exceeds ${maxProofBytes} bytes` };
+    }
+    const { verifyJWS } = await import("../../proof-verification.js");
+    return verifyJWS(jws, { issuerDid: context.issuerDid });
+  },
+
+  async fresh(bytes, asset) {
+    const txt = Buffer.from(bytes).toString("utf8").trim();
+    const { verifyJWS } = await import("../../proof-verification.js");
+    const result = await verifyJWS(txt, { issuerDid: asset.issuerDid });
+
+    if (!result.ok) {
+      return { ok: false, reason: result.reason };
+    }
+
+    if (!asset.verificationPublicKeyDigest) {
+      return { ok: false, reason: "key_digest_not_recorded" };
+    }
+    const accepted = [result.publicKeyDigest, ...(result.legacyPublicKeyDigests || [])];
+    if (!accepted.includes(asset.verificationPublicKeyDigest)) {
+      return { ok: false, reason: "signing_key_mismatch" };
+    }
+
+    return {
+      ok: true,
+      metadata: {
+        alg: result.algorithm,
+        verified: "signature",
+        issuer: result.derivedFacts?.issuer,
+      },
+    };
+  },
+};
@@ -0,0 +1,44 @@
+import type { ProofFormatVerifier } from "./types.js";
+
+/**
+ * LD_PROOF (W3C Data Integrity)
+ *
+ * The secured JSON-LD document is supplied inline or via SRI-checked URI.
+ * Fresh documents must be signed by the key recorded at mint.
+ */
+export const ldFormat: ProofFormatVerifier = {
+  format: "LD_PROOF",
+  description: "W3C Data Integrity proof (eddsa-rdfc-2022, eddsa-jcs-2022, ecdsa-jcs-2019)",
+  digestAlgs: ["sha2-256", "sha3-256", "blake3", "multihash"],
+  maxProofBytes: 256 * 1024,
+  loadsBytes: true,
+
+  async mint({ bytes, context }) {
+    const { verifyLdProof } = await import("../../proof-verification.js");
+    return verifyLdProof(bytes!, { issuerDid: context.issuerDid });
+  },
+
+  async fresh(bytes, asset) {
+    const { verifyLdProof } = await import("../../proof-verification.js");
+    const result = await verifyLdProof(bytes, { issuerDid: asset.issuerDid });
+    if (!result.ok) {
+      return { ok: false, reason: result.reason };
+    }
+
+    if (!asset.verificationPublicKeyDigest) {
+      return { ok: false, reason: "key_digest_not_recorded" };
+    }
+    if (result.publicKeyDigest !== asset.verificationPublicKeyDigest) {
+      return { ok: false, reason: "signing_key_mismatch" };
+    }
+
+    return {
+      ok: true,
+      metadata: {
+        cryptosuite: result.algorithm,
+        verified: "data_integrity",
+        issuer: result.derivedFacts?.issuer,
+      },
+    };
+  },
+};
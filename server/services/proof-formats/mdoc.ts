@@ -0,0 +1,61 @@
+import { verifyMdocDeviceResponse, type MdocVerifyResult } from "../mdoc.js";
+import type { ProofFormatVerifier } from "./types.js";
+
+/**
+ * MDOC (ISO/IEC 18013-5 DeviceResponse, e.g. mobile driver's licenses)
+ *
+ * Issuer data is verified against IACA trust roots; only docType, validity
+ * and derived age_over_NN booleans are recorded. Fresh presentations must
+ * come from the same device key as the one recorded at mint.
+ */
+export const mdocFormat: ProofFormatVerifier = {
+  format: "MDOC",
+  description: "ISO 18013-5 mdoc/mDL DeviceResponse verified against IACA roots",
+  digestAlgs: ["sha2-256", "sha3-256", "blake3", "multihash"],
+  maxProofBytes: 256 * 1024,
+  loadsBytes: true,
+
+  async mint({ bytes }) {
+    const result = await verifyMdocDeviceResponse(bytes!);
+    if (!result.ok) {
+      return { ok: false, code: result.code, reason: `mdoc verification failed: ${result.reason}` };
+    }
+    return {
+      ok: true,
+      algorithm: result.algorithm,
+      publicKeyDigest: result.deviceKeyDigest,
+      verifiedAt: new Date().toISOString(),
+      derivedFacts: mdocFacts(result),
+    };
+  },
+
+  async fresh(bytes, asset) {
+    const result = await verifyMdocDeviceResponse(bytes);
+    if (!result.ok) {
+      return { ok: false, reason: result.reason };
+    }
+
+    if (!asset.verificationPublicKeyDigest) {
+      return { ok: false, reason: "key_digest_not_recorded" };
+    }
+    if (result.deviceKeyDigest !== asset.verificationPublicKeyDigest) {
+      return { ok: false, reason: "device_key_mismatch" };
+    }
+
+    return {
+      ok: true,
+      metadata: {
+        verified: "mdoc",
+        ...mdocFacts(result),
+      },
+    };
+  },
+};
+
+function mdocFacts(result: MdocVerifyResult): Record<string, unknown> {
+  return {
+    docType: result.docType,
+    validUntil: result.validUntil,
+    ...result.ageOver,
+  };
+}
@@ -0,0 +1,59 @@
+import { verifyMerkleEnvelope } from "../merkle-proof.js";
+import type { ProofFormatVerifier } from "./types.js";
+
+/**
+ * MERKLE_PROOF inclusion envelope
+ *
+ * The declared root is recorded at mint; fresh proofs must be included
+ * under that same root.
+ */
+export const merkleFormat: ProofFormatVerifier = {
+  format: "MERKLE_PROOF",
+  description: "Merkle inclusion proof (sha2-256, sha3-256, blake3) with optional signed root",
+  digestAlgs: ["sha2-256", "sha3-256", "blake3", "multihash"],
+  maxProofBytes: 256 * 1024,
+  loadsBytes: true,
+
+  async mint({ bytes, context }) {
+    const merkle = await verifyMerkleEnvelope(bytes!, { issuerDid: context.issuerDid });
+    if (!merkle.ok) {
+      return { ok: false, code: merkle.code, reason: `Merkle proof verification failed: ${merkle.reason}` };
+    }
+    return {
+      ok: true,
+      algorithm: `merkle-${merkle.hashAlg}`,
+      publicKeyDigest: merkle.rootSignerKeyDigest,
+      verifiedAt: new Date().toISOString(),
+      derivedFacts: {
+        merkleRoot: merkle.root,
+        hashAlg: merkle.hashAlg,
+        leafIndex: merkle.index,
+        treeDepth: merkle.depth,
+        rootSigned: merkle.rootSigned,
+        rootSigner: merkle.rootSigner,
+      },
+    };
+  },
+
+  async fresh(bytes, asset) {
+    const recordedRoot = (asset.verificationMetadata as { merkleRoot?: unknown } | null | undefined)?.merkleRoot;
+    if (typeof recordedRoot !== "string") {
+      return { ok: false, reason: "merkle_root_not_recorded" };
+    }
+
+    const result = await verifyMerkleEnvelope(bytes, { issuerDid: asset.issuerDid, expectedRoot: recordedRoot });
+    if (!result.ok) {
+      return { ok: false, reason: result.reason };
+    }
+
+    return {
+      ok: true,
+      metadata: {
+        hashAlg: result.hashAlg,
+        verified: "merkle_inclusion",
+        leafIndex: result.index,
+        rootSigned: result.rootSigned,
+      },
+    };
+  },
+};
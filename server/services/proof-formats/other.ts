@@ -0,0 +1,26 @@
+import type { ProofFormatVerifier } from "./types.js";
+
+/**
+ * OTHER - opaque proofs registered by digest only
+ *
+ * Accepted without cryptographic verification; disable it with
+ * PROOF_FORMAT_CONFIG={"OTHER":{"enabled":false}} to require a verifiable format.
+ */
+export const otherFormat: ProofFormatVerifier = {
+  format: "OTHER",
+  description: "Opaque proof registered by digest only (no cryptographic verification)",
+  digestAlgs: ["sha2-256", "sha3-256", "blake3", "multihash"],
+  maxProofBytes: 1024 * 1024,
+  loadsBytes: false,
+
+  async mint() {
+    return {
+      ok: true,
+      reason: "Generic proof format - accepting without verification",
+    };
+  },
+
+  async fresh() {
+    return { ok: true, metadata: { format: "OTHER", verified: "stub" } };
+  },
+};
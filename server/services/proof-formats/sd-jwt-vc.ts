@@ -0,0 +1,71 @@
+import { verifySdJwtPresentation, type SdJwtVerifyResult } from "../sd-jwt.js";
+import type { ProofFormatVerifier } from "./types.js";
+
+/**
+ * SD_JWT_VC (IETF SD-JWT VC presentation)
+ *
+ * Key-bound credentials are checked against the verifier-supplied nonce and
+ * audience (kb_nonce / kb_audience at mint, in the verify request for fresh
+ * proofs). Only disclosed claim names are recorded - never their values.
+ */
+export const sdJwtVcFormat: ProofFormatVerifier = {
+  format: "SD_JWT_VC",
+  description: "IETF SD-JWT VC with disclosure digest and key-binding JWT checks",
+  digestAlgs: ["sha2-256", "sha3-256", "blake3", "multihash"],
+  maxProofBytes: 128 * 1024,
+  loadsBytes: true,
+
+  async mint({ proofRef, bytes, context }) {
+    const result = await verifySdJwtPresentation(Buffer.from(bytes!).toString("utf8"), {
+      issuerDid: context.issuerDid,
+      nonce: proofRef.kb_nonce,
+      audience: proofRef.kb_audience,
+    });
+    if (!result.ok) {
+      return { ok: false, code: result.code, reason: `SD-JWT VC verification failed: ${result.reason}` };
+    }
+    return {
+      ok: true,
+      algorithm: result.algorithm,
+      publicKeyDigest: result.publicKeyDigest,
+      verifiedAt: new Date().toISOString(),
+      derivedFacts: disclosureFacts(result),
+    };
+  },
+
+  async fresh(bytes, asset, presentation) {
+    const result = await verifySdJwtPresentation(Buffer.from(bytes).toString("utf8"), {
+      issuerDid: asset.issuerDid,
+      nonce: presentation.nonce,
+      audience: presentation.audience,
+    });
+    if (!result.ok) {
+      return { ok: false, reason: result.reason };
+    }
+
+    if (!asset.verificationPublicKeyDigest) {
+      return { ok: false, reason: "key_digest_not_recorded" };
+    }
+    if (result.publicKeyDigest !== asset.verificationPublicKeyDigest) {
+      return { ok: false, reason: "signing_key_mismatch" };
+    }
+
+    return {
+      ok: true,
+      metadata: {
+        verified: "sd_jwt_vc",
+        ...disclosureFacts(result),
+      },
+    };
+  },
+};
+
+function disclosureFacts(result: SdJwtVerifyResult): Record<string, unknown> {
+  return {
+    issuer: result.issuer,
+    vct: result.vct,
+    sdAlg: result.sdAlg,
+    disclosedClaims: result.disclosedClaims,
+    keyBound: result.keyBound,
+  };
+}
@@ -0,0 +1,83 @@
+import type { DigestAlg } from "../../../shared/schema.js";
+import type { VerificationResult } from "../../proof-verification.js";
+import type { CircuitBinding } from "../zk-key-catalog.js";
+
+/**
+ * Shared types for proof-format verifiers
+ */
+
+/**
+ * Proof reference supplied at mint (verifier_proof_ref)
+ */
+export interface MintProofRef {
+  proof_format: string;
+  proof_uri?: string;
+  proof_bytes?: string;
+  proof_digest: string;
+  digest_alg: string;
+  kb_nonce?: string;            // Verifier-supplied key-binding nonce (SD_JWT_VC)
+  kb_audience?: string;         // Verifier-supplied key-binding audience (SD_JWT_VC)
+}
+
+/**
+ * Asset fields known at mint
+ */
+export interface MintContext extends CircuitBinding {
+  issuerDid?: string;
+}
+
+export interface MintInput {
+  proofRef: MintProofRef;
+  bytes?: Uint8Array;           // Loaded and digest-checked when the format sets loadsBytes
+  context: MintContext;
+  maxProofBytes: number;        // Effective limit, for formats that read their own input
+}
+
+/**
+ * Registered asset fields a fresh proof must be consistent with
+ */
+export interface FreshAssetContext extends CircuitBinding {
+  issuerDid?: string;
+  verificationMetadata?: unknown;
+  verificationPublicKeyDigest?: string | null;
+}
+
+/**
+ * Verifier-supplied presentation context for fresh proofs (key binding)
+ */
+export interface FreshPresentationContext {
+  nonce?: string;
+  audience?: string;
+}
+
+export interface FreshVerifyResult {
+  ok: boolean;
+  reason?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * A verifier for one proof format
+ *
+ * Each format verifies at mint (against the asset being registered) and,
+ * optionally, on fresh-proof re-verification (against the recorded asset).
+ */
+export interface ProofFormatVerifier {
+  format: string;
+  aliases?: string[];           // Legacy or alternate names dispatched to this format
+  description: string;
+  digestAlgs: DigestAlg[];      // digest_alg values accepted at mint
+  maxProofBytes: number;        // Upper bound on proof bytes at mint and fresh verification
+  loadsBytes: boolean;          // Mint loads proof_bytes / proof_uri before calling mint()
+  mint(input: MintInput): Promise<VerificationResult>;
+  fresh?(bytes: Uint8Array, asset: FreshAssetContext, presentation: FreshPresentationContext): Promise<FreshVerifyResult>;
+}
+
+/**
+ * Per-format overrides from PROOF_FORMAT_CONFIG
+ */
+export interface ProofFormatConfig {
+  enabled?: boolean;
+  digestAlgs?: DigestAlg[];
+  maxProofBytes?: number;
+}
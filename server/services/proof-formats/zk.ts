@@ -0,0 +1,57 @@
+import type { ProofFormatVerifier } from "./types.js";
+
+/**
+ * ZK_PROOF (Groth16 / PLONK via snarkjs)
+ *
+ * Only verification keys from the trusted catalog entry bound to the asset's
+ * circuit are used, never a prover-supplied key; an inline vKey must match
+ * that entry. See verifyZkPayload for the expected JSON payload format.
+ */
+export const zkFormat: ProofFormatVerifier = {
+  format: "ZK_PROOF",
+  description: "Groth16/PLONK proof verified against the trusted verification-key catalog",
+  digestAlgs: ["sha2-256", "sha3-256", "blake3", "multihash"],
+  maxProofBytes: 1024 * 1024,
+  loadsBytes: true,
+
+  async mint({ bytes, context }) {
+    const { verifyZkAgainstCatalog } = await import("../zk-key-catalog.js");
+    const zk = await verifyZkAgainstCatalog(bytes!, {
+      circuitOrSchemaId: context.circuitOrSchemaId,
+      circuitCid: context.circuitCid,
+    });
+    if (!zk.ok) {
+      return { ok: false, code: zk.code, reason: `ZK proof verification failed: ${zk.reason}` };
+    }
+    return {
+      ok: true,
+      algorithm: zk.system,
+      publicKeyDigest: zk.vKeyDigest,
+      verifiedAt: new Date().toISOString(),
+      derivedFacts: {
+        system: zk.system,
+        verificationKeyId: zk.keyId,
+        publicSignalsCount: zk.publicSignalsCount,
+      },
+    };
+  },
+
+  async fresh(bytes, asset) {
+    const { verifyZkAgainstCatalog } = await import("../zk-key-catalog.js");
+    const result = await verifyZkAgainstCatalog(bytes, asset);
+
+    if (!result.ok) {
+      return { ok: false, reason: result.reason };
+    }
+
+    return {
+      ok: true,
+      metadata: {
+        system: result.system,
+        verified: "snarkjs",
+        verificationKeyId: result.keyId,
+        publicSignalsCount: result.publicSignalsCount,
+      },
+    };
+  },
+};
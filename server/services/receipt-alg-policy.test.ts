@@ -0,0 +1,37 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { receiptAlgorithmsFor, signingAlgorithmFor, signingAlgorithms } from "./receipt-alg-policy.js";
+
+/**
+ * Tests for per-audience / per-partner receipt algorithm policy
+ */
+
+const POLICY = {
+  default: ["ES256"],
+  audiences: { "eu-bank": ["ES384"], "legacy-rp": ["RS256"] },
+  partners: { "partner-ed": ["EdDSA", "ES256"] },
+};
+
+afterEach(() => {
+  delete process.env.RECEIPT_ALG_POLICY;
+});
+
+describe("receipt algorithm policy", () => {
+  it("defaults to ES256 without a policy", () => {
+    expect(receiptAlgorithmsFor({ audience: "anyone" })).toEqual(["ES256"]);
+    expect(signingAlgorithms()).toEqual(["ES256"]);
+  });
+
+  it("prefers the partner entry over the audience entry", () => {
+    process.env.RECEIPT_ALG_POLICY = JSON.stringify(POLICY);
+
+    expect(signingAlgorithmFor({ audience: "eu-bank" })).toBe("ES384");
+    expect(receiptAlgorithmsFor({ audience: "eu-bank", partnerId: "partner-ed" })).toEqual(["EdDSA", "ES256"]);
+    expect(signingAlgorithms().sort()).toEqual(["ES256", "ES384", "EdDSA"]);
+  });
+
+  it("falls back to the default when an entry has no supported algorithm", () => {
+    process.env.RECEIPT_ALG_POLICY = JSON.stringify(POLICY);
+
+    expect(receiptAlgorithmsFor({ audience: "legacy-rp" })).toEqual(["ES256"]);
+  });
+});
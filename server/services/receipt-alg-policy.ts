@@ -0,0 +1,84 @@
+/**
+ * Receipt algorithm policy
+ *
+ * Receipts can be signed with ES256, ES384 or EdDSA (Ed25519). The policy
+ * maps an audience or partner to an ordered algorithm list: the first entry
+ * signs new receipts, the whole list is the verification allow-list.
+ *
+ * RECEIPT_ALG_POLICY (JSON) - partner entries win over audience entries:
+ *   {"default":["ES256"],"audiences":{"eu-bank":["ES384"]},"partners":{"<partner uuid>":["EdDSA","ES256"]}}
+ */
+
+export const RECEIPT_ALGORITHMS = ["ES256", "ES384", "EdDSA"] as const;
+export type ReceiptAlg = typeof RECEIPT_ALGORITHMS[number];
+
+const DEFAULT_ALGS: ReceiptAlg[] = ["ES256"];
+
+interface ReceiptAlgPolicy {
+  default?: string[];
+  audiences?: Record<string, string[]>;
+  partners?: Record<string, string[]>;
+}
+
+export interface ReceiptAlgContext {
+  audience?: string;
+  partnerId?: string | null;
+}
+
+export function isReceiptAlg(alg: unknown): alg is ReceiptAlg {
+  return RECEIPT_ALGORITHMS.includes(alg as ReceiptAlg);
+}
+
+function loadPolicy(): ReceiptAlgPolicy {
+  if (!process.env.RECEIPT_ALG_POLICY) return {};
+  try {
+    return JSON.parse(process.env.RECEIPT_ALG_POLICY);
+  } catch {
+    console.error("[receipt-alg-policy] RECEIPT_ALG_POLICY is not valid JSON - ignoring");
+    return {};
+  }
+}
+
+/**
+ * Keep supported algorithms only; an entry with none falls through
+ */
+function supported(algs: string[] | undefined): ReceiptAlg[] | undefined {
+  if (!Array.isArray(algs)) return undefined;
+  const valid = algs.filter(isReceiptAlg);
+  if (valid.length < algs.length) {
+    console.warn(`[receipt-alg-policy] Ignoring unsupported receipt algorithms: ${algs.filter((a) => !isReceiptAlg(a)).join(", ")}`);
+  }
+  return valid.length > 0 ? valid : undefined;
+}
+
+/**
+ * Allowed receipt algorithms for an audience/partner, preferred first
+ */
+export function receiptAlgorithmsFor(context: ReceiptAlgContext = {}): ReceiptAlg[] {
+  const policy = loadPolicy();
+  return (context.partnerId ? supported(policy.partners?.[context.partnerId]) : undefined)
+    || (context.audience ? supported(policy.audiences?.[context.audience]) : undefined)
+    || supported(policy.default)
+    || DEFAULT_ALGS;
+}
+
+/**
+ * Algorithm that signs new receipts for an audience/partner
+ */
+export function signingAlgorithmFor(context: ReceiptAlgContext = {}): ReceiptAlg {
+  return receiptAlgorithmsFor(context)[0];
+}
+
+/**
+ * Every algorithm the policy signs with (a key is needed for each)
+ */
+export function signingAlgorithms(): ReceiptAlg[] {
+  const policy = loadPolicy();
+  const lists = [policy.default, ...Object.values(policy.audiences || {}), ...Object.values(policy.partners || {})];
+  const algs = new Set<ReceiptAlg>([signingAlgorithmFor()]);
+  for (const list of lists) {
+    const first = supported(list)?.[0];
+    if (first) algs.add(first);
+  }
+  return Array.from(algs);
+}
@@ -0,0 +1,45 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "../db.js";
+import { receiptIssuances, type ReceiptIssuance } from "../../shared/schema.js";
+
+/**
+ * Audience-bound receipt issuance
+ *
+ * Minting signs one receipt for the registry itself. Relying parties can ask
+ * for short-lived receipts bound to their own audience and nonce; each
+ * issuance is recorded so re-verification accepts that audience for the asset.
+ *
+ * RECEIPT_ISSUANCE_MAX_TTL_SECONDS caps the requested lifetime (default 3600).
+ */
+
+export const REGISTRY_RECEIPT_AUDIENCE = "myproof-registry";
+
+const DEFAULT_TTL_SECONDS = 300;
+
+/**
+ * Effective receipt lifetime for a requested TTL
+ */
+export function receiptIssuanceTtl(requestedSeconds?: number): number {
+  const max = parseInt(process.env.RECEIPT_ISSUANCE_MAX_TTL_SECONDS || "3600", 10);
+  return Math.min(requestedSeconds ?? DEFAULT_TTL_SECONDS, max);
+}
+
+export async function recordReceiptIssuance(
+  issuance: Omit<ReceiptIssuance, "issuanceId" | "issuedAt">
+): Promise<ReceiptIssuance> {
+  const [row] = await db.insert(receiptIssuances).values(issuance).returning();
+  return row;
+}
+
+/**
+ * Whether receipts for `audience` are accepted when re-verifying the asset
+ */
+export async function isAudienceIssued(assetId: string, audience: string): Promise<boolean> {
+  if (audience === REGISTRY_RECEIPT_AUDIENCE) return true;
+  const [row] = await db
+    .select({ issuanceId: receiptIssuances.issuanceId })
+    .from(receiptIssuances)
+    .where(and(eq(receiptIssuances.assetId, assetId), eq(receiptIssuances.audience, audience)))
+    .limit(1);
+  return !!row;
+}
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { generateReceipt, generateTestKeypair, verifyReceipt } from "../receipt-service.js";
+import { localJwkSigner } from "./signers/local.js";
+import {
+  issuedAfterRetirement,
+  receiptKeyState,
+  rejectedByRevocation,
+  retirementConflict,
+  signingCandidate,
+  type KeyLifecycle,
+} from "./receipt-key-state.js";
+import type { ReceiptVerificationKey } from "./receipt-keys.js";
+
+/**
+ * Tests for receipt key rotation, retirement and revocation cutoffs (no database)
+ */
+
+const NOW = new Date("2026-06-01T12:00:00Z");
+const HOUR = 60 * 60 * 1000;
+
+function key(kid: string, overrides: Partial<KeyLifecycle> = {}): KeyLifecycle {
+  return { kid, alg: "ES256", privateJwkEnc: "v1.sealed", retireAt: null, ...overrides };
+}
+
+describe("receipt signing key selection", () => {
+  it("signs with the newest key after a rotation", () => {
+    const keys = [key("new"), key("old", { retireAt: new Date(NOW.getTime() + HOUR) })];
+
+    expect(signingCandidate(keys, [], NOW, "ES256")?.kid).toBe("new");
+    expect(receiptKeyState(keys[1], false, NOW)).toBe("retiring");
+    expect(receiptKeyState(keys[1], false, new Date(NOW.getTime() + 2 * HOUR))).toBe("retired");
+  });
+
+  it("never signs with retired, revoked, external or other-algorithm keys", () => {
+    const keys = [
+      key("revoked"),
+      key("external", { privateJwkEnc: null }),
+      key("es384", { alg: "ES384" }),
+      key("retired", { retireAt: new Date(NOW.getTime() - HOUR) }),
+      key("fallback"),
+    ];
+    const revocations = [{ kid: "revoked", receiptsIssuedAfter: null }];
+
+    expect(signingCandidate(keys, revocations, NOW, "ES256")?.kid).toBe("fallback");
+    expect(signingCandidate(keys.slice(0, 4), revocations, NOW, "ES256")).toBeUndefined();
+    expect(receiptKeyState(keys[0], true, NOW)).toBe("revoked");
+  });
+});
+
+describe("scheduling receipt key retirement", () => {
+  it("moves the retirement of keys still in service", () => {
+    const later = new Date(NOW.getTime() + HOUR);
+
+    expect(retirementConflict(key("active"), later, NOW)).toBeNull();
+    expect(retirementConflict(key("retiring", { retireAt: later }), NOW, NOW)).toBeNull();
+  });
+
+  it("refuses to bring a retired key back into service", () => {
+    const retired = key("retired", { retireAt: new Date(NOW.getTime() - HOUR) });
+
+    expect(retirementConflict(retired, new Date(NOW.getTime() + HOUR), NOW)?.code).toBe("RECEIPT_KEY_RETIRED");
+  });
+
+  it("refuses to backdate a retirement", () => {
+    const yesterday = new Date(NOW.getTime() - 24 * HOUR);
+
+    expect(retirementConflict(key("active"), yesterday, NOW)?.code).toBe("RETIRE_AT_IN_PAST");
+    expect(retirementConflict(key("active"), new Date(NOW.getTime() - 1000), NOW)).toBeNull();   // within clock skew
+  });
+});
+
+describe("receipt key cutoffs", () => {
+  const issuedAt = (date: Date) => Math.floor(date.getTime() / 1000);
+
+  it("keeps retired keys vouching only for receipts issued before retirement", () => {
+    const retireAt = NOW;
+
+    expect(issuedAfterRetirement(retireAt, issuedAt(new Date(NOW.getTime() - HOUR)))).toBe(false);
+    expect(issuedAfterRetirement(retireAt, issuedAt(NOW))).toBe(true);
+    expect(issuedAfterRetirement(retireAt, undefined)).toBe(true);
+    expect(issuedAfterRetirement(null, issuedAt(NOW))).toBe(false);
+  });
+
+  it("rejects receipts from the revocation cutoff on, or all of them without one", () => {
+    const withCutoff = { kid: "k", receiptsIssuedAfter: NOW };
+
+    expect(rejectedByRevocation(withCutoff, issuedAt(new Date(NOW.getTime() - HOUR)))).toBe(false);
+    expect(rejectedByRevocation(withCutoff, issuedAt(NOW))).toBe(true);
+    expect(rejectedByRevocation(withCutoff, undefined)).toBe(true);
+    expect(rejectedByRevocation({ kid: "k", receiptsIssuedAfter: null }, issuedAt(new Date(NOW.getTime() - HOUR)))).toBe(true);
+    expect(rejectedByRevocation(undefined, issuedAt(NOW))).toBe(false);
+  });
+});
+
+async function issued(profile: "jwt" | "vc-di" = "jwt") {
+  const { privateKey, publicKey } = await generateTestKeypair("ES256");
+  const receipt = await generateReceipt(localJwkSigner(privateKey), {
+    profile,
+    proofDigest: "digest",
+    policyHash: "policy",
+    constraintHash: "constraint",
+    statusRef: { statusListUrl: "https://registry.example/status/revocation/1", statusListIndex: "1", statusPurpose: "revocation" },
+    audience: "rp.example",
+    recordIssuance: async () => {},
+  });
+  const kid = (publicKey as any).kid as string;
+  return { receipt, kid, publicKey };
+}
+
+describe("verifying receipts against the keyring", () => {
+  function verify(receipt: string, keyringKey: ReceiptVerificationKey, receiptsIssuedAfter?: Date | null) {
+    return verifyReceipt(receipt, {
+      expectedAudience: "rp.example",
+      checkReplay: false,
+      clockTimestamp: Math.floor(Date.now() / 1000) + 3600,   // verified an hour after issuance
+      resolveKey: async (kid) => (kid === keyringKey.kid ? keyringKey : undefined),
+      resolveRevocation: async (kid) => receiptsIssuedAfter === undefined
+        ? undefined
+        : { kid, reason: "key_compromise", revokedAt: new Date(), receiptsIssuedAfter },
+    });
+  }
+
+  it("keeps verifying a rotated-out key's receipts issued before its retirement", async () => {
+    const { receipt, kid, publicKey } = await issued();
+    const retiredLater = { kid, alg: "ES256", publicJwk: publicKey, retireAt: new Date(Date.now() + 60_000) };
+    const retiredBefore = { ...retiredLater, retireAt: new Date(Date.now() - 60_000) };
+
+    expect((await verify(receipt, retiredLater)).ok).toBe(true);
+    expect((await verify(receipt, retiredBefore)).reason).toMatch(/^issued_after_key_retirement/);
+  });
+
+  it("applies the revocation cutoff", async () => {
+    const { receipt, kid, publicKey } = await issued();
+    const keyringKey = { kid, alg: "ES256", publicJwk: publicKey, retireAt: null };
+
+    expect((await verify(receipt, keyringKey, new Date(Date.now() + 60_000))).ok).toBe(true);
+    expect((await verify(receipt, keyringKey, new Date(Date.now() - 60_000))).code).toBe("RECEIPT_KEY_REVOKED");
+    expect((await verify(receipt, keyringKey, null)).code).toBe("RECEIPT_KEY_REVOKED");
+  });
+
+  it("applies revocation and retirement to keys not resolved from the keyring", async () => {
+    const { receipt, kid, publicKey } = await issued();
+    const options = {
+      publicKey,
+      expectedAudience: "rp.example",
+      checkReplay: false,
+      clockTimestamp: Math.floor(Date.now() / 1000) + 3600,
+    };
+
+    const revoked = await verifyReceipt(receipt, {
+      ...options,
+      resolveKey: async () => undefined,
+      resolveRevocation: async () => ({ kid, reason: "key_compromise", revokedAt: new Date(), receiptsIssuedAfter: null }),
+    });
+    expect(revoked.code).toBe("RECEIPT_KEY_REVOKED");
+
+    const retired = await verifyReceipt(receipt, {
+      ...options,
+      resolveKey: async () => ({ kid, alg: "ES256", publicJwk: publicKey, retireAt: new Date(Date.now() - 60_000) }),
+      resolveRevocation: async () => undefined,
+    });
+    expect(retired.reason).toMatch(/^issued_after_key_retirement/);
+  });
+});
+
+describe("verifying Data Integrity receipts against a remote JWKS", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  async function verifyWithJwks(jwksUrl: string) {
+    const { receipt, publicKey } = await issued("vc-di");
+    return {
+      publicKey,
+      verify: () => verifyReceipt(receipt, {
+        jwksUrl,
+        expectedAudience: "rp.example",
+        checkReplay: false,
+        resolveKey: async () => undefined,
+        resolveRevocation: async () => undefined,
+      }),
+    };
+  }
+
+  it("verifies with the key named by the verification method", async () => {
+    const { publicKey, verify } = await verifyWithJwks("https://issuer.example/ok/jwks.json");
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({ keys: [publicKey] })));
+
+    expect((await verify()).ok).toBe(true);
+  });
+
+  it("fails closed with a coded reason when the JWKS is not a key set", async () => {
+    const { verify } = await verifyWithJwks("https://issuer.example/broken/jwks.json");
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("<html>Bad Gateway</html>", { status: 502 })));
+
+    const result = await verify();
+    expect(result).toMatchObject({ ok: false, code: "RECEIPT_JWKS_UNAVAILABLE" });
+  });
+});
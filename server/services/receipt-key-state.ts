@@ -0,0 +1,95 @@
+/**
+ * Receipt key lifecycle rules
+ *
+ * Which keyring key signs, what state a key is in, and which receipts a
+ * retired or revoked key still vouches for. Kept free of storage so the
+ * keyring (receipt-keys.ts) and receipt verification (receipt-service.ts)
+ * apply the same rules.
+ */
+
+export type ReceiptKeyState = "active" | "retiring" | "retired" | "revoked";
+
+export interface KeyLifecycle {
+  kid: string;
+  alg: string;
+  privateJwkEnc: string | null;
+  retireAt: Date | null;
+}
+
+export interface KeyRevocation {
+  kid: string;
+  receiptsIssuedAfter: Date | null;
+}
+
+export interface RetirementConflict {
+  code: "RECEIPT_KEY_RETIRED" | "RETIRE_AT_IN_PAST";
+  reason: string;
+}
+
+// Tolerated clock skew for admin-supplied retirement times (clamped to now)
+const RETIRE_AT_SKEW_MS = 60_000;
+
+export function isRetired(key: { retireAt: Date | null }, now: Date): boolean {
+  return !!key.retireAt && key.retireAt <= now;
+}
+
+/**
+ * The key that signs new `alg` receipts: the newest one holding private
+ * material that is neither retired nor revoked
+ *
+ * @param keys - Keyring entries, newest first
+ */
+export function signingCandidate<K extends KeyLifecycle>(
+  keys: K[],
+  revocations: KeyRevocation[],
+  now: Date,
+  alg: string
+): K | undefined {
+  const revoked = new Set(revocations.map((r) => r.kid));
+  return keys.find((k) => k.alg === alg && k.privateJwkEnc && !isRetired(k, now) && !revoked.has(k.kid));
+}
+
+/**
+ * Why a key's retirement cannot be (re)scheduled to `retireAt`, if it cannot:
+ * a retired key is never brought back into service, and a backdated
+ * retirement would invalidate receipts it issued correctly
+ */
+export function retirementConflict(
+  key: { retireAt: Date | null },
+  retireAt: Date,
+  now: Date
+): RetirementConflict | null {
+  if (isRetired(key, now)) {
+    return { code: "RECEIPT_KEY_RETIRED", reason: `Key retired at ${key.retireAt!.toISOString()}` };
+  }
+  if (retireAt.getTime() < now.getTime() - RETIRE_AT_SKEW_MS) {
+    return { code: "RETIRE_AT_IN_PAST", reason: "retireAt cannot be in the past" };
+  }
+  return null;
+}
+
+export function receiptKeyState(key: KeyLifecycle, revoked: boolean, now: Date): ReceiptKeyState {
+  if (revoked) return "revoked";
+  if (isRetired(key, now)) return "retired";
+  return key.retireAt ? "retiring" : "active";
+}
+
+/**
+ * A retired key only vouches for receipts it issued before retirement
+ *
+ * @param issuedAt - Receipt iat (seconds); receipts without one are rejected
+ */
+export function issuedAfterRetirement(retireAt: Date | null, issuedAt: unknown): boolean {
+  return !!retireAt && (typeof issuedAt !== "number" || issuedAt * 1000 >= retireAt.getTime());
+}
+
+/**
+ * A revoked key vouches for nothing, or only for receipts issued before its cutoff
+ *
+ * @param issuedAt - Receipt iat (seconds); receipts without one are rejected
+ */
+export function rejectedByRevocation(revocation: KeyRevocation | undefined, issuedAt: unknown): boolean {
+  if (!revocation) return false;
+  const cutoff = revocation.receiptsIssuedAfter;
+  return !cutoff || typeof issuedAt !== "number" || issuedAt * 1000 >= cutoff.getTime();
+}
@@ -0,0 +1,369 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import { calculateJwkThumbprint, exportJWK, generateKeyPair } from "jose";
+import { and, desc, eq, gt, isNull, or } from "drizzle-orm";
+import { db } from "../db.js";
+import {
+  receiptSigningKeys,
+  revokedReceiptKeys,
+  type ReceiptSigningKey,
+  type RevokedReceiptKey,
+} from "../../shared/schema.js";
+import { signingAlgorithms, type ReceiptAlg } from "./receipt-alg-policy.js";
+import {
+  receiptKeyState,
+  retirementConflict,
+  signingCandidate,
+  type ReceiptKeyState,
+  type RetirementConflict,
+} from "./receipt-key-state.js";
+
+/**
+ * Receipt signing keyring
+ *
+ * Receipts are signed by the newest key of the requested algorithm (ES256,
+ * ES384 or EdDSA - see receipt-alg-policy.ts) that is not retired and carry its
+ * kid; verification selects the key by kid, so rotation never invalidates
+ * receipts already issued. A retired key stops signing but keeps verifying
+ * receipts issued before its retirement time, until they expire.
+ *
+ * Private JWKs are sealed with AES-256-GCM under RECEIPT_KEY_ENCRYPTION_KEY
+ * (32 bytes, base64), which is required in every environment that stores
+ * private keys in the keyring; there is no built-in fallback key.
+ * RECEIPT_VERIFIER_PRIVATE_JWK / RECEIPT_VERIFIER_PUBLIC_JWK,
+ * when set, are imported into the keyring at startup. Keys held by an
+ * external signer (services/signers) are registered without private material.
+ *
+ * Revoked kids (revoked_receipt_keys) never sign again. Their receipts are
+ * rejected outright, or only from `receiptsIssuedAfter` on when a cutoff is
+ * set. Receipt verification reads the revocation from the database on every
+ * call, so a revoked kid stops verifying on every instance at once; the
+ * keyring cache (JWKS, signing key selection) follows within its 60s TTL.
+ */
+
+const CACHE_TTL_MS = 60 * 1000;
+const DEFAULT_RECEIPT_KEY_ALG: ReceiptAlg = "ES256";
+
+export type { ReceiptKeyState } from "./receipt-key-state.js";
+
+export type ReceiptKeyRevocationReason = "key_compromise" | "superseded" | "cessation_of_operation" | "unspecified";
+
+export interface ReceiptKeyInfo {
+  kid: string;
+  alg: string;
+  state: ReceiptKeyState;
+  current: boolean;             // Signs new receipts
+  createdAt: Date;
+  retireAt: Date | null;
+}
+
+export interface ReceiptVerificationKey {
+  kid: string;
+  alg: string;
+  publicJwk: JsonWebKey;
+  retireAt: Date | null;
+}
+
+let cache: { keys: ReceiptSigningKey[]; revocations: RevokedReceiptKey[]; loadedAt: number } | null = null;
+const currentSigningKeys = new Map<string, JsonWebKey>();  // By alg
+
+function encryptionKey(): Buffer {
+  const configured = process.env.RECEIPT_KEY_ENCRYPTION_KEY;
+  if (!configured) {
+    throw new Error(
+      "RECEIPT_KEY_ENCRYPTION_KEY must be set to store private receipt keys (generate one with `openssl rand -base64 32`)"
+    );
+  }
+  const key = Buffer.from(configured, "base64");
+  if (key.length !== 32) {
+    throw new Error("RECEIPT_KEY_ENCRYPTION_KEY must be 32 bytes (base64)");
+  }
+  return key;
+}
+
+/**
+ * Seal a private JWK (v1.<iv>.<tag>.<ciphertext>, base64url)
+ */
+function sealPrivateJwk(jwk: JsonWebKey): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(jwk), "utf8"), cipher.final()]);
+  return ["v1", iv, cipher.getAuthTag(), ciphertext].map((p) => (typeof p === "string" ? p : p.toString("base64url"))).join(".");
+}
+
+function openPrivateJwk(sealed: string): JsonWebKey {
+  const [version, iv, tag, ciphertext] = sealed.split(".");
+  if (version !== "v1") {
+    throw new Error(`Unsupported sealed key version: ${version}`);
+  }
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), Buffer.from(iv, "base64url"));
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+  const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]);
+  return JSON.parse(plaintext.toString("utf8"));
+}
+
+async function loadKeyring(force = false) {
+  if (!force && cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache;
+  }
+  const [keys, revocations] = await Promise.all([
+    db.select().from(receiptSigningKeys).orderBy(desc(receiptSigningKeys.createdAt)),
+    db.select().from(revokedReceiptKeys).orderBy(desc(revokedReceiptKeys.revokedAt)),
+  ]);
+  cache = { keys, revocations, loadedAt: Date.now() };
+  return cache;
+}
+
+async function loadKeys(force = false): Promise<ReceiptSigningKey[]> {
+  return (await loadKeyring(force)).keys;
+}
+
+/**
+ * Private JWK (with kid and alg) of the key that signs new receipts with `alg`
+ */
+export async function getCurrentSigningKey(alg: ReceiptAlg = DEFAULT_RECEIPT_KEY_ALG): Promise<JsonWebKey | null> {
+  const { keys, revocations } = await loadKeyring();
+  const candidate = signingCandidate(keys, revocations, new Date(), alg);
+  if (!candidate) {
+    currentSigningKeys.delete(alg);
+    return null;
+  }
+  if ((currentSigningKeys.get(alg) as any)?.kid !== candidate.kid) {
+    try {
+      currentSigningKeys.set(alg, { ...openPrivateJwk(candidate.privateJwkEnc!), alg: candidate.alg, kid: candidate.kid } as JsonWebKey);
+    } catch (error: any) {
+      console.error(`[receipt-keys] Cannot unseal signing key ${candidate.kid}:`, error.message);
+      currentSigningKeys.delete(alg);
+    }
+  }
+  return currentSigningKeys.get(alg) || null;
+}
+
+/**
+ * Find the public key for a receipt kid (active or retired)
+ */
+export async function findReceiptVerificationKey(kid: string): Promise<ReceiptVerificationKey | undefined> {
+  let key = (await loadKeys()).find((k) => k.kid === kid);
+  if (!key) {
+    // A key rotated in by another instance may not be cached yet
+    key = (await loadKeys(true)).find((k) => k.kid === kid);
+  }
+  if (!key) return undefined;
+  return { kid: key.kid, alg: key.alg, publicJwk: key.publicJwk as JsonWebKey, retireAt: key.retireAt };
+}
+
+/**
+ * Revocation entry for a kid, if the key has been revoked
+ * Read from the database, not the keyring cache, so revocations by another
+ * instance apply immediately.
+ */
+export async function findReceiptKeyRevocation(kid: string): Promise<RevokedReceiptKey | undefined> {
+  const [row] = await db.select().from(revokedReceiptKeys).where(eq(revokedReceiptKeys.kid, kid)).limit(1);
+  return row;
+}
+
+/**
+ * Public JWKS of every key that can still verify receipts (fully revoked keys excluded)
+ */
+export async function getPublicJwks(): Promise<{ keys: JsonWebKey[] }> {
+  const { keys, revocations } = await loadKeyring();
+  const fullyRevoked = new Set(revocations.filter((r) => !r.receiptsIssuedAfter).map((r) => r.kid));
+  return {
+    keys: keys.filter((k) => !fullyRevoked.has(k.kid)).map((k) => ({ ...(k.publicJwk as JsonWebKey), kid: k.kid, alg: k.alg, use: "sig" } as JsonWebKey)),
+  };
+}
+
+/**
+ * Describe keyring entries (no private material)
+ */
+export async function listReceiptKeys(): Promise<ReceiptKeyInfo[]> {
+  const now = new Date();
+  const { keys, revocations } = await loadKeyring(true);
+  const current = new Set(
+    Array.from(new Set(keys.map((k) => k.alg))).map((alg) => signingCandidate(keys, revocations, now, alg)?.kid)
+  );
+  const revoked = new Set(revocations.map((r) => r.kid));
+  return keys.map((k) => ({
+    kid: k.kid,
+    alg: k.alg,
+    state: receiptKeyState(k, revoked.has(k.kid), now),
+    current: current.has(k.kid),
+    createdAt: k.createdAt,
+    retireAt: k.retireAt,
+  }));
+}
+
+async function insertKey(privateJwk: JsonWebKey | null, publicJwk: JsonWebKey, alg: string): Promise<ReceiptSigningKey> {
+  const { kid: _kid, alg: _alg, use: _use, ...bare } = publicJwk as any;
+  const kid = (publicJwk as any).kid || (await calculateJwkThumbprint(bare));
+  const [row] = await db
+    .insert(receiptSigningKeys)
+    .values({
+      kid,
+      alg,
+      publicJwk: bare,
+      privateJwkEnc: privateJwk ? sealPrivateJwk(privateJwk) : null,
+    })
+    .onConflictDoNothing()
+    .returning();
+  cache = null;
+  return row || (await findRow(kid))!;
+}
+
+async function findRow(kid: string): Promise<ReceiptSigningKey | undefined> {
+  const [row] = await db.select().from(receiptSigningKeys).where(eq(receiptSigningKeys.kid, kid)).limit(1);
+  return row;
+}
+
+/**
+ * Register the public key of an external (PKCS#11 / remote) signer so it is
+ * published and receipts verify by kid
+ */
+export async function registerExternalReceiptKey(publicJwk: JsonWebKey, alg: string): Promise<ReceiptSigningKey> {
+  return insertKey(null, publicJwk, alg);
+}
+
+/**
+ * Generate a new signing key for `alg` (default ES256); keys of that algorithm
+ * not yet scheduled for retirement retire at `retirePreviousAt` (default now)
+ * and keep verifying their receipts
+ */
+export async function rotateReceiptKey(options: { retirePreviousAt?: Date; alg?: ReceiptAlg } = {}): Promise<ReceiptKeyInfo> {
+  const alg = options.alg || DEFAULT_RECEIPT_KEY_ALG;
+  const { privateKey, publicKey } = await generateKeyPair(alg, { extractable: true });
+  const retireAt = options.retirePreviousAt || new Date();
+
+  await db
+    .update(receiptSigningKeys)
+    .set({ retireAt })
+    .where(and(isNull(receiptSigningKeys.retireAt), eq(receiptSigningKeys.alg, alg)));
+  const row = await insertKey(await exportJWK(privateKey), await exportJWK(publicKey), alg);
+
+  const info = (await listReceiptKeys()).find((k) => k.kid === row.kid)!;
+  console.log(`[receipt-keys] Rotated ${alg} receipt signing key (kid: ${row.kid})`);
+  return info;
+}
+
+/**
+ * Schedule (or move) the retirement of a key still in service
+ *
+ * Retired keys and past retirement times are refused (see retirementConflict);
+ * a retirement time within the tolerated skew of now is clamped to now.
+ */
+export async function scheduleReceiptKeyRetirement(kid: string, retireAt: Date = new Date()): Promise<
+  | { ok: true; key: ReceiptKeyInfo }
+  | { ok: false; code: "RECEIPT_KEY_NOT_FOUND" | RetirementConflict["code"]; reason: string }
+> {
+  const now = new Date();
+  const existing = await findRow(kid);
+  if (!existing) {
+    return { ok: false, code: "RECEIPT_KEY_NOT_FOUND", reason: `Unknown kid ${kid}` };
+  }
+  const rejected = retirementConflict(existing, retireAt, now);
+  if (rejected) {
+    return { ok: false, ...rejected };
+  }
+
+  // Conditional on the key still being in service when the update runs
+  const [row] = await db
+    .update(receiptSigningKeys)
+    .set({ retireAt: retireAt < now ? now : retireAt })
+    .where(and(
+      eq(receiptSigningKeys.kid, kid),
+      or(isNull(receiptSigningKeys.retireAt), gt(receiptSigningKeys.retireAt, now)),
+    ))
+    .returning();
+  if (!row) {
+    return { ok: false, code: "RECEIPT_KEY_RETIRED", reason: "Key retired meanwhile" };
+  }
+  cache = null;
+  return { ok: true, key: (await listReceiptKeys()).find((k) => k.kid === kid)! };
+}
+
+/**
+ * Revoke a kid (keyring or external); re-revoking updates reason and cutoff
+ *
+ * @param options.receiptsIssuedAfter - Only reject receipts issued at or after this time
+ */
+export async function revokeReceiptKey(
+  kid: string,
+  options: { reason: ReceiptKeyRevocationReason; receiptsIssuedAfter?: Date | null }
+): Promise<RevokedReceiptKey> {
+  const values = { reason: options.reason, receiptsIssuedAfter: options.receiptsIssuedAfter ?? null };
+  const [row] = await db
+    .insert(revokedReceiptKeys)
+    .values({ kid, ...values })
+    .onConflictDoUpdate({ target: revokedReceiptKeys.kid, set: values })
+    .returning();
+  cache = null;
+  for (const [alg, jwk] of Array.from(currentSigningKeys.entries())) {
+    if ((jwk as any).kid === kid) currentSigningKeys.delete(alg);
+  }
+  console.log(`[receipt-keys] Revoked receipt key ${kid} (${options.reason})`);
+  return row;
+}
+
+/**
+ * All revoked kids, newest first
+ */
+export async function listRevokedReceiptKeys(): Promise<RevokedReceiptKey[]> {
+  return (await loadKeyring(true)).revocations;
+}
+
+/**
+ * Import the environment key (if configured) and make sure a signing key exists
+ *
+ * @param options.localSigning - false when an external signer signs receipts
+ * @throws Error in production when no signing key is available
+ */
+export async function initReceiptKeyring(options: { localSigning?: boolean } = {}): Promise<void> {
+  // Legacy REVOKED_KEY_IDS entries become persisted revocations
+  const legacyRevoked = (process.env.REVOKED_KEY_IDS || "").split(",").map((k) => k.trim()).filter(Boolean);
+  if (legacyRevoked.length > 0) {
+    await db
+      .insert(revokedReceiptKeys)
+      .values(legacyRevoked.map((kid) => ({ kid, reason: "key_compromise" })))
+      .onConflictDoNothing();
+    cache = null;
+  }
+
+  if (options.localSigning === false) {
+    return;
+  }
+
+  const privateKeyEnv = process.env.RECEIPT_VERIFIER_PRIVATE_JWK;
+  const publicKeyEnv = process.env.RECEIPT_VERIFIER_PUBLIC_JWK;
+  if (privateKeyEnv && publicKeyEnv) {
+    try {
+      const publicJwk = JSON.parse(publicKeyEnv);
+      const row = await insertKey(JSON.parse(privateKeyEnv), publicJwk, publicJwk.alg || DEFAULT_RECEIPT_KEY_ALG);
+      console.log(`[receipt-keys] ✓ Receipt verifier key from environment in keyring (kid: ${row.kid})`);
+    } catch (error: any) {
+      console.error("[receipt-keys] Failed to import receipt keys from environment:", error.message);
+    }
+  }
+
+  // Every algorithm RECEIPT_ALG_POLICY signs with needs a key
+  const missing: ReceiptAlg[] = [];
+  for (const alg of signingAlgorithms()) {
+    const key = await getCurrentSigningKey(alg);
+    if (key) {
+      console.log(`[receipt-keys] ✓ Signing ${alg} receipts with kid ${(key as any).kid}`);
+    } else {
+      missing.push(alg);
+    }
+  }
+  if (missing.length === 0) return;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(
+      `[receipt-keys] PRODUCTION ERROR: No ${missing.join(", ")} receipt signing key in the keyring. ` +
+      "Set RECEIPT_VERIFIER_PUBLIC_JWK and RECEIPT_VERIFIER_PRIVATE_JWK or rotate a key via the admin API."
+    );
+  }
+
+  for (const alg of missing) {
+    console.warn(`[receipt-keys] ⚠️  DEVELOPMENT MODE: Generating a ${alg} receipt signing key`);
+    await rotateReceiptKey({ alg });
+    await getCurrentSigningKey(alg);
+  }
+}
@@ -0,0 +1,55 @@
+import { randomUUID } from "node:crypto";
+import { and, eq, sql } from "drizzle-orm";
+import { db } from "../db.js";
+import { storage } from "../storage.js";
+import { auditEvents, type AuditEvent } from "../../shared/schema.js";
+
+/**
+ * Receipt transparency
+ *
+ * Every receipt generateReceipt() signs is logged as a RECEIPT_ISSUED audit
+ * event (jti, digest hash, kid), so it is covered by the audit Merkle tree.
+ * A receipt minted outside the registry - e.g. with a leaked signing key -
+ * has no log entry; verifiers can require an inclusion proof
+ * (GET /api/audit/receipts/:jti/proof) before accepting a receipt.
+ */
+
+export interface ReceiptLogEntry {
+  jti: string;
+  kid: string;
+  alg: string;
+  digestHash: string;            // proof_digest the receipt vouches for
+  audience: string;
+  profile: string;
+  assetId?: string;              // receipt sub, when bound to an existing asset
+  expiresAt: number;             // exp (seconds)
+}
+
+export async function logIssuedReceipt(entry: ReceiptLogEntry): Promise<void> {
+  await storage.createAuditEvent({
+    eventType: "RECEIPT_ISSUED",
+    assetId: entry.assetId || null,
+    payload: {
+      jti: entry.jti,
+      digest_hash: entry.digestHash,
+      kid: entry.kid,
+      alg: entry.alg,
+      audience: entry.audience,
+      profile: entry.profile,
+      expires_at: new Date(entry.expiresAt * 1000).toISOString(),
+    },
+    traceId: randomUUID(),
+  });
+}
+
+/**
+ * The RECEIPT_ISSUED event logged for a jti
+ */
+export async function findReceiptLogEvent(jti: string): Promise<AuditEvent | undefined> {
+  const [event] = await db
+    .select()
+    .from(auditEvents)
+    .where(and(eq(auditEvents.eventType, "RECEIPT_ISSUED"), sql`${auditEvents.payload}->>'jti' = ${jti}`))
+    .limit(1);
+  return event;
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { createHash, generateKeyPairSync } from "node:crypto";
+import { SignJWT } from "jose";
+import { verifySdJwtPresentation } from "./sd-jwt.js";
+
+/**
+ * Tests for SD-JWT VC presentation verification (issuer key embedded, no network)
+ */
+
+const issuer = generateKeyPairSync("ed25519");
+const holder = generateKeyPairSync("ed25519");
+const holderJwk = holder.publicKey.export({ format: "jwk" });
+
+const b64u = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+const digest = (disclosure: string) => createHash("sha256").update(disclosure).digest("base64url");
+
+const givenName = b64u(["salt-1", "given_name", "Alice"]);
+const birthdate = b64u(["salt-2", "birthdate", "1990-01-01"]);
+const nationality = b64u(["salt-3", "DE"]);
+
+async function issue() {
+  return new SignJWT({
+    iss: "https://issuer.example",
+    vct: "https://credentials.example/identity",
+    _sd_alg: "sha-256",
+    _sd: [digest(givenName), digest(birthdate), "decoy-digest"],
+    nationalities: [{ "...": digest(nationality) }],
+    cnf: { jwk: holderJwk },
+  })
+    .setProtectedHeader({ alg: "EdDSA", typ: "dc+sd-jwt", jwk: issuer.publicKey.export({ format: "jwk" }) as any })
+    .setIssuedAt()
+    .sign(issuer.privateKey);
+}
+
+async function present(disclosures: string[], kb: { nonce: string; aud: string }) {
+  const sdJwt = `${await issue()}~${disclosures.map((d) => `${d}~`).join("")}`;
+  const kbJwt = await new SignJWT({
+    nonce: kb.nonce,
+    sd_hash: createHash("sha256").update(sdJwt).digest("base64url"),
+  })
+    .setProtectedHeader({ alg: "EdDSA", typ: "kb+jwt" })
+    .setAudience(kb.aud)
+    .setIssuedAt()
+    .sign(holder.privateKey);
+  return sdJwt + kbJwt;
+}
+
+describe("verifySdJwtPresentation", () => {
+  it("verifies disclosures and key binding, returning claim names only", async () => {
+    const presentation = await present([givenName, nationality], { nonce: "n-1", aud: "https://verifier.example" });
+    const result = await verifySdJwtPresentation(presentation, { nonce: "n-1", audience: "https://verifier.example" });
+
+    expect(result.ok).toBe(true);
+    expect(result.keyBound).toBe(true);
+    expect(result.disclosedClaims).toEqual(["given_name", "nationalities[]"]);
+    expect(JSON.stringify(result)).not.toContain("Alice");
+  });
+
+  it("rejects a disclosure that the issuer did not sign", async () => {
+    const forged = b64u(["salt-9", "given_name", "Mallory"]);
+    const presentation = await present([forged], { nonce: "n-1", aud: "https://verifier.example" });
+    const result = await verifySdJwtPresentation(presentation, { nonce: "n-1", audience: "https://verifier.example" });
+
+    expect(result.code).toBe("SD_JWT_DISCLOSURE_UNREFERENCED");
+  });
+
+  it("rejects a KB-JWT bound to a different nonce", async () => {
+    const presentation = await present([birthdate], { nonce: "n-1", aud: "https://verifier.example" });
+    const result = await verifySdJwtPresentation(presentation, { nonce: "n-2", audience: "https://verifier.example" });
+
+    expect(result.code).toBe("SD_JWT_KB_NONCE_MISMATCH");
+  });
+
+  it("requires key binding for a cnf-bound credential", async () => {
+    const presentation = `${await issue()}~${birthdate}~`;
+    const result = await verifySdJwtPresentation(presentation, { nonce: "n-1", audience: "https://verifier.example" });
+
+    expect(result.code).toBe("SD_JWT_KB_REQUIRED");
+  });
+});
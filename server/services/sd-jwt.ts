@@ -0,0 +1,278 @@
+import { createHash } from "node:crypto";
+import { importJWK, jwtVerify } from "jose";
+
+/**
+ * IETF SD-JWT VC presentation verification (SD_JWT_VC)
+ *
+ * A presentation is `<issuer-jwt>~<disclosure>~...~<disclosure>~<kb-jwt>`
+ * (the KB-JWT is empty when no key binding is presented). Verification:
+ *
+ * - issuer JWT signature via verifyJWS, typ dc+sd-jwt (or legacy vc+sd-jwt)
+ * - every disclosure digest is referenced exactly once from an `_sd` array
+ *   or `{"...": digest}` array element, recursively through disclosed values
+ * - when the credential carries `cnf`, a KB-JWT signed by that key with the
+ *   verifier-supplied nonce and audience and an sd_hash over the presentation
+ *
+ * Only the names (paths) of disclosed claims are returned, never their values.
+ * SD_JWT_KB_MAX_AGE_SECONDS bounds the KB-JWT iat (default 300).
+ */
+
+const SD_HASH_ALGS: Record<string, string> = {
+  "sha-256": "sha256",
+  "sha-384": "sha384",
+  "sha-512": "sha512",
+};
+
+const ISSUER_JWT_TYPES = new Set(["dc+sd-jwt", "vc+sd-jwt"]);
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface SdJwtVerifyOptions {
+  issuerDid?: string;
+  nonce?: string;               // Verifier-supplied KB-JWT nonce
+  audience?: string;            // Verifier-supplied KB-JWT audience
+  now?: Date;
+}
+
+export interface SdJwtVerifyResult {
+  ok: boolean;
+  code?: string;
+  reason?: string;
+  algorithm?: string;
+  publicKeyDigest?: string;     // Digest of the issuer signing key
+  issuer?: string;
+  vct?: string;
+  sdAlg?: string;
+  disclosedClaims?: string[];
+  keyBound?: boolean;
+}
+
+interface Disclosure {
+  encoded: string;
+  name?: string;                // Absent for array-element disclosures
+  value: unknown;
+  used: boolean;
+}
+
+function fail(code: string, reason: string): SdJwtVerifyResult {
+  return { ok: false, code, reason };
+}
+
+function decodeJwtPart(part: string): any {
+  return JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+}
+
+/**
+ * Verify an SD-JWT VC presentation
+ *
+ * @param presentation - Compact SD-JWT (with optional KB-JWT)
+ * @param options - Registered issuer and the verifier's nonce/audience
+ */
+export async function verifySdJwtPresentation(
+  presentation: string,
+  options: SdJwtVerifyOptions = {}
+): Promise<SdJwtVerifyResult> {
+  const parts = presentation.trim().split("~");
+  if (parts.length < 2) {
+    return fail("SD_JWT_INVALID", "Presentation must be <issuer-jwt>~[<disclosure>~]*[<kb-jwt>]");
+  }
+  const issuerJwt = parts[0];
+  const kbJwt = parts[parts.length - 1];
+  const encodedDisclosures = parts.slice(1, -1);
+
+  let header: any;
+  try {
+    header = decodeJwtPart(issuerJwt.split(".")[0]);
+  } catch {
+    return fail("SD_JWT_INVALID", "Issuer JWT header is not valid JSON");
+  }
+  if (!ISSUER_JWT_TYPES.has(header.typ)) {
+    return fail("SD_JWT_INVALID", `Issuer JWT typ must be dc+sd-jwt, got ${header.typ}`);
+  }
+
+  const { verifyJWS } = await import("../proof-verification.js");
+  const signature = await verifyJWS(issuerJwt, { issuerDid: options.issuerDid });
+  if (!signature.ok) {
+    return fail(signature.code || "SD_JWT_SIGNATURE_INVALID", `Issuer signature invalid: ${signature.reason}`);
+  }
+  const payload = signature.derivedFacts?.claims as Record<string, any>;
+  if (options.issuerDid && payload.iss && payload.iss !== options.issuerDid) {
+    return fail("SD_JWT_ISSUER_MISMATCH", `Issuer mismatch - expected ${options.issuerDid}, got ${payload.iss}`);
+  }
+
+  const sdAlg = payload._sd_alg || "sha-256";
+  const hashName = SD_HASH_ALGS[sdAlg];
+  if (!hashName) {
+    return fail("SD_JWT_INVALID", `Unsupported _sd_alg: ${sdAlg}`);
+  }
+  const digestOf = (input: string) => createHash(hashName).update(input, "ascii").digest("base64url");
+
+  // Index disclosures by digest
+  const disclosures = new Map<string, Disclosure>();
+  for (const encoded of encodedDisclosures) {
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    } catch {
+      return fail("SD_JWT_DISCLOSURE_INVALID", "Disclosure is not base64url-encoded JSON");
+    }
+    if (!Array.isArray(decoded) || (decoded.length !== 2 && decoded.length !== 3) || typeof decoded[0] !== "string") {
+      return fail("SD_JWT_DISCLOSURE_INVALID", "Disclosure must be [salt, name, value] or [salt, value]");
+    }
+    if (decoded.length === 3 && (typeof decoded[1] !== "string" || decoded[1] === "_sd" || decoded[1] === "...")) {
+      return fail("SD_JWT_DISCLOSURE_INVALID", "Disclosure claim name is invalid");
+    }
+    const digest = digestOf(encoded);
+    if (disclosures.has(digest)) {
+      return fail("SD_JWT_DISCLOSURE_INVALID", "Duplicate disclosure");
+    }
+    disclosures.set(digest, {
+      encoded,
+      name: decoded.length === 3 ? decoded[1] : undefined,
+      value: decoded.length === 3 ? decoded[2] : decoded[1],
+      used: false,
+    });
+  }
+
+  // Walk the payload, resolving digests into disclosed claim paths
+  const disclosedClaims: string[] = [];
+  const take = (digest: unknown): Disclosure | undefined => {
+    const disclosure = typeof digest === "string" ? disclosures.get(digest) : undefined;
+    if (!disclosure) return undefined; // decoy or undisclosed claim
+    if (disclosure.used) {
+      throw new Error("Disclosure digest referenced more than once");
+    }
+    disclosure.used = true;
+    return disclosure;
+  };
+  const walk = (value: unknown, path: string): void => {
+    if (Array.isArray(value)) {
+      for (const element of value) {
+        const isDigestRef = element && typeof element === "object" && !Array.isArray(element)
+          && Object.keys(element).length === 1 && "..." in element;
+        if (isDigestRef) {
+          const disclosure = take((element as any)["..."]);
+          if (!disclosure) continue;
+          if (disclosure.name !== undefined) {
+            throw new Error("Object-property disclosure referenced from an array");
+          }
+          disclosedClaims.push(`${path}[]`);
+          walk(disclosure.value, `${path}[]`);
+        } else {
+          walk(element, `${path}[]`);
+        }
+      }
+      return;
+    }
+    if (!value || typeof value !== "object") return;
+
+    const obj = value as Record<string, unknown>;
+    const digests = obj._sd;
+    if (digests !== undefined && !Array.isArray(digests)) {
+      throw new Error("_sd must be an array");
+    }
+    for (const digest of (digests as unknown[]) || []) {
+      const disclosure = take(digest);
+      if (!disclosure) continue;
+      if (disclosure.name === undefined) {
+        throw new Error("Array-element disclosure referenced from _sd");
+      }
+      if (disclosure.name in obj) {
+        throw new Error(`Disclosed claim ${disclosure.name} overwrites an existing claim`);
+      }
+      const claimPath = path ? `${path}.${disclosure.name}` : disclosure.name;
+      disclosedClaims.push(claimPath);
+      walk(disclosure.value, claimPath);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      if (key === "_sd" || key === "_sd_alg") continue;
+      walk(child, path ? `${path}.${key}` : key);
+    }
+  };
+
+  try {
+    walk(payload, "");
+  } catch (error: any) {
+    return fail("SD_JWT_DISCLOSURE_INVALID", error.message);
+  }
+  const unreferenced = Array.from(disclosures.values()).filter((d) => !d.used);
+  if (unreferenced.length > 0) {
+    return fail("SD_JWT_DISCLOSURE_UNREFERENCED", `${unreferenced.length} disclosure(s) not referenced by the credential`);
+  }
+
+  // Key binding
+  const holderJwk = payload.cnf?.jwk;
+  if (!holderJwk && kbJwt) {
+    return fail("SD_JWT_KB_INVALID", "KB-JWT presented but the credential has no cnf key");
+  }
+  if (holderJwk) {
+    if (!kbJwt) {
+      return fail("SD_JWT_KB_REQUIRED", "Credential is key-bound - a KB-JWT is required");
+    }
+    if (!options.nonce || !options.audience) {
+      return fail("SD_JWT_KB_CONTEXT_REQUIRED", "Verifier nonce and audience are required to validate the KB-JWT");
+    }
+    const kb = await verifyKeyBinding(kbJwt, holderJwk, {
+      nonce: options.nonce,
+      audience: options.audience,
+      sdHash: digestOf(presentation.trim().slice(0, presentation.trim().length - kbJwt.length)),
+      now: options.now || new Date(),
+    });
+    if (!kb.ok) {
+      return fail(kb.code!, kb.reason!);
+    }
+  }
+
+  return {
+    ok: true,
+    algorithm: signature.algorithm,
+    publicKeyDigest: signature.publicKeyDigest,
+    issuer: payload.iss,
+    vct: payload.vct,
+    sdAlg,
+    disclosedClaims: disclosedClaims.sort(),
+    keyBound: !!holderJwk,
+  };
+}
+
+async function verifyKeyBinding(
+  kbJwt: string,
+  holderJwk: Record<string, unknown>,
+  expected: { nonce: string; audience: string; sdHash: string; now: Date }
+): Promise<{ ok: boolean; code?: string; reason?: string }> {
+  let header: any;
+  try {
+    header = decodeJwtPart(kbJwt.split(".")[0]);
+  } catch {
+    return { ok: false, code: "SD_JWT_KB_INVALID", reason: "KB-JWT header is not valid JSON" };
+  }
+  if (header.typ !== "kb+jwt" || typeof header.alg !== "string" || header.alg === "none") {
+    return { ok: false, code: "SD_JWT_KB_INVALID", reason: "KB-JWT must have typ kb+jwt and a signing alg" };
+  }
+
+  let payload: any;
+  try {
+    const key = await importJWK(holderJwk as any, header.alg);
+    ({ payload } = await jwtVerify(kbJwt, key, {
+      algorithms: [header.alg],
+      audience: expected.audience,
+      currentDate: expected.now,
+    }));
+  } catch (error: any) {
+    return { ok: false, code: "SD_JWT_KB_INVALID", reason: `KB-JWT verification failed: ${error.message}` };
+  }
+
+  if (payload.nonce !== expected.nonce) {
+    return { ok: false, code: "SD_JWT_KB_NONCE_MISMATCH", reason: "KB-JWT nonce does not match" };
+  }
+  if (payload.sd_hash !== expected.sdHash) {
+    return { ok: false, code: "SD_JWT_KB_INVALID", reason: "KB-JWT sd_hash does not match the presentation" };
+  }
+
+  const maxAge = parseInt(process.env.SD_JWT_KB_MAX_AGE_SECONDS || "300", 10);
+  const nowSeconds = Math.floor(expected.now.getTime() / 1000);
+  if (typeof payload.iat !== "number" || payload.iat > nowSeconds + CLOCK_SKEW_SECONDS || nowSeconds - payload.iat > maxAge) {
+    return { ok: false, code: "SD_JWT_KB_STALE", reason: `KB-JWT iat outside the ${maxAge}s window` };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,103 @@
+import {
+  findReceiptKeyRevocation,
+  getCurrentSigningKey,
+  initReceiptKeyring,
+  registerExternalReceiptKey,
+} from "../receipt-keys.js";
+import { localJwkSigner } from "./local.js";
+import { pkcs11ConfigFromEnv, pkcs11Signer } from "./pkcs11.js";
+import { remoteConfigFromEnv, remoteSigner } from "./remote.js";
+import type { Signer, SignerBackend } from "./types.js";
+import { signingAlgorithmFor, type ReceiptAlg } from "../receipt-alg-policy.js";
+
+export type { Signer, SignerBackend } from "./types.js";
+export { localJwkSigner } from "./local.js";
+export { signJwt } from "./jwt.js";
+
+/**
+ * Receipt signer selection
+ *
+ * RECEIPT_SIGNER picks the backend that signs receipts and usage receipts:
+ *
+ * - local (default): the keyring's current key (services/receipt-keys.ts)
+ * - pkcs11: a key pair in an HSM / SoftHSM token (signers/pkcs11.ts)
+ * - remote: an HTTPS signing service (signers/remote.ts)
+ *
+ * External keys are registered in the keyring without private material, so
+ * they are published in the JWKS and receipts verify by kid as usual. An
+ * external signer holds one key, so it only serves its own algorithm.
+ */
+
+let externalSigner: Promise<Signer> | null = null;
+const localSigners = new Map<string, Signer>();  // By alg
+
+export function receiptSignerBackend(): SignerBackend {
+  const backend = (process.env.RECEIPT_SIGNER || "local").toLowerCase();
+  if (backend !== "local" && backend !== "pkcs11" && backend !== "remote") {
+    throw new Error(`Unknown RECEIPT_SIGNER: ${backend}`);
+  }
+  return backend;
+}
+
+async function connectExternalSigner(backend: SignerBackend): Promise<Signer> {
+  const signer = backend === "pkcs11"
+    ? await pkcs11Signer(pkcs11ConfigFromEnv())
+    : await remoteSigner(remoteConfigFromEnv());
+  await registerExternalReceiptKey(signer.publicJwk, signer.alg);
+  console.log(`[signers] ✓ ${backend} receipt signer ready (kid: ${signer.kid})`);
+  return signer;
+}
+
+/**
+ * Signer for new receipts with `alg` (see receipt-alg-policy.ts), or null when
+ * no key is available
+ */
+export async function getReceiptSigner(alg: ReceiptAlg = "ES256"): Promise<Signer | null> {
+  const backend = receiptSignerBackend();
+
+  if (backend === "local") {
+    const jwk = await getCurrentSigningKey(alg);
+    if (!jwk) return null;
+    const cached = localSigners.get(alg);
+    if (cached && cached.kid === (jwk as any).kid) return cached;
+    const signer = localJwkSigner(jwk);
+    localSigners.set(alg, signer);
+    return signer;
+  }
+
+  if (!externalSigner) {
+    externalSigner = connectExternalSigner(backend);
+  }
+  let signer: Signer;
+  try {
+    signer = await externalSigner;
+  } catch (error: any) {
+    // Retry the connection on the next call
+    externalSigner = null;
+    console.error(`[signers] ${backend} receipt signer unavailable:`, error.message);
+    return null;
+  }
+  if (signer.alg !== alg) {
+    console.error(`[signers] ${backend} receipt signer holds an ${signer.alg} key - cannot sign ${alg} receipts`);
+    return null;
+  }
+  if (await findReceiptKeyRevocation(signer.kid)) {
+    console.error(`[signers] ${backend} receipt signing key ${signer.kid} is revoked - not signing`);
+    return null;
+  }
+  return signer;
+}
+
+/**
+ * Prepare the keyring and the configured signer at startup
+ *
+ * @throws Error in production when the local keyring has no signing key
+ */
+export async function initReceiptSigner(): Promise<void> {
+  const backend = receiptSignerBackend();
+  await initReceiptKeyring({ localSigning: backend === "local" });
+  if (backend !== "local") {
+    // Failures are logged; the connection is retried on first use
+    await getReceiptSigner(signingAlgorithmFor());
+  }
+}
@@ -0,0 +1,16 @@
+import type { Signer } from "./types.js";
+
+/**
+ * Sign a JWT (compact JWS) with a signer; kid and alg come from the signer
+ */
+export async function signJwt(
+  signer: Signer,
+  payload: Record<string, unknown>,
+  header: Record<string, unknown> = {}
+): Promise<string> {
+  const protectedHeader = { ...header, alg: signer.alg, kid: signer.kid };
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value), "utf8").toString("base64url");
+  const signingInput = `${encode(protectedHeader)}.${encode(payload)}`;
+  const signature = await signer.sign(Buffer.from(signingInput, "ascii"));
+  return `${signingInput}.${Buffer.from(signature).toString("base64url")}`;
+}
@@ -0,0 +1,45 @@
+import { createPrivateKey, sign as signWithKey } from "node:crypto";
+import type { Signer } from "./types.js";
+
+/**
+ * Local JWK signer - the private key is held in process memory
+ * (unsealed from the receipt keyring)
+ */
+
+// JWS alg -> node hash (null: EdDSA hashes internally)
+const ALG_HASHES: Record<string, string | null> = {
+  ES256: "sha256",
+  ES384: "sha384",
+  EdDSA: null,
+};
+
+export function publicJwkOf(privateJwk: JsonWebKey): JsonWebKey {
+  const { d: _d, p: _p, q: _q, dp: _dp, dq: _dq, qi: _qi, key_ops: _ops, ...publicJwk } = privateJwk as any;
+  return publicJwk;
+}
+
+/**
+ * Create a signer from a private JWK carrying kid and alg
+ */
+export function localJwkSigner(privateJwk: JsonWebKey): Signer {
+  const kid = (privateJwk as any).kid;
+  const alg = privateJwk.alg || "ES256";
+  const hash = ALG_HASHES[alg];
+  if (!kid) {
+    throw new Error("Local signer key must have a kid");
+  }
+  if (hash === undefined) {
+    throw new Error(`Local signer does not support ${alg}`);
+  }
+  const key = createPrivateKey({ key: privateJwk as any, format: "jwk" });
+
+  return {
+    backend: "local",
+    kid,
+    alg,
+    publicJwk: publicJwkOf(privateJwk),
+    async sign(signingInput) {
+      return signWithKey(hash, signingInput, hash ? { key, dsaEncoding: "ieee-p1363" } : key);
+    },
+  };
+}
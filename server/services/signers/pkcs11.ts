@@ -0,0 +1,130 @@
+import { createHash } from "node:crypto";
+import { calculateJwkThumbprint } from "jose";
+import type { Signer } from "./types.js";
+
+/**
+ * PKCS#11 signer (HSM, cloud HSM client libraries, SoftHSM for testing)
+ *
+ * The private key never leaves the token: the signing input is hashed
+ * locally and signed with CKM_ECDSA, which already returns R || S.
+ * Needs the optional `pkcs11js` package.
+ *
+ * PKCS11_MODULE     - Path to the PKCS#11 library (e.g. /usr/lib/softhsm/libsofthsm2.so)
+ * PKCS11_SLOT       - Index into the slots with a token (default 0)
+ * PKCS11_PIN        - User PIN
+ * PKCS11_KEY_LABEL  - CKA_LABEL of the P-256 (ES256) or P-384 (ES384) key pair (default receipt-signer)
+ */
+
+export interface Pkcs11SignerConfig {
+  modulePath: string;
+  slot?: number;
+  pin: string;
+  keyLabel?: string;
+}
+
+// Supported curves by DER OID (CKA_EC_PARAMS)
+const CURVES: Record<string, { crv: string; alg: string; hash: string; size: number }> = {
+  "06082a8648ce3d030107": { crv: "P-256", alg: "ES256", hash: "sha256", size: 32 },
+  "06052b81040022": { crv: "P-384", alg: "ES384", hash: "sha384", size: 48 },
+};
+
+export function pkcs11ConfigFromEnv(): Pkcs11SignerConfig {
+  const modulePath = process.env.PKCS11_MODULE;
+  const pin = process.env.PKCS11_PIN;
+  if (!modulePath || !pin) {
+    throw new Error("PKCS11_MODULE and PKCS11_PIN are required for the pkcs11 receipt signer");
+  }
+  return {
+    modulePath,
+    slot: parseInt(process.env.PKCS11_SLOT || "0", 10),
+    pin,
+    keyLabel: process.env.PKCS11_KEY_LABEL || "receipt-signer",
+  };
+}
+
+/**
+ * Unwrap CKA_EC_POINT (DER OCTET STRING) into an uncompressed curve point
+ */
+function ecPointToJwk(ecPoint: Buffer, crv: string, size: number): JsonWebKey {
+  let point = ecPoint;
+  if (point[0] === 0x04 && point[1] === point.length - 2) {
+    point = point.subarray(2);
+  }
+  if (point.length !== 1 + 2 * size || point[0] !== 0x04) {
+    throw new Error(`PKCS#11 public key is not an uncompressed ${crv} point`);
+  }
+  return {
+    kty: "EC",
+    crv,
+    x: point.subarray(1, 1 + size).toString("base64url"),
+    y: point.subarray(1 + size).toString("base64url"),
+  };
+}
+
+/**
+ * Open a session, log in and locate the key pair by label
+ */
+export async function pkcs11Signer(config: Pkcs11SignerConfig): Promise<Signer> {
+  // Optional dependency - keep the specifier out of static module resolution
+  const moduleName = "pkcs11js";
+  let pkcs11js: any;
+  try {
+    pkcs11js = await import(moduleName);
+  } catch {
+    throw new Error("The pkcs11 receipt signer needs the pkcs11js package (npm install pkcs11js)");
+  }
+  pkcs11js = pkcs11js.default || pkcs11js;
+
+  const pkcs11 = new pkcs11js.PKCS11();
+  pkcs11.load(config.modulePath);
+  pkcs11.C_Initialize();
+
+  const slots = pkcs11.C_GetSlotList(true);
+  const slot = slots[config.slot ?? 0];
+  if (!slot) {
+    throw new Error(`PKCS#11 slot ${config.slot ?? 0} has no token`);
+  }
+  const session = pkcs11.C_OpenSession(slot, pkcs11js.CKF_SERIAL_SESSION | pkcs11js.CKF_RW_SESSION);
+  pkcs11.C_Login(session, pkcs11js.CKU_USER, config.pin);
+
+  const label = config.keyLabel || "receipt-signer";
+  const findOne = (objectClass: number) => {
+    pkcs11.C_FindObjectsInit(session, [
+      { type: pkcs11js.CKA_CLASS, value: objectClass },
+      { type: pkcs11js.CKA_LABEL, value: label },
+    ]);
+    const found = pkcs11.C_FindObjects(session, 1);
+    pkcs11.C_FindObjectsFinal(session);
+    return Array.isArray(found) ? found[0] : found;
+  };
+
+  const privateKey = findOne(pkcs11js.CKO_PRIVATE_KEY);
+  const publicKey = findOne(pkcs11js.CKO_PUBLIC_KEY);
+  if (!privateKey || !publicKey) {
+    throw new Error(`PKCS#11 key pair "${label}" not found`);
+  }
+
+  const [ecParams, ecPoint] = pkcs11.C_GetAttributeValue(session, publicKey, [
+    { type: pkcs11js.CKA_EC_PARAMS },
+    { type: pkcs11js.CKA_EC_POINT },
+  ]);
+  const curve = CURVES[Buffer.from(ecParams.value).toString("hex")];
+  if (!curve) {
+    throw new Error(`PKCS#11 key "${label}" is not a P-256 or P-384 key`);
+  }
+  const publicJwk = ecPointToJwk(Buffer.from(ecPoint.value), curve.crv, curve.size);
+  const kid = await calculateJwkThumbprint(publicJwk as any);
+
+  return {
+    backend: "pkcs11",
+    kid,
+    alg: curve.alg,
+    publicJwk: { ...publicJwk, kid, alg: curve.alg } as JsonWebKey,
+    async sign(signingInput) {
+      const digest = createHash(curve.hash).update(signingInput).digest();
+      // Synchronous calls: SignInit/Sign cannot interleave with another signature
+      pkcs11.C_SignInit(session, { mechanism: pkcs11js.CKM_ECDSA }, privateKey);
+      return Buffer.from(pkcs11.C_Sign(session, digest, Buffer.alloc(2 * curve.size)));
+    },
+  };
+}
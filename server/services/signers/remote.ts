@@ -0,0 +1,85 @@
+import { calculateJwkThumbprint } from "jose";
+import type { Signer } from "./types.js";
+
+/**
+ * Remote signer - a KMS front or signing service reached over HTTPS
+ *
+ * Protocol (bearer token from RECEIPT_SIGNER_TOKEN when set):
+ *
+ *   GET  {url}/key   -> { kid?, alg, jwk }          public key
+ *   POST {url}/sign  { kid, alg, input } -> { signature }
+ *
+ * `input` and `signature` are base64url; the signature is the raw JWS
+ * signature. server/cli/remote-signer.ts is a local stand-in.
+ */
+
+export interface RemoteSignerConfig {
+  url: string;
+  token?: string;
+  timeoutMs?: number;
+}
+
+export function remoteConfigFromEnv(): RemoteSignerConfig {
+  const url = process.env.RECEIPT_SIGNER_URL;
+  if (!url) {
+    throw new Error("RECEIPT_SIGNER_URL is required for the remote receipt signer");
+  }
+  return {
+    url: url.replace(/\/+$/, ""),
+    token: process.env.RECEIPT_SIGNER_TOKEN,
+    timeoutMs: parseInt(process.env.RECEIPT_SIGNER_TIMEOUT_MS || "5000", 10),
+  };
+}
+
+async function call(config: RemoteSignerConfig, path: string, body?: unknown): Promise<any> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.timeoutMs ?? 5000);
+  try {
+    const response = await fetch(`${config.url}${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers: {
+        ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+        ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Remote signer ${path} returned HTTP ${response.status}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Fetch the remote key and return a signer bound to it
+ */
+export async function remoteSigner(config: RemoteSignerConfig): Promise<Signer> {
+  const key = await call(config, "/key");
+  if (!key?.jwk || key.jwk.d) {
+    throw new Error("Remote signer /key must return a public jwk");
+  }
+  const alg = key.alg || "ES256";
+  const { kid: _kid, alg: _alg, use: _use, ...bare } = key.jwk;
+  const kid = key.kid || key.jwk.kid || (await calculateJwkThumbprint(bare));
+
+  return {
+    backend: "remote",
+    kid,
+    alg,
+    publicJwk: { ...bare, kid, alg } as JsonWebKey,
+    async sign(signingInput) {
+      const result = await call(config, "/sign", {
+        kid,
+        alg,
+        input: Buffer.from(signingInput).toString("base64url"),
+      });
+      if (typeof result?.signature !== "string") {
+        throw new Error("Remote signer returned no signature");
+      }
+      return Buffer.from(result.signature, "base64url");
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { compactVerify, importJWK } from "jose";
+import { localJwkSigner } from "./local.js";
+import { remoteSigner } from "./remote.js";
+import { pkcs11ConfigFromEnv, pkcs11Signer } from "./pkcs11.js";
+import { signJwt } from "./jwt.js";
+import type { Signer } from "./types.js";
+
+/**
+ * Tests for receipt signers - every backend must produce a JWS that verifies
+ * with its published public JWK
+ */
+
+function testJwk(alg: "ES256" | "ES384" | "EdDSA" = "ES256"): JsonWebKey {
+  const { privateKey } = alg === "EdDSA"
+    ? generateKeyPairSync("ed25519")
+    : generateKeyPairSync("ec", { namedCurve: alg === "ES384" ? "P-384" : "P-256" });
+  return { ...privateKey.export({ format: "jwk" }), kid: "test-kid", alg } as JsonWebKey;
+}
+
+async function expectVerifiable(signer: Signer) {
+  const jws = await signJwt(signer, { sub: "asset-1" }, { typ: "JWT" });
+  const { payload, protectedHeader } = await compactVerify(jws, await importJWK(signer.publicJwk as any, signer.alg));
+  expect(protectedHeader).toMatchObject({ alg: signer.alg, typ: "JWT", kid: signer.kid });
+  expect(JSON.parse(Buffer.from(payload).toString())).toEqual({ sub: "asset-1" });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("receipt signers", () => {
+  it("local signer signs with the keyring JWK and publishes no private material", async () => {
+    const signer = localJwkSigner(testJwk());
+
+    expect(signer.kid).toBe("test-kid");
+    expect((signer.publicJwk as any).d).toBeUndefined();
+    await expectVerifiable(signer);
+  });
+
+  it("local signer supports ES384 and EdDSA keys", async () => {
+    await expectVerifiable(localJwkSigner(testJwk("ES384")));
+    await expectVerifiable(localJwkSigner(testJwk("EdDSA")));
+  });
+
+  it("remote signer delegates signing over the remote protocol", async () => {
+    const standIn = localJwkSigner(testJwk());
+    vi.stubGlobal("fetch", async (url: string, init: any) => {
+      const body = url.endsWith("/key")
+        ? { kid: standIn.kid, alg: standIn.alg, jwk: standIn.publicJwk }
+        : { signature: Buffer.from(await standIn.sign(Buffer.from(JSON.parse(init.body).input, "base64url"))).toString("base64url") };
+      return new Response(JSON.stringify(body), { status: 200 });
+    });
+
+    const signer = await remoteSigner({ url: "https://signer.example" });
+    expect(signer.kid).toBe(standIn.kid);
+    await expectVerifiable(signer);
+  });
+
+  // Run against SoftHSM: PKCS11_MODULE=/usr/lib/softhsm/libsofthsm2.so PKCS11_PIN=... npx vitest
+  it.skipIf(!process.env.PKCS11_MODULE)("pkcs11 signer signs inside the token", async () => {
+    const signer = await pkcs11Signer(pkcs11ConfigFromEnv());
+    await expectVerifiable(signer);
+  });
+});
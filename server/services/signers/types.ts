@@ -0,0 +1,21 @@
+/**
+ * Shared types for receipt signers
+ */
+
+export type SignerBackend = "local" | "pkcs11" | "remote";
+
+/**
+ * A key that signs JWS signing input without exposing private material
+ */
+export interface Signer {
+  backend: SignerBackend;
+  kid: string;
+  alg: string;                  // JWS alg (ES256, ES384, EdDSA)
+  publicJwk: JsonWebKey;        // Published in /.well-known/jwks.json
+  /**
+   * Sign `<protected>.<payload>` (ASCII bytes)
+   *
+   * @returns Raw JWS signature (R || S for ECDSA)
+   */
+  sign(signingInput: Uint8Array): Promise<Uint8Array>;
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { permuteIndex } from "./status-index-permutation.js";
+
+/**
+ * Tests for random status list index assignment
+ */
+
+describe("status index permutation", () => {
+  it("hands out every index exactly once", () => {
+    const size = 1000;
+    const indexes = Array.from({ length: size }, (_, cursor) => permuteIndex(cursor, size, "seed-a"));
+
+    expect(new Set(indexes).size).toBe(size);
+    expect(Math.min(...indexes)).toBe(0);
+    expect(Math.max(...indexes)).toBe(size - 1);
+  });
+
+  it("does not reveal allocation order", () => {
+    const first = Array.from({ length: 16 }, (_, cursor) => permuteIndex(cursor, 131072, "seed-a"));
+
+    expect(first).not.toEqual(Array.from({ length: 16 }, (_, i) => i));
+    expect(first).not.toEqual([...first].sort((a, b) => a - b));
+    expect(first.map((_, cursor) => permuteIndex(cursor, 131072, "seed-b"))).not.toEqual(first);
+  });
+
+  it("rejects cursors past the end of the list", () => {
+    expect(() => permuteIndex(8, 8, "seed-a")).toThrow(/outside list/);
+  });
+});
@@ -0,0 +1,178 @@
+import { and, desc, eq, lt, sql } from "drizzle-orm";
+import crypto from "node:crypto";
+import { db, type DbExecutor } from "../db.js";
+import { statusLists, type StatusList } from "../../shared/schema.js";
+import { permuteIndex } from "./status-index-permutation.js";
+import { compressBitstring } from "../bitstring-utils.js";
+import { configuredStatusMessageTable } from "./status-messages.js";
+
+/**
+ * Status list allocation
+ *
+ * Hands out BitstringStatusList entries for newly minted assets:
+ *
+ * - each list keeps a persisted allocation cursor, advanced with a single
+ *   conditional UPDATE so concurrent mints never share an entry
+ * - the cursor is mapped through a keyed permutation (status-index-permutation.ts),
+ *   so indexes are spread randomly over the list instead of leaking mint order
+ * - when a list is full the next one in the partition is opened automatically
+ *   (<STATUS_BASE_URL>/<purpose>/<partition>-<sequence>)
+ * - STATUS_LIST_PARTITION=partner|policy gives each partner or policy its own
+ *   lists (default: none - one shared partition)
+ * - `message` lists hold statusSize bits per entry and keep the message table
+ *   (status-messages.ts) they were opened with
+ *
+ * Mint reserves its entries in the same transaction as the asset insert
+ * (storage.createProofAssetWithStatus), so a failed mint gives them back.
+ *
+ * Spec: https://www.w3.org/TR/vc-bitstring-status-list/
+ */
+
+export type StatusPurpose = "revocation" | "suspension" | "message";
+export type StatusListPartitioning = "none" | "partner" | "policy";
+
+export interface StatusRef<P extends StatusPurpose = StatusPurpose> {
+  statusListUrl: string;
+  statusListIndex: string;
+  statusPurpose: P;
+}
+
+export interface AllocationContext {
+  partnerId?: string | null;
+  policyHash?: string;
+}
+
+export interface AssetStatusRefs {
+  revocation: StatusRef<"revocation">;
+  suspension: StatusRef<"suspension">;
+  message: StatusRef<"message">;
+}
+
+// W3C minimum list size for herd privacy (16KB uncompressed)
+const DEFAULT_LIST_SIZE = 131072;
+const MAX_ROLLOVERS = 3;
+
+function listSize(): number {
+  const size = parseInt(process.env.STATUS_LIST_SIZE || String(DEFAULT_LIST_SIZE), 10);
+  if (!Number.isInteger(size) || size <= 0 || size % 8 !== 0) {
+    throw new Error(`STATUS_LIST_SIZE must be a positive multiple of 8, got ${process.env.STATUS_LIST_SIZE}`);
+  }
+  return size;
+}
+
+function partitioning(): StatusListPartitioning {
+  const mode = process.env.STATUS_LIST_PARTITION || "none";
+  if (mode !== "none" && mode !== "partner" && mode !== "policy") {
+    throw new Error(`STATUS_LIST_PARTITION must be none, partner or policy, got ${mode}`);
+  }
+  return mode;
+}
+
+/**
+ * Partition key for an allocation (hashed - list URLs are public)
+ */
+export function statusListPartition(context: AllocationContext): string {
+  const hashed = (prefix: string, value: string) =>
+    `${prefix}-${crypto.createHash("sha256").update(value).digest("hex").substring(0, 16)}`;
+
+  const mode = partitioning();
+  if (mode === "partner" && context.partnerId) return hashed("partner", context.partnerId);
+  if (mode === "policy" && context.policyHash) return hashed("policy", context.policyHash);
+  return "default";
+}
+
+/**
+ * Newest list of a partition, or a fresh one when there is none or it is full
+ */
+async function openList(executor: DbExecutor, purpose: StatusPurpose, partitionKey: string): Promise<StatusList> {
+  const [latest] = await executor
+    .select()
+    .from(statusLists)
+    .where(and(eq(statusLists.purpose, purpose), eq(statusLists.partitionKey, partitionKey)))
+    .orderBy(desc(statusLists.sequence))
+    .limit(1);
+  if (latest && latest.allocationCursor < latest.size) {
+    return latest;
+  }
+
+  const sequence = (latest?.sequence ?? 0) + 1;
+  const size = listSize();
+  const baseUrl = process.env.STATUS_BASE_URL || "https://registry.myproof.ai/status";
+  const messages = purpose === "message" ? configuredStatusMessageTable() : null;
+  const statusSize = messages?.statusSize ?? 1;
+
+  // Concurrent rollovers race on the unique (purpose, partition, sequence) index
+  await executor.insert(statusLists).values({
+    purpose,
+    url: `${baseUrl}/${purpose}/${partitionKey}-${sequence}`,
+    bitstring: compressBitstring(Buffer.alloc((size * statusSize) / 8)).toString("base64"),
+    size,
+    statusSize,
+    statusMessages: messages?.statusMessages ?? null,
+    etag: `W/"${Date.now()}"`,
+    partitionKey,
+    sequence,
+    allocationSeed: crypto.randomBytes(32).toString("hex"),
+  }).onConflictDoNothing();
+
+  const [created] = await executor
+    .select()
+    .from(statusLists)
+    .where(and(
+      eq(statusLists.purpose, purpose),
+      eq(statusLists.partitionKey, partitionKey),
+      eq(statusLists.sequence, sequence),
+    ));
+  if (!created) {
+    throw new Error(`status_list_create_failed: ${purpose}/${partitionKey}-${sequence}`);
+  }
+  console.log(`[status-list] Opened ${created.url} (${created.size} entries)`);
+  return created;
+}
+
+/**
+ * Allocate a status list entry for a new asset
+ *
+ * @throws if no entry could be reserved after MAX_ROLLOVERS full lists
+ */
+export async function allocateStatusRef<P extends StatusPurpose>(
+  purpose: P,
+  context: AllocationContext = {},
+  executor: DbExecutor = db
+): Promise<StatusRef<P>> {
+  const partitionKey = statusListPartition(context);
+
+  for (let attempt = 0; attempt < MAX_ROLLOVERS; attempt++) {
+    const list = await openList(executor, purpose, partitionKey);
+
+    // Reserve the next cursor position; no row means another mint filled the list
+    const [reserved] = await executor
+      .update(statusLists)
+      .set({ allocationCursor: sql`${statusLists.allocationCursor} + 1`, updatedAt: new Date() })
+      .where(and(eq(statusLists.listId, list.listId), lt(statusLists.allocationCursor, statusLists.size)))
+      .returning({ allocationCursor: statusLists.allocationCursor });
+    if (!reserved) continue;
+
+    return {
+      statusListUrl: list.url,
+      statusListIndex: String(permuteIndex(reserved.allocationCursor - 1, list.size, list.allocationSeed!)),
+      statusPurpose: purpose,
+    };
+  }
+
+  throw new Error(`status_list_allocation_failed: ${purpose}/${partitionKey}`);
+}
+
+/**
+ * Allocate the revocation, suspension and status message entries of a new asset
+ */
+export async function allocateAssetStatusRefs(
+  context: AllocationContext,
+  executor: DbExecutor = db
+): Promise<AssetStatusRefs> {
+  return {
+    revocation: await allocateStatusRef("revocation", context, executor),
+    suspension: await allocateStatusRef("suspension", context, executor),
+    message: await allocateStatusRef("message", context, executor),
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { gzipSync } from "node:zlib";
+import { localJwkSigner } from "./signers/local.js";
+import {
+  signStatusListCredential,
+  statusListCredential,
+  statusListIssuer,
+  verifyStatusListCredential,
+  type VerifyStatusListCredentialOptions,
+} from "./status-list-credential.js";
+
+/**
+ * Tests for signed BitstringStatusListCredentials
+ */
+
+const LIST_URL = "http://localhost:5000/status/lists/revocation/default-1";
+const ISSUED_AT = new Date("2026-01-01T00:00:00Z");
+
+function testSigner(alg: "ES256" | "EdDSA") {
+  const { privateKey } = alg === "EdDSA"
+    ? generateKeyPairSync("ed25519")
+    : generateKeyPairSync("ec", { namedCurve: "P-256" });
+  return localJwkSigner({ ...privateKey.export({ format: "jwk" }), kid: `kid-${alg}`, alg } as JsonWebKey);
+}
+
+function credential(url = LIST_URL, purpose = "revocation") {
+  return statusListCredential({
+    url,
+    purpose,
+    encodedList: gzipSync(Buffer.alloc(16)).toString("base64"),
+    validFrom: ISSUED_AT,
+  });
+}
+
+function verifyOptions(signer: ReturnType<typeof testSigner>, now = new Date(ISSUED_AT.getTime() + 60_000)): VerifyStatusListCredentialOptions {
+  return {
+    resolveKey: async (kid) => kid === signer.kid
+      ? { kid, alg: signer.alg, publicJwk: signer.publicJwk, retireAt: null }
+      : undefined,
+    now,
+  };
+}
+
+describe("status list credentials", () => {
+  it("carries validity bounds and a ttl", () => {
+    const unsigned = credential();
+
+    expect(unsigned.type).toEqual(["VerifiableCredential", "BitstringStatusListCredential"]);
+    expect(unsigned.issuer).toBe(statusListIssuer());
+    expect(unsigned.validUntil).toBe("2026-01-02T00:00:00.000Z");
+    expect(unsigned.credentialSubject.ttl).toBe(300000);
+  });
+
+  it("verifies Data Integrity and VC-JWT credentials", async () => {
+    const signer = testSigner("EdDSA");
+
+    const secured = await signStatusListCredential(signer, credential(), "vc-di");
+    const fromDi = await verifyStatusListCredential(JSON.stringify(secured), verifyOptions(signer));
+    expect(fromDi.credentialSubject.statusPurpose).toBe("revocation");
+
+    const jwtSigner = testSigner("ES256");
+    const jwt = await signStatusListCredential(jwtSigner, credential(), "vc-jwt") as string;
+    const fromJwt = await verifyStatusListCredential(jwt, verifyOptions(jwtSigner));
+    expect(fromJwt.id).toBe(LIST_URL);
+
+    // Same kid, different key: the signature does not verify
+    await expect(verifyStatusListCredential(jwt, verifyOptions(testSigner("ES256")))).rejects.toThrow();
+  });
+
+  it("rejects unsigned, tampered, untrusted and expired lists", async () => {
+    const signer = testSigner("ES256");
+    const secured = await signStatusListCredential(signer, credential(), "vc-di") as Record<string, any>;
+
+    await expect(verifyStatusListCredential(JSON.stringify(credential()), verifyOptions(signer)))
+      .rejects.toThrow(/unsigned_status_list/);
+
+    const tampered = { ...secured, credentialSubject: { ...secured.credentialSubject, encodedList: "AAAA" } };
+    await expect(verifyStatusListCredential(JSON.stringify(tampered), verifyOptions(signer))).rejects.toThrow();
+
+    await expect(verifyStatusListCredential(JSON.stringify(secured), { ...verifyOptions(signer), trustedIssuers: ["https://other.example"] }))
+      .rejects.toThrow(/untrusted_issuer/);
+
+    const dayLater = new Date(ISSUED_AT.getTime() + 25 * 60 * 60 * 1000);
+    await expect(verifyStatusListCredential(JSON.stringify(secured), verifyOptions(signer, dayLater)))
+      .rejects.toThrow(/status_list_expired/);
+  });
+
+  it("rejects a validly signed list substituted for the requested one", async () => {
+    const signer = testSigner("EdDSA");
+    const suspensionUrl = "http://localhost:5000/status/lists/suspension/default-1";
+    const suspension = JSON.stringify(await signStatusListCredential(signer, credential(suspensionUrl, "suspension"), "vc-di"));
+
+    await expect(verifyStatusListCredential(suspension, { ...verifyOptions(signer), expectedUrl: LIST_URL }))
+      .rejects.toThrow(/status_list_url_mismatch/);
+    await expect(verifyStatusListCredential(suspension, { ...verifyOptions(signer), expectedPurpose: "revocation" }))
+      .rejects.toThrow(/status_list_purpose_mismatch/);
+
+    // Same list, URL spelled differently: still accepted
+    const revocation = JSON.stringify(await signStatusListCredential(signer, credential(), "vc-di"));
+    const verified = await verifyStatusListCredential(revocation, {
+      ...verifyOptions(signer),
+      expectedUrl: "HTTP://LOCALHOST:5000/status/lists/revocation/default-1/",
+      expectedPurpose: "revocation",
+    });
+    expect(verified.id).toBe(LIST_URL);
+  });
+});
@@ -0,0 +1,279 @@
+import { decodeProtectedHeader, importJWK, jwtVerify } from "jose";
+import { signJwt } from "./signers/jwt.js";
+import type { Signer } from "./signers/types.js";
+import { RECEIPT_ALGORITHMS, type ReceiptAlg } from "./receipt-alg-policy.js";
+import { VC_JWT_TYP, algOfJwk, cryptosuiteFor, kidFromVerificationMethod, signDataIntegrity } from "./vc-receipt.js";
+import type { ReceiptVerificationKey } from "./receipt-keys.js";
+import type { StatusMessage } from "./status-messages.js";
+
+/**
+ * Signed BitstringStatusListCredentials
+ *
+ * Status lists are served as credentials signed with the registry's receipt
+ * signing keys, in one of two formats:
+ *
+ * - vc-di   JSON credential with an embedded DataIntegrityProof (default)
+ * - vc-jwt  the credential as a JWT payload (typ vc+jwt, media type application/vc+jwt)
+ *
+ * Each credential carries validFrom / validUntil and the W3C `ttl` caching hint
+ * (milliseconds). Verifiers accept a list only when the signature checks out
+ * against a registry key, the issuer is trusted and the credential is within
+ * its validity period, and - when the caller says which list it asked for - only
+ * when the credential is that list (id and statusPurpose), so another validly
+ * signed list cannot be substituted. Multi-bit lists (statusSize > 1) also publish their
+ * statusSize and statusMessages table.
+ *
+ * Spec: https://www.w3.org/TR/vc-bitstring-status-list/
+ */
+
+export const STATUS_LIST_CREDENTIAL_FORMATS = ["vc-di", "vc-jwt"] as const;
+export type StatusListCredentialFormat = typeof STATUS_LIST_CREDENTIAL_FORMATS[number];
+
+export const VC_JWT_MEDIA_TYPE = "application/vc+jwt";
+
+const CREDENTIALS_V2_CONTEXT = "https://www.w3.org/ns/credentials/v2";
+const CLOCK_SKEW_SECONDS = 60;
+const DEFAULT_TTL_MS = 5 * 60 * 1000;                   // Caching hint (5 min)
+const DEFAULT_VALIDITY_MS = 24 * 60 * 60 * 1000;        // Matches STATUS_MAX_STALENESS_MS (24h)
+
+export interface VerifyStatusListCredentialOptions {
+  expectedUrl?: string;            // The credential must be this list (id, compared normalized)
+  expectedPurpose?: string;        // The credential's statusPurpose must match
+  trustedIssuers?: string[];       // Default: STATUS_LIST_TRUSTED_ISSUERS, else this registry (BASE_URL)
+  allowedAlgorithms?: ReceiptAlg[]; // Default: every supported receipt algorithm
+  resolveKey?: (kid: string) => Promise<ReceiptVerificationKey | undefined>; // Default: receipt keyring
+  now?: Date;
+}
+
+/**
+ * Normalize status list URL for consistent caching and comparison
+ * - Lowercase scheme and hostname
+ * - Remove default ports (80, 443)
+ * - Remove trailing slash
+ */
+export function normalizeStatusListUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.protocol = parsed.protocol.toLowerCase();
+    parsed.hostname = parsed.hostname.toLowerCase();
+    
+    // Remove default ports
+    if ((parsed.protocol === 'https:' && parsed.port === '443') || 
+        (parsed.protocol === 'http:' && parsed.port === '80')) {
+      parsed.port = '';
+    }
+    
+    // Remove trailing slash from pathname (except root)
+    if (parsed.pathname.endsWith('/') && parsed.pathname !== '/') {
+      parsed.pathname = parsed.pathname.slice(0, -1);
+    }
+    
+    return parsed.toString();
+  } catch (error: any) {
+    throw new Error(`Invalid status list URL: ${error.message}`);
+  }
+}
+
+/**
+ * Issuer of this registry's status list credentials
+ */
+export function statusListIssuer(): string {
+  return process.env.BASE_URL || "http://localhost:5000";
+}
+
+function trustedIssuers(): string[] {
+  const configured = (process.env.STATUS_LIST_TRUSTED_ISSUERS || "")
+    .split(",")
+    .map((issuer) => issuer.trim())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : [statusListIssuer()];
+}
+
+/**
+ * Unsigned status list credential
+ */
+export function statusListCredential(list: {
+  url: string;
+  purpose: string;
+  encodedList: string;  // Base64 gzipped bitstring
+  statusSize?: number;  // Bits per entry (default 1)
+  statusMessages?: StatusMessage[];
+  validFrom?: Date;
+}): Record<string, any> {
+  const validFrom = list.validFrom || new Date();
+  const ttlMs = parseInt(process.env.STATUS_LIST_TTL_MS || String(DEFAULT_TTL_MS), 10);
+  const validityMs = parseInt(process.env.STATUS_MAX_STALENESS_MS || String(DEFAULT_VALIDITY_MS), 10);
+
+  return {
+    "@context": [CREDENTIALS_V2_CONTEXT],
+    id: list.url,
+    type: ["VerifiableCredential", "BitstringStatusListCredential"],
+    issuer: statusListIssuer(),
+    validFrom: validFrom.toISOString(),
+    validUntil: new Date(validFrom.getTime() + validityMs).toISOString(),
+    credentialSubject: {
+      id: `${list.url}#list`,
+      type: "BitstringStatusList",
+      statusPurpose: list.purpose,
+      encodedList: list.encodedList,
+      ttl: ttlMs,
+      ...(list.statusSize && list.statusSize > 1 ? { statusSize: list.statusSize } : {}),
+      ...(list.statusMessages ? { statusMessages: list.statusMessages } : {}),
+    },
+  };
+}
+
+/**
+ * Sign a status list credential
+ *
+ * @returns Secured credential (vc-di) or compact JWS (vc-jwt)
+ */
+export async function signStatusListCredential(
+  signer: Signer,
+  credential: Record<string, any>,
+  format: StatusListCredentialFormat
+): Promise<Record<string, any> | string> {
+  const created = Math.floor(Date.parse(credential.validFrom) / 1000);
+  if (format === "vc-di") {
+    return signDataIntegrity(signer, credential, { created });
+  }
+  return signJwt(signer, {
+    ...credential,
+    iss: credential.issuer,
+    iat: created,
+    nbf: created,
+    exp: Math.floor(Date.parse(credential.validUntil) / 1000),
+  }, { typ: VC_JWT_TYP });
+}
+
+/**
+ * Verify a downloaded status list credential (either format)
+ *
+ * @param body - Response body: JSON credential with a proof, or a compact JWS
+ * @returns The verified credential
+ * @throws Error describing why the list was rejected
+ */
+export async function verifyStatusListCredential(
+  body: string,
+  options: VerifyStatusListCredentialOptions = {}
+): Promise<Record<string, any>> {
+  const allowedAlgorithms: string[] = options.allowedAlgorithms || [...RECEIPT_ALGORITHMS];
+  const now = options.now || new Date();
+  const resolveKey = async (kid: string) => {
+    if (options.resolveKey) return options.resolveKey(kid);
+    const { findReceiptKeyRevocation, findReceiptVerificationKey } = await import("./receipt-keys.js");
+    if (await findReceiptKeyRevocation(kid)) {
+      throw new Error(`status_list_key_revoked: ${kid}`);
+    }
+    return findReceiptVerificationKey(kid);
+  };
+
+  const credential = body.trimStart().startsWith("{")
+    ? await verifyDataIntegrityCredential(body, resolveKey, allowedAlgorithms)
+    : await verifyJwtCredential(body, resolveKey, allowedAlgorithms, now);
+
+  const types = Array.isArray(credential.type) ? credential.type : [credential.type];
+  if (!types.includes("BitstringStatusListCredential")) {
+    throw new Error("not_a_status_list_credential: expected a BitstringStatusListCredential");
+  }
+
+  const issuer = typeof credential.issuer === "string" ? credential.issuer : credential.issuer?.id;
+  const trusted = options.trustedIssuers || trustedIssuers();
+  if (!issuer || !trusted.includes(issuer)) {
+    throw new Error(`untrusted_issuer: ${issuer || "none"}`);
+  }
+
+  if (options.expectedUrl) {
+    const listUrl = credential.id || credential.credentialSubject?.id?.replace(/#.*$/, "");
+    if (!listUrl || normalizeStatusListUrl(listUrl) !== normalizeStatusListUrl(options.expectedUrl)) {
+      throw new Error(`status_list_url_mismatch: ${listUrl || "none"} is not ${options.expectedUrl}`);
+    }
+  }
+  if (options.expectedPurpose && credential.credentialSubject?.statusPurpose !== options.expectedPurpose) {
+    throw new Error(
+      `status_list_purpose_mismatch: ${credential.credentialSubject?.statusPurpose || "none"} is not ${options.expectedPurpose}`
+    );
+  }
+
+  const skewMs = CLOCK_SKEW_SECONDS * 1000;
+  if (credential.validFrom && Date.parse(credential.validFrom) > now.getTime() + skewMs) {
+    throw new Error(`status_list_not_yet_valid: validFrom ${credential.validFrom}`);
+  }
+  if (credential.validUntil && Date.parse(credential.validUntil) < now.getTime() - skewMs) {
+    throw new Error(`status_list_expired: validUntil ${credential.validUntil}`);
+  }
+  return credential;
+}
+
+async function verifyDataIntegrityCredential(
+  body: string,
+  resolveKey: (kid: string) => Promise<ReceiptVerificationKey | undefined>,
+  allowedAlgorithms: string[]
+): Promise<Record<string, any>> {
+  const credential = JSON.parse(body);
+  const proof = credential?.proof;
+  if (!proof) {
+    throw new Error("unsigned_status_list: credential has no proof");
+  }
+  if (typeof proof !== "object" || Array.isArray(proof)) {
+    throw new Error("invalid_proof: status list credential must carry exactly one proof");
+  }
+
+  const kid = kidFromVerificationMethod(proof.verificationMethod);
+  const key = kid ? await resolveKey(kid) : undefined;
+  if (!key) {
+    throw new Error(`unknown_kid: ${kid || "none"}`);
+  }
+  const alg = key.alg || algOfJwk(key.publicJwk);
+  if (!allowedAlgorithms.includes(alg)) {
+    throw new Error(`Algorithm ${alg} not allowed. Only ${allowedAlgorithms.join(", ")} permitted.`);
+  }
+  if (proof.cryptosuite !== cryptosuiteFor(alg)) {
+    throw new Error(`alg_mismatch: ${proof.cryptosuite} cannot be verified with a ${alg} key`);
+  }
+
+  const { verifyDataIntegrityProof } = await import("./ld-verifier.js");
+  const verification = await verifyDataIntegrityProof(credential, { resolveKey: async () => key.publicJwk });
+  if (!verification.ok) {
+    throw new Error(`${verification.code}: ${verification.reason}`);
+  }
+  return credential;
+}
+
+async function verifyJwtCredential(
+  body: string,
+  resolveKey: (kid: string) => Promise<ReceiptVerificationKey | undefined>,
+  allowedAlgorithms: string[],
+  now: Date
+): Promise<Record<string, any>> {
+  const jwt = body.trim();
+  let header;
+  try {
+    header = decodeProtectedHeader(jwt);
+  } catch {
+    throw new Error("unsigned_status_list: expected a signed credential (JSON with proof or VC-JWT)");
+  }
+  if (header.typ !== VC_JWT_TYP) {
+    throw new Error(`Invalid header typ: expected ${VC_JWT_TYP}, got ${header.typ}`);
+  }
+  if (!header.alg || !allowedAlgorithms.includes(header.alg)) {
+    throw new Error(`Algorithm ${header.alg || "none"} not allowed. Only ${allowedAlgorithms.join(", ")} permitted.`);
+  }
+  const key = header.kid ? await resolveKey(header.kid) : undefined;
+  if (!key) {
+    throw new Error(`unknown_kid: ${header.kid || "none"}`);
+  }
+  if (key.alg !== header.alg) {
+    throw new Error(`alg_mismatch: key ${key.kid} is ${key.alg}`);
+  }
+
+  const { payload } = await jwtVerify(jwt, await importJWK(key.publicJwk, key.alg), {
+    algorithms: [key.alg],
+    clockTolerance: CLOCK_SKEW_SECONDS,
+    currentDate: now,
+  });
+  if (payload.iss !== (typeof payload.issuer === "string" ? payload.issuer : (payload.issuer as any)?.id)) {
+    throw new Error("issuer_mismatch: iss does not match the credential issuer");
+  }
+  return payload as Record<string, any>;
+}
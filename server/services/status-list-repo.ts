@@ -1,9 +1,11 @@
 import { db } from "../db.js";
 import { statusLists } from "../../shared/schema.js";
-import { eq } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
 import crypto from "node:crypto";
 import zlib from "node:zlib";
 import { promisify } from "node:util";
+import { isCompressedBitstring, readStatusEntry, writeStatusEntry } from "../bitstring-utils.js";
+import type { StatusMessage } from "./status-messages.js";
 
 const gzip = promisify(zlib.gzip);
 const gunzip = promisify(zlib.gunzip);
@@ -58,6 +60,8 @@ export async function getList(url: string): Promise<{
   purpose: string;
   bitstring: string;
   size: number;
+  statusSize: number;
+  statusMessages: StatusMessage[] | null;
   etag: string | null;
 } | null> {
   const rows = await db.select().from(statusLists).where(eq(statusLists.url, url));
@@ -72,9 +76,9 @@ export async function getBit(url: string, index: number): Promise<0 | 1 | null>
   const row = await getList(url);
   if (!row) return null;
 
-  // Decode base64 and decompress
-  const compressed = Buffer.from(row.bitstring, 'base64');
-  const buf = await gunzip(compressed);
+  // Decode base64 and decompress (lists created before allocation are uncompressed)
+  const stored = Buffer.from(row.bitstring, 'base64');
+  const buf = isCompressedBitstring(stored) ? await gunzip(stored) : stored;
 
   const byte = index >> 3;
   const bit = index & 7;
@@ -94,17 +98,7 @@ export async function applyOps(
   url: string,
   ops: Array<{ op: 'set' | 'clear' | 'flip'; index: number }>
 ): Promise<{ etag: string }> {
-  for (let attempt = 0; attempt < 3; attempt++) {
-    const row = await getList(url);
-    if (!row) {
-      throw new Error('status_list_missing');
-    }
-
-    // Decode and decompress current bitstring
-    const compressed = Buffer.from(row.bitstring, 'base64');
-    const buf = await gunzip(compressed);
-
-    // Apply all operations
+  return written(await mutateList(url, (buf) => {
     for (const { op, index } of ops) {
       const byte = index >> 3;
       const bit = index & 7;
@@ -121,9 +115,68 @@ export async function applyOps(
         buf[byte] ^= (1 << bit);
       }
     }
+  }));
+}
+
+/**
+ * Write a multi-bit entry (value must fit in the list's statusSize),
+ * with the same optimistic concurrency control as applyOps.
+ */
+export async function writeEntry(url: string, index: number, value: number): Promise<{ etag: string }> {
+  return written(await mutateList(url, (buf, statusSize) => writeStatusEntry(buf, index, statusSize, value)));
+}
+
+/**
+ * Write a multi-bit entry unless it already holds `value`. The check reads the
+ * same list version the write is conditioned on, so of two concurrent writers
+ * of the same value only one reports `changed`.
+ * Returns null if the list doesn't exist.
+ */
+export async function updateEntry(url: string, index: number, value: number): Promise<{
+  changed: boolean;
+  previous: number;
+  etag: string | null;
+} | null> {
+  let previous = 0;
+  const result = await mutateList(url, (buf, statusSize) => {
+    previous = readStatusEntry(buf, index, statusSize);
+    if (previous === value) return false;
+    writeStatusEntry(buf, index, statusSize, value);
+  });
+  return result && { ...result, previous };
+}
+
+// applyOps and writeEntry always write, so the etag is the new one
+function written(result: { etag: string | null } | null): { etag: string } {
+  if (!result) {
+    throw new Error('status_list_missing');
+  }
+  return { etag: result.etag! };
+}
+
+/**
+ * Read-modify-write a list under optimistic concurrency control; `mutate`
+ * returns false to leave the list as it is. Returns null if the list doesn't exist.
+ */
+async function mutateList(
+  url: string,
+  mutate: (buf: Buffer, statusSize: number) => boolean | void
+): Promise<{ etag: string | null; changed: boolean } | null> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const row = await getList(url);
+    if (!row) return null;
+
+    // Decode and decompress current bitstring (uncompressed legacy lists stay uncompressed)
+    const stored = Buffer.from(row.bitstring, 'base64');
+    const compressed = isCompressedBitstring(stored);
+    const buf = compressed ? await gunzip(stored) : stored;
+
+    if (mutate(buf, row.statusSize) === false) {
+      return { etag: row.etag, changed: false };
+    }
 
     // Recompress and encode
-    const newCompressed = await gzip(buf);
+    const newCompressed = compressed ? await gzip(buf) : buf;
     const newBitstring = newCompressed.toString('base64');
     
     // Generate new ETag
@@ -138,11 +191,14 @@ export async function applyOps(
         etag: newEtag,
         updatedAt: new Date(),
       })
-      .where(eq(statusLists.url, url))
+      .where(and(
+        eq(statusLists.url, url),
+        row.etag ? eq(statusLists.etag, row.etag) : isNull(statusLists.etag),
+      ))
       .returning();
 
     if (result.length > 0) {
-      return { etag: newEtag };
+      return { etag: newEtag, changed: true };
     }
 
     // ETag changed, retry
@@ -158,6 +214,8 @@ export async function applyOps(
  */
 export async function getCompressedBitstring(url: string): Promise<{
   bitstring: string;
+  statusSize: number;
+  statusMessages: StatusMessage[] | null;
   etag: string | null;
 } | null> {
   const row = await getList(url);
@@ -165,6 +223,8 @@ export async function getCompressedBitstring(url: string): Promise<{
 
   return {
     bitstring: row.bitstring,
+    statusSize: row.statusSize,
+    statusMessages: row.statusMessages,
     etag: row.etag,
   };
 }
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { statusMessageFor, statusMessageTable, statusValueFor } from "./status-messages.js";
+
+/**
+ * Tests for status message tables
+ */
+
+describe("status messages", () => {
+  it("derives statusSize and hex statuses from the message count", () => {
+    const table = statusMessageTable(["active", "pending_review", "under_investigation", "disputed"]);
+
+    expect(table.statusSize).toBe(2);
+    expect(table.statusMessages[2]).toEqual({ status: "0x2", message: "under_investigation" });
+    expect(statusMessageFor(3, table.statusMessages)?.message).toBe("disputed");
+  });
+
+  it("resolves messages by name or hex status", () => {
+    const { statusMessages } = statusMessageTable(["active", "pending_review"]);
+
+    expect(statusValueFor("pending_review", statusMessages)).toBe(1);
+    expect(statusValueFor("0x1", statusMessages)).toBe(1);
+    expect(statusValueFor("revoked", statusMessages)).toBeUndefined();
+  });
+
+  it("rejects tables that do not fill statusSize bits", () => {
+    expect(() => statusMessageTable(["active", "pending_review", "disputed"])).toThrow(/power of two/);
+    expect(() => statusMessageTable(["active", "active"])).toThrow(/unique/);
+  });
+});
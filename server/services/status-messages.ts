@@ -0,0 +1,78 @@
+/**
+ * Status messages for multi-bit `message` status lists
+ *
+ * A `message` list gives each asset an entry of statusSize bits whose value
+ * selects one of 2^statusSize messages. The table is published in the list's
+ * credential (credentialSubject.statusMessages) so verifiers can decode
+ * entries without out-of-band knowledge.
+ *
+ * STATUS_MESSAGES configures the table for newly opened lists as a
+ * comma-separated list of messages; entry value i selects the i-th message and
+ * the count must be a power of two (2, 4, ..., 256). Lists keep the table they
+ * were opened with.
+ *
+ * Spec: https://www.w3.org/TR/vc-bitstring-status-list/#bitstringstatuslist
+ */
+
+export interface StatusMessage {
+  status: string;   // Entry value as hex, e.g. "0x2"
+  message: string;
+}
+
+export interface StatusMessageTable {
+  statusSize: number;
+  statusMessages: StatusMessage[];
+}
+
+const DEFAULT_STATUS_MESSAGES = ["active", "pending_review", "under_investigation", "disputed"];
+
+/**
+ * Build a message table from an ordered list of messages
+ *
+ * @throws if the count is not a power of two between 2 and 256, or a message repeats
+ */
+export function statusMessageTable(messages: string[]): StatusMessageTable {
+  const statusSize = Math.log2(messages.length);
+  if (!Number.isInteger(statusSize) || statusSize < 1 || statusSize > 8) {
+    throw new Error(`Status messages must number a power of two between 2 and 256, got ${messages.length}`);
+  }
+  if (new Set(messages).size !== messages.length || messages.some((message) => !message)) {
+    throw new Error("Status messages must be non-empty and unique");
+  }
+  return {
+    statusSize,
+    statusMessages: messages.map((message, value) => ({ status: `0x${value.toString(16)}`, message })),
+  };
+}
+
+/**
+ * Message table for newly opened `message` lists (STATUS_MESSAGES, else the default)
+ */
+export function configuredStatusMessageTable(): StatusMessageTable {
+  const configured = (process.env.STATUS_MESSAGES || "")
+    .split(",")
+    .map((message) => message.trim())
+    .filter(Boolean);
+  return statusMessageTable(configured.length > 0 ? configured : DEFAULT_STATUS_MESSAGES);
+}
+
+/**
+ * Message for an entry value
+ *
+ * @returns The matching table row, or undefined if the table has no such value
+ */
+export function statusMessageFor(value: number, statusMessages: StatusMessage[]): StatusMessage | undefined {
+  return statusMessages.find((row) => parseInt(row.status, 16) === value);
+}
+
+/**
+ * Entry value for a message name or hex status ("under_investigation", "0x2")
+ *
+ * @returns The value, or undefined if the table has no such message
+ */
+export function statusValueFor(statusOrMessage: string, statusMessages: StatusMessage[]): number | undefined {
+  const row = statusMessages.find((candidate) =>
+    candidate.message === statusOrMessage || candidate.status === statusOrMessage.toLowerCase()
+  );
+  return row ? parseInt(row.status, 16) : undefined;
+}
@@ -4,7 +4,7 @@ import { desc, eq } from "drizzle-orm";
 import { createHash } from "node:crypto";
 import { jcs } from "../plugins/canonicalize.js";
 
-type AuditEventType = 'MINT' | 'USE' | 'TRANSFER' | 'STATUS_UPDATE';
+type AuditEventType = 'MINT' | 'USE' | 'TRANSFER' | 'STATUS_UPDATE' | 'RECEIPT_ISSUED' | 'BATCH_VERIFY' | 'REVOKE';
 
 /**
  * Append an audit event to the transparency log
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { localJwkSigner } from "./signers/local.js";
+import { verifyDataIntegrityProof } from "./ld-verifier.js";
+import {
+  claimsFromCredential,
+  kidFromVerificationMethod,
+  receiptCredential,
+  signDataIntegrity,
+} from "./vc-receipt.js";
+import type { ReceiptClaims } from "../receipt-service.js";
+
+/**
+ * Tests for receipts as W3C Verifiable Credentials
+ */
+
+const CLAIMS: ReceiptClaims = {
+  proof_digest: "digest",
+  policy_hash: "policy",
+  constraint_hash: "constraint",
+  status_ref: {
+    statusListUrl: "https://registry.example/status/revocation/1",
+    statusListIndex: "42",
+    statusPurpose: "revocation",
+  },
+  jti: "receipt-1",
+  aud: "rp.example",
+  iat: 1_700_000_000,
+  nbf: 1_700_000_000,
+  exp: 1_700_003_600,
+  iss: "did:example:verifier",
+  sub: "asset-1",
+};
+
+function testSigner(alg: "ES256" | "ES384" | "EdDSA") {
+  const { privateKey } = alg === "EdDSA"
+    ? generateKeyPairSync("ed25519")
+    : generateKeyPairSync("ec", { namedCurve: alg === "ES384" ? "P-384" : "P-256" });
+  return localJwkSigner({ ...privateKey.export({ format: "jwk" }), kid: `kid-${alg}`, alg } as JsonWebKey);
+}
+
+describe("receipt credentials", () => {
+  it("points credentialStatus at the asset's BitstringStatusList entry", () => {
+    const credential = receiptCredential(CLAIMS);
+
+    expect(credential.type).toEqual(["VerifiableCredential", "ProofAssetReceipt"]);
+    expect(credential.credentialStatus).toEqual({
+      id: "https://registry.example/status/revocation/1#42",
+      type: "BitstringStatusListEntry",
+      statusPurpose: "revocation",
+      statusListIndex: "42",
+      statusListCredential: "https://registry.example/status/revocation/1",
+    });
+  });
+
+  it("maps the credential back to the receipt claims", () => {
+    const { aud, iat, ...credentialClaims } = CLAIMS;
+
+    expect(claimsFromCredential(receiptCredential(CLAIMS))).toEqual(credentialClaims);
+    expect(claimsFromCredential({ type: ["VerifiableCredential"] })).toBeNull();
+  });
+
+  it.each(["ES256", "ES384", "EdDSA"] as const)("embeds a Data Integrity proof signed with %s", async (alg) => {
+    const signer = testSigner(alg);
+    const secured = await signDataIntegrity(signer, receiptCredential(CLAIMS), {
+      created: CLAIMS.iat!,
+      domain: CLAIMS.aud,
+      challenge: "nonce-1",
+    });
+
+    expect(kidFromVerificationMethod(secured.proof.verificationMethod)).toBe(signer.kid);
+    const options = { expectedDomain: "rp.example", expectedChallenge: "nonce-1", resolveKey: async () => signer.publicJwk };
+    expect((await verifyDataIntegrityProof(secured, options)).ok).toBe(true);
+
+    secured.credentialStatus.statusListIndex = "43";
+    expect((await verifyDataIntegrityProof(secured, options)).code).toBe("LD_SIGNATURE_INVALID");
+  });
+});
@@ -0,0 +1,186 @@
+import { createHash } from "node:crypto";
+import { base58btc } from "multiformats/bases/base58";
+import { jcs } from "../plugins/canonicalize.js";
+import type { Signer } from "./signers/types.js";
+import type { ReceiptClaims } from "../receipt-service.js";
+
+/**
+ * Receipts as W3C Verifiable Credentials
+ *
+ * The receipt claims are wrapped in a `ProofAssetReceipt` credential whose
+ * credentialStatus points at the asset's BitstringStatusList entry. Receipt
+ * profiles, selectable per request:
+ *
+ * - jwt     plain receipt JWT (typ JWT, the original format)
+ * - vc-jwt  the credential is the JWT payload (typ vc+jwt)
+ * - vc-di   JSON credential with an embedded DataIntegrityProof
+ *           (ecdsa-jcs-2019 for ES256/ES384, eddsa-jcs-2022 for EdDSA);
+ *           audience and nonce travel as the proof's domain and challenge
+ *
+ * The Data Integrity verificationMethod is the registry JWKS entry for the
+ * signing key (<BASE_URL>/.well-known/jwks.json#<kid>).
+ *
+ * Specs:
+ * - https://www.w3.org/TR/vc-data-model-2.0/
+ * - https://www.w3.org/TR/vc-jose-cose/
+ * - https://www.w3.org/TR/vc-bitstring-status-list/
+ */
+
+export const RECEIPT_PROFILES = ["jwt", "vc-jwt", "vc-di"] as const;
+export type ReceiptProfile = typeof RECEIPT_PROFILES[number];
+
+export const VC_JWT_TYP = "vc+jwt";
+
+const CREDENTIALS_V2_CONTEXT = "https://www.w3.org/ns/credentials/v2";
+const RECEIPT_CREDENTIAL_TYPE = "ProofAssetReceipt";
+const RECEIPT_ID_PREFIX = "urn:par:receipt:";
+const ASSET_ID_PREFIX = "urn:par:asset:";
+
+// JWS alg -> Data Integrity cryptosuite
+const ALG_CRYPTOSUITES: Record<string, string> = {
+  ES256: "ecdsa-jcs-2019",
+  ES384: "ecdsa-jcs-2019",
+  EdDSA: "eddsa-jcs-2022",
+};
+
+export function isReceiptProfile(value: unknown): value is ReceiptProfile {
+  return typeof value === "string" && (RECEIPT_PROFILES as readonly string[]).includes(value);
+}
+
+/**
+ * Profile of an encoded receipt (not verified)
+ */
+export function receiptProfileOf(receipt: string): ReceiptProfile {
+  if (receipt.trimStart().startsWith("{")) return "vc-di";
+  const header = JSON.parse(Buffer.from(receipt.split(".")[0] || "", "base64url").toString("utf-8"));
+  return header.typ === VC_JWT_TYP ? "vc-jwt" : "jwt";
+}
+
+export function cryptosuiteFor(alg: string): string {
+  const cryptosuite = ALG_CRYPTOSUITES[alg];
+  if (!cryptosuite) {
+    throw new Error(`No Data Integrity cryptosuite for ${alg}`);
+  }
+  return cryptosuite;
+}
+
+/**
+ * JWS alg for a public JWK that carries no alg
+ */
+export function algOfJwk(jwk: JsonWebKey): string {
+  if (jwk.alg) return jwk.alg;
+  if (jwk.kty === "OKP" && jwk.crv === "Ed25519") return "EdDSA";
+  return jwk.crv === "P-384" ? "ES384" : "ES256";
+}
+
+export function receiptVerificationMethod(kid: string): string {
+  const baseUrl = process.env.BASE_URL || "http://localhost:5000";
+  return `${baseUrl}/.well-known/jwks.json#${kid}`;
+}
+
+export function kidFromVerificationMethod(verificationMethod: unknown): string | undefined {
+  if (typeof verificationMethod !== "string") return undefined;
+  const hash = verificationMethod.lastIndexOf("#");
+  return hash >= 0 ? verificationMethod.slice(hash + 1) : undefined;
+}
+
+/**
+ * Unsecured receipt credential for the given claims
+ */
+export function receiptCredential(claims: ReceiptClaims): Record<string, any> {
+  const { statusListUrl, statusListIndex, statusPurpose } = claims.status_ref;
+  const credentialSubject: Record<string, any> = {
+    proof_digest: claims.proof_digest,
+    policy_hash: claims.policy_hash,
+    constraint_hash: claims.constraint_hash,
+  };
+  if (claims.replay_mode) credentialSubject.replay_mode = claims.replay_mode;
+  if (claims.sub) credentialSubject.id = `${ASSET_ID_PREFIX}${claims.sub}`;
+
+  return {
+    "@context": [CREDENTIALS_V2_CONTEXT],
+    id: `${RECEIPT_ID_PREFIX}${claims.jti}`,
+    type: ["VerifiableCredential", RECEIPT_CREDENTIAL_TYPE],
+    issuer: claims.iss || process.env.BASE_URL || "http://localhost:5000",
+    validFrom: new Date(claims.nbf * 1000).toISOString(),
+    validUntil: new Date(claims.exp * 1000).toISOString(),
+    credentialSubject,
+    credentialStatus: {
+      id: `${statusListUrl}#${statusListIndex}`,
+      type: "BitstringStatusListEntry",
+      statusPurpose,
+      statusListIndex,
+      statusListCredential: statusListUrl,
+    },
+  };
+}
+
+/**
+ * Receipt claims carried by a credential (null if it is not a receipt credential)
+ *
+ * aud, nonce and iat are not part of the credential: VC-JWT carries them as
+ * JWT claims, Data Integrity as the proof's domain, challenge and created.
+ */
+export function claimsFromCredential(credential: any): Record<string, any> | null {
+  const types = Array.isArray(credential?.type) ? credential.type : [];
+  if (!types.includes("VerifiableCredential") || !types.includes(RECEIPT_CREDENTIAL_TYPE)) {
+    return null;
+  }
+  const subject = credential.credentialSubject || {};
+  const status = credential.credentialStatus || {};
+  const claims: Record<string, any> = {
+    proof_digest: subject.proof_digest,
+    policy_hash: subject.policy_hash,
+    constraint_hash: subject.constraint_hash,
+    replay_mode: subject.replay_mode,
+    status_ref: status.type === "BitstringStatusListEntry"
+      ? {
+          statusListUrl: status.statusListCredential,
+          statusListIndex: status.statusListIndex,
+          statusPurpose: status.statusPurpose,
+        }
+      : undefined,
+    iss: typeof credential.issuer === "string" ? credential.issuer : credential.issuer?.id,
+  };
+  if (typeof credential.id === "string" && credential.id.startsWith(RECEIPT_ID_PREFIX)) {
+    claims.jti = credential.id.slice(RECEIPT_ID_PREFIX.length);
+  }
+  if (typeof subject.id === "string" && subject.id.startsWith(ASSET_ID_PREFIX)) {
+    claims.sub = subject.id.slice(ASSET_ID_PREFIX.length);
+  }
+  if (credential.validFrom) claims.nbf = Math.floor(Date.parse(credential.validFrom) / 1000);
+  if (credential.validUntil) claims.exp = Math.floor(Date.parse(credential.validUntil) / 1000);
+  return claims;
+}
+
+/**
+ * Secure a credential (receipt or status list) with an embedded Data Integrity proof
+ *
+ * hashData = H(JCS(proof config)) || H(JCS(credential)); the signer applies
+ * the curve hash (SHA-384 for ES384) when signing hashData.
+ */
+export async function signDataIntegrity(
+  signer: Signer,
+  credential: Record<string, any>,
+  options: { created: number; domain?: string; challenge?: string }
+): Promise<Record<string, any>> {
+  const hash = signer.alg === "ES384" ? "sha384" : "sha256";
+  const proof: Record<string, any> = {
+    type: "DataIntegrityProof",
+    cryptosuite: cryptosuiteFor(signer.alg),
+    created: new Date(options.created * 1000).toISOString(),
+    verificationMethod: receiptVerificationMethod(signer.kid),
+    proofPurpose: "assertionMethod",
+  };
+  if (options.domain) proof.domain = options.domain;
+  if (options.challenge) proof.challenge = options.challenge;
+
+  const proofConfig = { ...proof, "@context": credential["@context"] };
+  const hashData = Buffer.concat([
+    createHash(hash).update(jcs(proofConfig), "utf8").digest(),
+    createHash(hash).update(jcs(credential), "utf8").digest(),
+  ]);
+  const signature = await signer.sign(hashData);
+
+  return { ...credential, proof: { ...proof, proofValue: base58btc.encode(signature) } };
+}
@@ -0,0 +1,136 @@
+import { db } from "../db.js";
+import { zkVerificationKeys, type ZkVerificationKey } from "../../shared/schema.js";
+import { and, desc, eq } from "drizzle-orm";
+import { commitmentHex } from "../plugins/canonicalize.js";
+import {
+  selectTrustedKeys,
+  verifyZkPayload,
+  type CatalogKeyLookup,
+  type CircuitBinding,
+  type ZkFormat,
+  type ZkPayloadVerificationResult,
+} from "./zkVerifier.js";
+
+/**
+ * Trusted ZK verification key catalog
+ *
+ * Groth16/PLONK verification keys are registered by admins and bound to a
+ * circuit identifier (proof_assets.circuit_or_schema_id) and optionally a
+ * circuit CID. Mint and fresh-proof verification only ever run snarkjs with
+ * a key from this catalog — an inline vKey in the proof payload is accepted
+ * solely as a hint and must match a catalog entry byte-for-byte (JCS digest).
+ */
+
+export type { CircuitBinding } from "./zkVerifier.js";
+export type TrustedKeyLookup = CatalogKeyLookup<ZkVerificationKey>;
+
+/**
+ * Digest a verification key for catalog matching (SHA-256 hex of JCS)
+ */
+export function vKeyDigest(vKey: unknown): string {
+  return commitmentHex(vKey);
+}
+
+export type RegisterVerificationKeyResult =
+  | { ok: true; key: ZkVerificationKey }
+  | { ok: false; code: "ZK_VKEY_PROTOCOL_MISMATCH"; reason: string };
+
+/**
+ * Register a trusted verification key for a circuit
+ * Re-registering the same key for the same circuit returns the existing entry.
+ * A vKey that does not fit the request is refused with a code; database
+ * failures are thrown.
+ */
+export async function registerVerificationKey(input: {
+  circuitId: string;
+  circuitCid?: string;
+  system: ZkFormat;
+  vKey: Record<string, unknown>;
+}): Promise<RegisterVerificationKeyResult> {
+  const protocol = typeof input.vKey.protocol === "string" ? input.vKey.protocol.toUpperCase() : undefined;
+  if (protocol && protocol !== input.system) {
+    return {
+      ok: false,
+      code: "ZK_VKEY_PROTOCOL_MISMATCH",
+      reason: `vKey protocol ${input.vKey.protocol} does not match system ${input.system}`,
+    };
+  }
+
+  const digest = vKeyDigest(input.vKey);
+  const existing = await db
+    .select()
+    .from(zkVerificationKeys)
+    .where(and(eq(zkVerificationKeys.circuitId, input.circuitId), eq(zkVerificationKeys.vKeyDigest, digest)))
+    .limit(1);
+  if (existing.length > 0) {
+    return { ok: true, key: existing[0] };
+  }
+
+  const [row] = await db
+    .insert(zkVerificationKeys)
+    .values({
+      circuitId: input.circuitId,
+      circuitCid: input.circuitCid || null,
+      system: input.system,
+      vKey: input.vKey,
+      vKeyDigest: digest,
+    })
+    .returning();
+  return { ok: true, key: row };
+}
+
+/**
+ * List catalog entries, optionally filtered by circuit identifier
+ */
+export async function listVerificationKeys(circuitId?: string): Promise<ZkVerificationKey[]> {
+  const query = db.select().from(zkVerificationKeys);
+  const rows = circuitId
+    ? await query.where(eq(zkVerificationKeys.circuitId, circuitId)).orderBy(desc(zkVerificationKeys.createdAt))
+    : await query.orderBy(desc(zkVerificationKeys.createdAt));
+  return rows;
+}
+
+/**
+ * Retire a verification key - proofs bound to it no longer verify
+ *
+ * @returns The retired entry, or null if the key does not exist
+ */
+export async function retireVerificationKey(keyId: string): Promise<ZkVerificationKey | null> {
+  const [row] = await db
+    .update(zkVerificationKeys)
+    .set({ status: "retired", retiredAt: new Date() })
+    .where(eq(zkVerificationKeys.keyId, keyId))
+    .returning();
+  return row || null;
+}
+
+/**
+ * Find the active catalog keys bound to an asset's circuit
+ */
+export async function findTrustedKeys(binding: CircuitBinding): Promise<TrustedKeyLookup> {
+  if (!binding.circuitOrSchemaId && !binding.circuitCid) {
+    return selectTrustedKeys([], binding);
+  }
+
+  const entries = await db
+    .select()
+    .from(zkVerificationKeys)
+    .where(binding.circuitOrSchemaId
+      ? eq(zkVerificationKeys.circuitId, binding.circuitOrSchemaId)
+      : eq(zkVerificationKeys.circuitCid, binding.circuitCid!));
+  return selectTrustedKeys(entries, binding);
+}
+
+/**
+ * Verify ZK proof bytes using only the catalog keys bound to a circuit
+ */
+export async function verifyZkAgainstCatalog(
+  bytes: Uint8Array,
+  binding: CircuitBinding
+): Promise<ZkPayloadVerificationResult> {
+  const lookup = await findTrustedKeys(binding);
+  if (!lookup.ok) {
+    return { ok: false, code: lookup.code, reason: lookup.reason };
+  }
+  return verifyZkPayload(bytes, lookup.keys, vKeyDigest);
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { commitmentHex } from "../plugins/canonicalize.js";
+import { selectTrustedKeys, verifyZkPayload, type CatalogKey } from "./zkVerifier.js";
+
+/**
+ * Tests for mint-time ZK checks against the trusted key catalog (no database)
+ */
+
+const VKEY = { protocol: "groth16", curve: "bn128", nPublic: 1, vk_alpha_1: ["1", "2", "1"] };
+
+function catalogKey(overrides: Partial<CatalogKey> = {}): CatalogKey {
+  return {
+    keyId: "key-1",
+    circuitId: "age-over-18",
+    circuitCid: "bafy-circuit-1",
+    system: "GROTH16",
+    vKey: VKEY,
+    vKeyDigest: commitmentHex(VKEY),
+    status: "active",
+    ...overrides,
+  };
+}
+
+function payload(fields: Record<string, unknown>) {
+  return Buffer.from(JSON.stringify({ system: "GROTH16", publicSignals: ["1"], proof: { pi_a: [] }, ...fields }));
+}
+
+describe("trusted key selection", () => {
+  it("selects the active keys bound to the circuit and CID", () => {
+    const entries = [
+      catalogKey(),
+      catalogKey({ keyId: "key-2", status: "retired" }),
+      catalogKey({ keyId: "key-3", circuitId: "other-circuit" }),
+    ];
+
+    const lookup = selectTrustedKeys(entries, { circuitOrSchemaId: "age-over-18", circuitCid: "bafy-circuit-1" });
+    expect(lookup.ok && lookup.keys.map((key) => key.keyId)).toEqual(["key-1"]);
+  });
+
+  it("rejects an unknown circuit", () => {
+    const lookup = selectTrustedKeys([catalogKey()], { circuitOrSchemaId: "unknown-circuit" });
+    expect(lookup).toMatchObject({ ok: false, code: "ZK_VKEY_NOT_REGISTERED" });
+
+    expect(selectTrustedKeys([catalogKey()], {})).toMatchObject({ ok: false, code: "ZK_CIRCUIT_BINDING_REQUIRED" });
+  });
+
+  it("rejects a circuit registered under a different CID", () => {
+    const lookup = selectTrustedKeys([catalogKey()], { circuitOrSchemaId: "age-over-18", circuitCid: "bafy-tampered" });
+    expect(lookup).toMatchObject({ ok: false, code: "ZK_CIRCUIT_CID_MISMATCH" });
+  });
+
+  it("rejects a circuit whose keys have all been retired", () => {
+    const lookup = selectTrustedKeys([catalogKey({ status: "retired" })], { circuitOrSchemaId: "age-over-18" });
+    expect(lookup).toMatchObject({ ok: false, code: "ZK_VKEY_RETIRED" });
+  });
+});
+
+describe("ZK payload verification", () => {
+  it("rejects an inline vKey whose digest is not in the catalog", async () => {
+    const forged = { ...VKEY, vk_alpha_1: ["3", "4", "1"] };
+
+    const result = await verifyZkPayload(payload({ vKey: forged }), [catalogKey()], commitmentHex);
+    expect(result).toMatchObject({ ok: false, code: "ZK_VKEY_UNTRUSTED" });
+  });
+
+  it("rejects a proof system the circuit has no key for", async () => {
+    const result = await verifyZkPayload(payload({ system: "PLONK" }), [catalogKey()], commitmentHex);
+    expect(result).toMatchObject({ ok: false, code: "ZK_VKEY_NOT_REGISTERED" });
+  });
+
+  it("only runs snarkjs with catalog keys", async () => {
+    const result = await verifyZkPayload(payload({ vKey: VKEY }), [catalogKey()], commitmentHex);
+    expect(result).toMatchObject({ ok: false, code: "ZK_VERIFY_FAILED" });
+
+    expect(await verifyZkPayload(payload({}), [], commitmentHex)).toMatchObject({ ok: false, code: "ZK_VKEY_NOT_REGISTERED" });
+  });
+});
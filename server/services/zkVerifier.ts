@@ -37,3 +37,151 @@ export async function verifyZk(
     return { ok: false, reason: String(e.message || e) };
   }
 }
+
+export interface TrustedVerificationKey {
+  keyId: string;
+  system: string;
+  vKey: unknown;
+  vKeyDigest: string;
+}
+
+export interface CatalogKey extends TrustedVerificationKey {
+  circuitId: string;
+  circuitCid: string | null;
+  status: string;             // 'active' | 'retired'
+}
+
+export interface CircuitBinding {
+  circuitOrSchemaId?: string | null;
+  circuitCid?: string | null;
+}
+
+export type CatalogKeyLookup<K extends CatalogKey = CatalogKey> =
+  | { ok: true; keys: K[] }
+  | { ok: false; code: string; reason: string };
+
+export interface ZkPayloadVerificationResult extends ZkVerificationResult {
+  code?: string;
+  keyId?: string;
+  vKeyDigest?: string;
+  system?: ZkFormat;
+  publicSignalsCount?: number;
+}
+
+/**
+ * Select the active catalog keys bound to an asset's circuit
+ * When both circuitOrSchemaId and circuitCid are set, an entry must match both.
+ *
+ * @param entries - Catalog entries registered for the circuit (any status)
+ * @param binding - The asset's circuit binding
+ */
+export function selectTrustedKeys<K extends CatalogKey>(
+  entries: K[],
+  binding: CircuitBinding
+): CatalogKeyLookup<K> {
+  if (!binding.circuitOrSchemaId && !binding.circuitCid) {
+    return {
+      ok: false,
+      code: "ZK_CIRCUIT_BINDING_REQUIRED",
+      reason: "ZK proofs must be bound to a registered circuit (circuitOrSchemaId or circuitCid)",
+    };
+  }
+
+  const circuit = binding.circuitOrSchemaId || binding.circuitCid;
+  const bound = entries.filter((entry) =>
+    (!binding.circuitOrSchemaId || entry.circuitId === binding.circuitOrSchemaId) &&
+    (!binding.circuitCid || entry.circuitCid === binding.circuitCid)
+  );
+  if (bound.length === 0) {
+    const sameCircuit = binding.circuitOrSchemaId && binding.circuitCid &&
+      entries.some((entry) => entry.circuitId === binding.circuitOrSchemaId);
+    return sameCircuit
+      ? {
+          ok: false,
+          code: "ZK_CIRCUIT_CID_MISMATCH",
+          reason: `No verification key for circuit ${binding.circuitOrSchemaId} is registered with CID ${binding.circuitCid}`,
+        }
+      : {
+          ok: false,
+          code: "ZK_VKEY_NOT_REGISTERED",
+          reason: `No active verification key registered for circuit ${circuit}`,
+        };
+  }
+
+  const keys = bound.filter((entry) => entry.status === "active");
+  if (keys.length === 0) {
+    return {
+      ok: false,
+      code: "ZK_VKEY_RETIRED",
+      reason: `Every verification key registered for circuit ${circuit} has been retired`,
+    };
+  }
+  return { ok: true, keys };
+}
+
+/**
+ * Verify a serialized ZK proof payload against catalog keys only
+ *
+ * Expected JSON payload format:
+ * {
+ *   "system": "GROTH16" | "PLONK",
+ *   "publicSignals": [...],
+ *   "proof": {...},
+ *   "vKey": {...}            // optional, must equal a trusted key if present
+ * }
+ *
+ * @param bytes - Serialized proof payload
+ * @param trustedKeys - Active catalog keys bound to the asset's circuit
+ * @param digestVKey - Digest function used to compare an inline vKey with the catalog
+ */
+export async function verifyZkPayload(
+  bytes: Uint8Array,
+  trustedKeys: TrustedVerificationKey[],
+  digestVKey: (vKey: unknown) => string
+): Promise<ZkPayloadVerificationResult> {
+  let payload: any;
+  try {
+    payload = JSON.parse(Buffer.from(bytes).toString("utf8"));
+  } catch {
+    return { ok: false, code: "ZK_PAYLOAD_INVALID", reason: "invalid_proof_structure" };
+  }
+
+  if (!payload || typeof payload !== "object" || !payload.system || !payload.publicSignals || !payload.proof) {
+    return { ok: false, code: "ZK_PAYLOAD_INVALID", reason: "zk_payload_missing_fields" };
+  }
+
+  if (payload.system !== "GROTH16" && payload.system !== "PLONK") {
+    return { ok: false, code: "ZK_PAYLOAD_INVALID", reason: "unsupported_zk_system" };
+  }
+
+  let candidates = trustedKeys.filter((k) => k.system === payload.system);
+  if (candidates.length === 0) {
+    return { ok: false, code: "ZK_VKEY_NOT_REGISTERED", reason: `no_trusted_${payload.system.toLowerCase()}_key` };
+  }
+
+  // An inline vKey is only a selector - it must be one of the catalog keys
+  if (payload.vKey !== undefined) {
+    const inlineDigest = digestVKey(payload.vKey);
+    candidates = candidates.filter((k) => k.vKeyDigest === inlineDigest);
+    if (candidates.length === 0) {
+      return { ok: false, code: "ZK_VKEY_UNTRUSTED", reason: "inline_vkey_not_in_catalog" };
+    }
+  }
+
+  let lastReason: string | undefined;
+  for (const key of candidates) {
+    const result = await verifyZk(payload.system, key.vKey, payload.publicSignals, payload.proof);
+    if (result.ok) {
+      return {
+        ok: true,
+        keyId: key.keyId,
+        vKeyDigest: key.vKeyDigest,
+        system: payload.system,
+        publicSignalsCount: payload.publicSignals.length,
+      };
+    }
+    lastReason = result.reason;
+  }
+
+  return { ok: false, code: "ZK_VERIFY_FAILED", reason: lastReason || "verify_failed" };
+}
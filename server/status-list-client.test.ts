@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { gzipSync } from "node:zlib";
+import { localJwkSigner } from "./services/signers/local.js";
+import { signStatusListCredential, statusListCredential, statusListIssuer } from "./services/status-list-credential.js";
+import { fetchStatusList, verifyProofStatus, type StatusListResult } from "./status-list-client.js";
+
+/**
+ * Tests for binding fetched status lists to the requested list (no network)
+ */
+
+const REVOCATION_URL = "http://localhost:5000/status/lists/revocation/client-1";
+const SUSPENSION_URL = "http://localhost:5000/status/lists/suspension/client-1";
+
+function testSigner() {
+  const { privateKey } = generateKeyPairSync("ed25519");
+  return localJwkSigner({ ...privateKey.export({ format: "jwk" }), kid: "kid-client", alg: "EdDSA" } as JsonWebKey);
+}
+
+async function signedList(url: string, purpose: string, signer = testSigner()) {
+  const credential = statusListCredential({ url, purpose, encodedList: gzipSync(Buffer.alloc(16)).toString("base64") });
+  return { signer, body: JSON.stringify(await signStatusListCredential(signer, credential, "vc-di")) };
+}
+
+function verification(signer: ReturnType<typeof testSigner>) {
+  return {
+    trustedIssuers: [statusListIssuer()],
+    resolveKey: async (kid: string) => kid === signer.kid
+      ? { kid, alg: signer.alg, publicJwk: signer.publicJwk, retireAt: null }
+      : undefined,
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("status list client", () => {
+  it("rejects a validly signed list served in place of the requested one", async () => {
+    const { signer, body } = await signedList(SUSPENSION_URL, "suspension");
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(body, { status: 200 })));
+
+    await expect(fetchStatusList(REVOCATION_URL, { verification: verification(signer) }))
+      .rejects.toThrow(/status_list_url_mismatch/);
+  });
+
+  it("accepts the requested list and reports its purpose", async () => {
+    const { signer, body } = await signedList(REVOCATION_URL, "revocation");
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(body, { status: 200 })));
+
+    const result = await fetchStatusList(REVOCATION_URL, { verification: verification(signer) });
+    expect(result.statusPurpose).toBe("revocation");
+  });
+
+  it("fails closed when the list's purpose does not match the entry", async () => {
+    const suspensionList: StatusListResult = {
+      bitstring: new Uint8Array(16),
+      statusPurpose: "suspension",
+      fromCache: false,
+      age: 0,
+    };
+
+    const status = await verifyProofStatus(REVOCATION_URL, "3", "revocation", async () => suspensionList);
+    expect(status.verdict).toBe("unknown");
+    expect(status.reason).toMatch(/status_list_purpose_mismatch/);
+  });
+});
@@ -1,11 +1,23 @@
 import { setWithTTL, get as redisGet } from "./redis-client.js";
 import { gunzipSync } from "zlib";
+import {
+  normalizeStatusListUrl,
+  verifyStatusListCredential,
+  type VerifyStatusListCredentialOptions,
+} from "./services/status-list-credential.js";
+import { statusMessageFor, type StatusMessage } from "./services/status-messages.js";
+import { readStatusEntry } from "./bitstring-utils.js";
 
 /**
  * W3C Bitstring Status List Client
  * 
  * Implements fail-closed security model:
  * - If status list unreachable or stale → fail verification
+ * - Only signed status list credentials (Data Integrity or VC-JWT) from a
+ *   trusted issuer within their validity period are accepted
+ *   (services/status-list-credential.ts)
+ * - The credential must be the list that was asked for: its id must match
+ *   the fetched URL and its statusPurpose the entry's purpose
  * - Uses ETag caching with If-None-Match for efficiency
  * - Configurable max staleness threshold
  * 
@@ -15,10 +27,16 @@ import { gunzipSync } from "zlib";
  * - Set appropriate staleness thresholds per policy
  */
 
+export { normalizeStatusListUrl };
+
 interface StatusListCache {
   etag?: string;
   bitstring: Uint8Array;
+  statusPurpose: string;
+  statusSize: number;
+  statusMessages?: StatusMessage[];
   fetchedAt: number;
+  validUntil?: number;  // Credential validUntil (ms) - not revalidated with ETag once passed
 }
 
 // In-memory cache (production should use Redis)
@@ -31,44 +49,19 @@ const FETCH_TIMEOUT_MS = parseInt(process.env.STATUS_FETCH_TIMEOUT_MS || '3000')
 export interface FetchStatusListOptions {
   maxStalenessMs?: number;
   timeoutMs?: number;
+  verification?: VerifyStatusListCredentialOptions;
 }
 
 export interface StatusListResult {
   bitstring: Uint8Array;
+  statusPurpose?: string;            // credentialSubject.statusPurpose
+  statusSize?: number;               // Bits per entry (default 1)
+  statusMessages?: StatusMessage[];  // Present when statusSize > 1
   etag?: string;
   fromCache: boolean;
   age: number; // milliseconds since fetch
 }
 
-/**
- * Normalize status list URL for consistent caching
- * - Lowercase scheme and hostname
- * - Remove default ports (80, 443)
- * - Remove trailing slash
- */
-export function normalizeStatusListUrl(url: string): string {
-  try {
-    const parsed = new URL(url);
-    parsed.protocol = parsed.protocol.toLowerCase();
-    parsed.hostname = parsed.hostname.toLowerCase();
-    
-    // Remove default ports
-    if ((parsed.protocol === 'https:' && parsed.port === '443') || 
-        (parsed.protocol === 'http:' && parsed.port === '80')) {
-      parsed.port = '';
-    }
-    
-    // Remove trailing slash from pathname (except root)
-    if (parsed.pathname.endsWith('/') && parsed.pathname !== '/') {
-      parsed.pathname = parsed.pathname.slice(0, -1);
-    }
-    
-    return parsed.toString();
-  } catch (error: any) {
-    throw new Error(`Invalid status list URL: ${error.message}`);
-  }
-}
-
 /**
  * Fetch W3C Status List with ETag caching
  * 
@@ -97,6 +90,9 @@ export async function fetchStatusList(
     if (age > maxStaleness) {
       console.warn(`[status-list] Cache too old (age: ${age}ms, max: ${maxStaleness}ms) - fetching fresh data`);
       statusListCache.delete(normalizedUrl); // Remove stale entry
+    } else if (cached.validUntil !== undefined && cached.validUntil < now) {
+      console.warn(`[status-list] Cached credential expired - fetching a fresh one`);
+      statusListCache.delete(normalizedUrl);
     }
   }
   
@@ -126,6 +122,9 @@ export async function fetchStatusList(
       
       return {
         bitstring: cached.bitstring,
+        statusPurpose: cached.statusPurpose,
+        statusSize: cached.statusSize,
+        statusMessages: cached.statusMessages,
         etag: cached.etag,
         fromCache: true,
         age: 0,
@@ -137,20 +136,20 @@ export async function fetchStatusList(
       throw new Error(`Status list fetch failed: HTTP ${response.status}`);
     }
     
-    // Parse W3C Bitstring Status List JSON response
-    const json = await response.json();
-    const encodedList = json.credentialSubject?.encodedList;
+    // Verify the signed BitstringStatusListCredential (signature, issuer, validity)
+    // and bind it to the requested URL
+    const credential = await verifyStatusListCredential(await response.text(), {
+      ...options.verification,
+      expectedUrl: normalizedUrl,
+    });
+    const encodedList = credential.credentialSubject?.encodedList;
     
     if (!encodedList || typeof encodedList !== 'string') {
       throw new Error('Invalid status list format: missing or invalid encodedList');
     }
     
-    // Base64 decode the gzipped bitstring
-    const gzippedBuffer = Buffer.from(encodedList, 'base64');
-    
-    // Gunzip decompress to get raw bitstring bytes
-    const decompressed = gunzipSync(gzippedBuffer);
-    const bitstring = new Uint8Array(decompressed);
+    const bitstring = decodeEncodedList(encodedList);
+    const { statusSize, statusMessages } = parseStatusMessages(credential.credentialSubject);
     
     const etag = response.headers.get('ETag') || undefined;
     
@@ -158,12 +157,19 @@ export async function fetchStatusList(
     const cacheEntry: StatusListCache = {
       etag,
       bitstring,
+      statusPurpose: credential.credentialSubject.statusPurpose,
+      statusSize,
+      statusMessages,
       fetchedAt: now,
+      validUntil: credential.validUntil ? Date.parse(credential.validUntil) : undefined,
     };
     statusListCache.set(normalizedUrl, cacheEntry);
     
     return {
       bitstring,
+      statusPurpose: credential.credentialSubject.statusPurpose,
+      statusSize,
+      statusMessages,
       etag,
       fromCache: false,
       age: 0,
@@ -184,6 +190,39 @@ export async function fetchStatusList(
   }
 }
 
+/**
+ * Decode a status list credential's encodedList (base64 gzipped bitstring)
+ * 
+ * @param encodedList - credentialSubject.encodedList
+ * @returns Raw bitstring bytes
+ */
+export function decodeEncodedList(encodedList: string): Uint8Array {
+  // Base64 decode the gzipped bitstring
+  const gzippedBuffer = Buffer.from(encodedList, 'base64');
+  
+  // Gunzip decompress to get raw bitstring bytes
+  return new Uint8Array(gunzipSync(gzippedBuffer));
+}
+
+/**
+ * Read statusSize / statusMessages from a status list credentialSubject
+ * 
+ * @throws Error if statusSize is invalid, or > 1 without a message table
+ */
+function parseStatusMessages(subject: Record<string, any>): { statusSize: number; statusMessages?: StatusMessage[] } {
+  const statusSize = subject.statusSize ?? 1;
+  if (!Number.isInteger(statusSize) || statusSize < 1 || statusSize > 8) {
+    throw new Error(`Invalid status list format: statusSize ${statusSize}`);
+  }
+  if (subject.statusMessages !== undefined && !Array.isArray(subject.statusMessages)) {
+    throw new Error('Invalid status list format: statusMessages must be an array');
+  }
+  if (statusSize > 1 && !subject.statusMessages) {
+    throw new Error('Invalid status list format: statusSize > 1 requires statusMessages');
+  }
+  return { statusSize, statusMessages: subject.statusMessages };
+}
+
 /**
  * Check if a specific index is set in the bitstring
  * 
@@ -222,22 +261,28 @@ export function checkBitstringIndex(bitstring: Uint8Array, index: string): boole
  * 
  * Implements fail-closed behavior:
  * - If list unreachable or stale → reject verification
+ * - If the list's statusPurpose differs from the entry's → reject verification
  * - If index set to 1 → proof is revoked/suspended
  * - If index set to 0 → proof is active
  * 
  * @param statusListUrl - URL to W3C Status List
  * @param statusListIndex - Index in bitstring
  * @param statusPurpose - 'revocation' or 'suspension'
+ * @param loadStatusList - Status list loader (defaults to fetchStatusList)
  * @returns Verification verdict
  */
 export async function verifyProofStatus(
   statusListUrl: string,
   statusListIndex: string,
-  statusPurpose: 'revocation' | 'suspension'
+  statusPurpose: 'revocation' | 'suspension',
+  loadStatusList: (url: string) => Promise<StatusListResult> = fetchStatusList
 ): Promise<{ verdict: 'valid' | 'revoked' | 'suspended' | 'unknown'; reason?: string }> {
   try {
     // Fetch status list (with caching and fail-closed)
-    const result = await fetchStatusList(statusListUrl);
+    const result = await loadStatusList(statusListUrl);
+    if (result.statusPurpose !== statusPurpose) {
+      throw new Error(`status_list_purpose_mismatch: ${result.statusPurpose || 'none'} is not ${statusPurpose}`);
+    }
     
     // Check bit at index
     const isSet = checkBitstringIndex(result.bitstring, statusListIndex);
@@ -262,3 +307,99 @@ export async function verifyProofStatus(
     };
   }
 }
+
+/**
+ * Status list entries of a proof asset
+ */
+export interface AssetStatusEntries {
+  statusListUrl: string;
+  statusListIndex: string;
+  statusPurpose: string;
+  suspensionListUrl?: string | null;   // null for assets minted before suspension entries
+  suspensionListIndex?: string | null;
+  messageListUrl?: string | null;      // null for assets minted before status message entries
+  messageListIndex?: string | null;
+}
+
+/**
+ * Decode an asset's status message entry (multi-bit)
+ * 
+ * Fails closed like verifyProofStatus: an unavailable list, a 1-bit list or a
+ * value missing from the list's message table yields a reason instead.
+ * 
+ * @param messageListUrl - URL to the `message` status list
+ * @param messageListIndex - Entry index (counted in entries, not bits)
+ * @param loadStatusList - Status list loader (defaults to fetchStatusList)
+ */
+export async function readStatusMessage(
+  messageListUrl: string,
+  messageListIndex: string,
+  loadStatusList: (url: string) => Promise<StatusListResult> = fetchStatusList
+): Promise<{ statusMessage: StatusMessage | null; reason?: string }> {
+  try {
+    const result = await loadStatusList(messageListUrl);
+    if (result.statusPurpose !== 'message') {
+      throw new Error(`status_list_purpose_mismatch: ${result.statusPurpose || 'none'} is not message`);
+    }
+    const statusSize = result.statusSize ?? 1;
+    if (statusSize < 2 || !result.statusMessages) {
+      throw new Error('not a multi-bit status message list');
+    }
+
+    const bitstring = Buffer.from(result.bitstring.buffer, result.bitstring.byteOffset, result.bitstring.byteLength);
+    const value = readStatusEntry(bitstring, parseInt(messageListIndex, 10), statusSize);
+    const statusMessage = statusMessageFor(value, result.statusMessages);
+    if (!statusMessage) {
+      throw new Error(`no status message for value 0x${value.toString(16)}`);
+    }
+    return { statusMessage };
+  } catch (error: any) {
+    console.error('[status-list] Status message check failed (fail-closed):', error.message);
+    return {
+      statusMessage: null,
+      reason: `Status message verification failed: ${error.message}`,
+    };
+  }
+}
+
+/**
+ * Verify both status entries of an asset
+ * 
+ * The revocation entry is checked first and wins: a revoked asset is reported
+ * as revoked even while suspended. The status message entry, if any, is
+ * decoded alongside; it does not change the verdict by itself. Fails closed if
+ * any of the lists is unavailable.
+ * 
+ * @param asset - Asset's revocation and (optional) suspension and message entries
+ * @param loadStatusList - Status list loader (defaults to fetchStatusList)
+ * @returns Verdict, whether a suspension entry was checked, and the decoded status message
+ */
+export async function verifyAssetStatus(
+  asset: AssetStatusEntries,
+  loadStatusList: (url: string) => Promise<StatusListResult> = fetchStatusList
+): Promise<{
+  verdict: 'valid' | 'revoked' | 'suspended' | 'unknown';
+  reason?: string;
+  suspensionChecked: boolean;
+  statusMessage: StatusMessage | null;
+}> {
+  const revocation = await verifyProofStatus(
+    asset.statusListUrl,
+    asset.statusListIndex,
+    asset.statusPurpose as 'revocation' | 'suspension',
+    loadStatusList
+  );
+  const status = revocation.verdict !== 'valid' || !asset.suspensionListUrl || !asset.suspensionListIndex
+    ? { ...revocation, suspensionChecked: false }
+    : { ...(await verifyProofStatus(asset.suspensionListUrl, asset.suspensionListIndex, 'suspension', loadStatusList)), suspensionChecked: true };
+
+  if (status.verdict === 'unknown' || !asset.messageListUrl || !asset.messageListIndex) {
+    return { ...status, statusMessage: null };
+  }
+
+  const message = await readStatusMessage(asset.messageListUrl, asset.messageListIndex, loadStatusList);
+  if (message.reason) {
+    return { verdict: 'unknown', reason: message.reason, suspensionChecked: status.suspensionChecked, statusMessage: null };
+  }
+  return { ...status, statusMessage: message.statusMessage };
+}
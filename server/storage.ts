@@ -7,15 +7,17 @@ import {
   type DashboardStats,
   type SystemHealth,
 } from "../shared/schema.js";
+import type { AllocationContext, AssetStatusRefs } from "./services/status-list-allocator.js";
 
 export interface IStorage {
   // Proof Assets
   getProofAsset(id: string): Promise<ProofAsset | undefined>;
   getProofAssets(): Promise<ProofAsset[]>;
   getRecentProofAssets(limit?: number): Promise<ProofAsset[]>;
-  getProofAssetCountByStatusList(statusListUrl: string): Promise<number>;
   getProofAssetByDigest(partnerId: string | null, proofDigest: string): Promise<ProofAsset | undefined>;
   createProofAsset(proof: Partial<ProofAsset>): Promise<ProofAsset>;
+  // Allocates the asset's status list entries and inserts it atomically
+  createProofAssetWithStatus(proof: Partial<ProofAsset>, context: AllocationContext): Promise<ProofAsset>;
   updateProofAsset(id: string, updates: Partial<ProofAsset>): Promise<ProofAsset>;
   updateProofAssetStatus(id: string, status: string): Promise<void>;
 
@@ -68,18 +70,13 @@ export class MemStorage implements IStorage {
       .slice(0, limit);
   }
 
-  async getProofAssetCountByStatusList(statusListUrl: string): Promise<number> {
-    return Array.from(this.proofAssets.values())
-      .filter(p => p.statusListUrl === statusListUrl).length;
-  }
-
   async getProofAssetByDigest(partnerId: string | null, proofDigest: string): Promise<ProofAsset | undefined> {
     return Array.from(this.proofAssets.values())
       .find(p => p.partnerId === partnerId && p.proofDigest === proofDigest);
   }
 
   async createProofAsset(proof: Partial<ProofAsset>): Promise<ProofAsset> {
-    const id = crypto.randomUUID();
+    const id = proof.proofAssetId || crypto.randomUUID();
     const now = new Date();
     const asset: ProofAsset = {
       proofAssetId: id,
@@ -103,6 +100,12 @@ export class MemStorage implements IStorage {
       statusListUrl: proof.statusListUrl || "",
       statusListIndex: proof.statusListIndex || "",
       statusPurpose: proof.statusPurpose || "",
+      suspensionListUrl: proof.suspensionListUrl ?? null,
+      suspensionListIndex: proof.suspensionListIndex ?? null,
+      messageListUrl: proof.messageListUrl ?? null,
+      messageListIndex: proof.messageListIndex ?? null,
+      revocationReason: proof.revocationReason ?? null,
+      revokedAt: proof.revokedAt ?? null,
       attestations: proof.attestations || null,
       auditCid: proof.auditCid || null,
       verificationStatus: proof.verificationStatus || "pending",
@@ -120,6 +123,19 @@ export class MemStorage implements IStorage {
     return asset;
   }
 
+  // In-memory stub: one unbounded list per purpose, entries handed out in order
+  async createProofAssetWithStatus(proof: Partial<ProofAsset>, _context: AllocationContext): Promise<ProofAsset> {
+    const index = String(this.proofAssets.size);
+    return this.createProofAsset({
+      ...proof,
+      ...statusRefFields({
+        revocation: { statusListUrl: "memory://status/revocation", statusListIndex: index, statusPurpose: "revocation" },
+        suspension: { statusListUrl: "memory://status/suspension", statusListIndex: index, statusPurpose: "suspension" },
+        message: { statusListUrl: "memory://status/message", statusListIndex: index, statusPurpose: "message" },
+      }),
+    });
+  }
+
   async updateProofAsset(id: string, updates: Partial<ProofAsset>): Promise<ProofAsset> {
     const asset = this.proofAssets.get(id);
     if (!asset) {
@@ -185,7 +201,13 @@ export class MemStorage implements IStorage {
       url: list.url || "",
       bitstring: list.bitstring || defaultBitstring,
       size: list.size || 131072,
+      statusSize: list.statusSize ?? 1,
+      statusMessages: list.statusMessages ?? null,
       etag: list.etag || null,
+      partitionKey: list.partitionKey ?? null,
+      sequence: list.sequence ?? null,
+      allocationCursor: list.allocationCursor ?? 0,
+      allocationSeed: list.allocationSeed ?? null,
       createdAt: now,
       updatedAt: now,
     };
@@ -263,8 +285,21 @@ export class MemStorage implements IStorage {
   }
 }
 
+function statusRefFields(refs: AssetStatusRefs): Partial<ProofAsset> {
+  return {
+    statusListUrl: refs.revocation.statusListUrl,
+    statusListIndex: refs.revocation.statusListIndex,
+    statusPurpose: refs.revocation.statusPurpose,
+    suspensionListUrl: refs.suspension.statusListUrl,
+    suspensionListIndex: refs.suspension.statusListIndex,
+    messageListUrl: refs.message.statusListUrl,
+    messageListIndex: refs.message.statusListIndex,
+  };
+}
+
 // PostgreSQL Storage Implementation
-import { db } from "./db.js";
+import { db, type DbExecutor } from "./db.js";
+import { allocateAssetStatusRefs } from "./services/status-list-allocator.js";
 import { proofAssets as proofAssetsTable, auditEvents as auditEventsTable, statusLists as statusListsTable, mintFailures as mintFailuresTable, partners as partnersTable } from "../shared/schema.js";
 import { eq, desc, sql, and } from "drizzle-orm";
 
@@ -284,13 +319,6 @@ export class PostgresStorage implements IStorage {
     return results as ProofAsset[];
   }
 
-  async getProofAssetCountByStatusList(statusListUrl: string): Promise<number> {
-    const results = await db.select({ count: sql<number>`count(*)` })
-      .from(proofAssetsTable)
-      .where(eq(proofAssetsTable.statusListUrl, statusListUrl));
-    return Number(results[0]?.count ?? 0);
-  }
-
   async getProofAssetByDigest(partnerId: string | null, proofDigest: string): Promise<ProofAsset | undefined> {
     const conditions = [eq(proofAssetsTable.proofDigest, proofDigest)];
     if (partnerId) {
@@ -301,10 +329,22 @@ export class PostgresStorage implements IStorage {
   }
 
   async createProofAsset(proof: Partial<ProofAsset>): Promise<ProofAsset> {
+    return this.insertProofAsset(db, proof);
+  }
+
+  // A failed insert rolls back the reserved entries, so no list index is lost
+  async createProofAssetWithStatus(proof: Partial<ProofAsset>, context: AllocationContext): Promise<ProofAsset> {
+    return db.transaction(async (tx) => {
+      const refs = await allocateAssetStatusRefs(context, tx);
+      return this.insertProofAsset(tx, { ...proof, ...statusRefFields(refs) });
+    });
+  }
+
+  private async insertProofAsset(executor: DbExecutor, proof: Partial<ProofAsset>): Promise<ProofAsset> {
     // Compute expiresAt from Postgres clock (created_at + ttl_seconds) — one clock, zero drift.
     // Caller passes ttlSeconds but NOT expiresAt; Postgres owns both timestamps.
     const { expiresAt: _, ...proofWithoutExpiry } = proof as any;
-    const results = await db.insert(proofAssetsTable).values({
+    const results = await executor.insert(proofAssetsTable).values({
       ...proofWithoutExpiry,
       expiresAt: proof.ttlSeconds
         ? sql`now() + (${proof.ttlSeconds} * interval '1 second')`
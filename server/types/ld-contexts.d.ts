@@ -0,0 +1,16 @@
+// Bundled JSON-LD context packages ship without type declarations.
+// Each exposes a Map of context URL → context document.
+
+declare module "@digitalbazaar/credentials-context" {
+  export const contexts: Map<string, object>;
+}
+
+declare module "@digitalbazaar/data-integrity-context" {
+  const pkg: { contexts: Map<string, object> };
+  export default pkg;
+}
+
+declare module "@digitalbazaar/multikey-context" {
+  const pkg: { contexts: Map<string, object> };
+  export default pkg;
+}
@@ -1,3 +1,8 @@
+import { createHash } from "node:crypto";
+import { blake3 } from "@noble/hashes/blake3";
+import { varint } from "multiformats";
+import { jcs } from "../plugins/canonicalize.js";
+
 /**
  * Digest normalization utilities
  * Handles conversion between hex (DB) and base64url (JWT/JWS) formats
@@ -53,3 +58,89 @@ export function hexToB64u(hex: string): string {
 export function b64uToHex(b64u: string): string {
   return b64uToBytes(b64u).toString("hex");
 }
+
+// Multihash function codes for the digest algorithms the registry can compute
+const MULTIHASH_CODES: Record<number, "sha2-256" | "sha3-256" | "blake3"> = {
+  0x12: "sha2-256",
+  0x16: "sha3-256",
+  0x1e: "blake3",
+};
+
+/**
+ * Hash bytes with a raw (non-multihash) registry digest algorithm
+ * @throws Error if the algorithm cannot be computed locally
+ */
+export function hashBytes(bytes: Uint8Array, alg: string): Buffer {
+  switch (alg) {
+    case "sha2-256":
+      return createHash("sha256").update(bytes).digest();
+    case "sha3-256":
+      return createHash("sha3-256").update(bytes).digest();
+    case "blake3":
+      return Buffer.from(blake3(bytes));
+    default:
+      throw new Error(`unsupported_digest_alg: ${alg}`);
+  }
+}
+
+/**
+ * Decode a hex multihash into its hash algorithm and raw digest
+ * @throws Error for unknown function codes or length mismatches
+ */
+export function decodeMultihashHex(hex: string): { alg: "sha2-256" | "sha3-256" | "blake3"; digest: Buffer } {
+  const bytes = hexToBytes(hex);
+  const [code, codeLen] = varint.decode(bytes);
+  const [length, lengthLen] = varint.decode(bytes, codeLen);
+  const alg = MULTIHASH_CODES[code];
+  if (!alg) {
+    throw new Error(`unsupported_multihash_code: 0x${code.toString(16)}`);
+  }
+  const digest = bytes.subarray(codeLen + lengthLen);
+  if (digest.length !== length) {
+    throw new Error("multihash_length_mismatch");
+  }
+  return { alg, digest };
+}
+
+/**
+ * Compute a hex digest of proof bytes using a registry digest algorithm
+ * "multihash" produces a sha2-256 multihash; use digestMatchesHex to check
+ * a declared multihash of any supported function.
+ * @throws Error if the algorithm cannot be computed locally
+ */
+export function computeDigestHex(bytes: Uint8Array, alg: string): string {
+  if (alg === "multihash") {
+    return "1220" + hashBytes(bytes, "sha2-256").toString("hex");
+  }
+  return hashBytes(bytes, alg).toString("hex");
+}
+
+/**
+ * Check proof bytes against a declared hex digest
+ * Multihash digests are verified with the function named in their prefix.
+ * @throws Error if the algorithm cannot be computed locally
+ */
+export function digestMatchesHex(bytes: Uint8Array, alg: string, expectedHex: string): boolean {
+  if (alg === "multihash") {
+    const { alg: inner, digest } = decodeMultihashHex(expectedHex);
+    return hashBytes(bytes, inner).equals(digest);
+  }
+  return computeDigestHex(bytes, alg) === expectedHex.toLowerCase();
+}
+
+/**
+ * Stable digest of a public JWK (SHA-256 over its RFC 8785 canonical form)
+ * Used to record which key verified a proof without storing the key itself.
+ */
+export function jwkDigestHex(jwk: JsonWebKey): string {
+  const { d, p, q, dp, dq, qi, ...publicJwk } = jwk as any;
+  return createHash("sha256").update(jcs(publicJwk)).digest("hex");
+}
+
+/**
+ * Key digest recorded for embedded-JWK proofs before jwkDigestHex
+ * (SHA-256 over JSON.stringify of the JWK exactly as it appeared in the header)
+ */
+export function legacyJwkDigestHex(jwk: JsonWebKey): string {
+  return createHash("sha256").update(JSON.stringify(jwk)).digest("hex");
+}
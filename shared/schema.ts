@@ -26,6 +26,14 @@ export const proofAssets = pgTable("proof_assets", {
   statusListUrl: text("status_list_url").notNull(),
   statusListIndex: text("status_list_index").notNull(),
   statusPurpose: text("status_purpose").notNull(),
+  // Suspension entry (null for assets minted before suspend / reinstate)
+  suspensionListUrl: text("suspension_list_url"),
+  suspensionListIndex: text("suspension_list_index"),
+  // Status message entry (null for assets minted before multi-bit message lists)
+  messageListUrl: text("message_list_url"),
+  messageListIndex: text("message_list_index"),
+  revocationReason: text("revocation_reason"), // 'key_compromise' | 'superseded' | 'issuer_request' | 'fraud'
+  revokedAt: timestamp("revoked_at", { withTimezone: true }), // Effective revocation time (may be backdated)
   attestations: jsonb("attestations"),
   auditCid: text("audit_cid"),
   verificationStatus: text("verification_status").default("pending"),
@@ -42,6 +50,8 @@ export const proofAssets = pgTable("proof_assets", {
   commitmentIdx: uniqueIndex("ux_commitment").on(table.proofAssetCommitment),
   proofDigestIdx: uniqueIndex("ux_partner_proof_digest").on(table.partnerId, table.proofDigest),
   statusIdx: index("ix_status").on(table.statusListUrl, table.statusListIndex),
+  suspensionIdx: index("ix_suspension").on(table.suspensionListUrl, table.suspensionListIndex),
+  messageIdx: index("ix_message").on(table.messageListUrl, table.messageListIndex),
   issuerIdx: index("ix_issuer").on(table.issuerDid),
   partnerIdx: index("ix_partner").on(table.partnerId),
   formatIdx: index("ix_format").on(table.proofFormat),
@@ -72,12 +82,20 @@ export const statusLists = pgTable("status_lists", {
   purpose: text("purpose").notNull(),
   url: text("url").notNull().unique(),
   bitstring: text("bitstring").notNull(), // Base64-encoded gzipped bitstring
-  size: bigint("size", { mode: "number" }).notNull(),
+  size: bigint("size", { mode: "number" }).notNull(), // Entries (bitstring holds size * statusSize bits)
+  statusSize: integer("status_size").notNull().default(1), // Bits per entry (> 1 for 'message' lists)
+  statusMessages: jsonb("status_messages"), // [{ status: '0x0', message }] for multi-bit lists
   etag: text("etag"),
+  // Allocator state (null partition = list not managed by the allocator)
+  partitionKey: text("partition_key"), // 'default', 'partner-<hash>' or 'policy-<hash>'
+  sequence: integer("sequence"), // Rollover number within the partition
+  allocationCursor: integer("allocation_cursor").notNull().default(0), // Entries handed out so far
+  allocationSeed: text("allocation_seed"), // Secret index permutation key - never served
   createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
 }, (table) => ({
   purposeIdx: index("ix_purpose").on(table.purpose),
+  partitionSeqIdx: uniqueIndex("ux_status_lists_partition_seq").on(table.purpose, table.partitionKey, table.sequence),
 }));
 
 // JTI Replay Cache - Prevent receipt replay attacks across restarts
@@ -164,6 +182,64 @@ export const assetUsage = pgTable("asset_usage", {
   usedAtIdx: index("ix_usage_used_at").on(table.usedAt),
 }));
 
+// ZK Verification Keys - Trusted Groth16/PLONK verification key catalog
+// Assets bind to an entry via circuitOrSchemaId / circuitCid; provers never supply their own key
+export const zkVerificationKeys = pgTable("zk_verification_keys", {
+  keyId: uuid("key_id").primaryKey().defaultRandom(),
+  circuitId: text("circuit_id").notNull(), // Matches proof_assets.circuit_or_schema_id
+  circuitCid: text("circuit_cid"), // Optional content address of the circuit artifact
+  system: text("system").notNull(), // 'GROTH16' | 'PLONK'
+  vKey: jsonb("v_key").notNull(),
+  vKeyDigest: text("v_key_digest").notNull(), // SHA-256 hex of JCS(vKey)
+  status: varchar("status", { length: 16 }).notNull().default("active"), // 'active' | 'retired'
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  retiredAt: timestamp("retired_at", { withTimezone: true }),
+}, (table) => ({
+  circuitIdx: index("ix_zk_keys_circuit").on(table.circuitId),
+  circuitCidIdx: index("ix_zk_keys_circuit_cid").on(table.circuitCid),
+  circuitDigestIdx: uniqueIndex("ux_zk_keys_circuit_digest").on(table.circuitId, table.vKeyDigest),
+}));
+
+// Receipt Signing Keys - Keyring for receipt JWS signing; public keys published at /.well-known/jwks.json
+// The newest key that is not retired signs; retired keys keep verifying receipts issued before retirement
+export const receiptSigningKeys = pgTable("receipt_signing_keys", {
+  kid: varchar("kid", { length: 64 }).primaryKey(),
+  alg: varchar("alg", { length: 16 }).notNull().default("ES256"),
+  publicJwk: jsonb("public_jwk").notNull(),
+  privateJwkEnc: text("private_jwk_enc"), // AES-256-GCM sealed private JWK; null for verify-only keys
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  retireAt: timestamp("retire_at", { withTimezone: true }), // Stops signing at this time (scheduled or immediate)
+}, (table) => ({
+  createdIdx: index("ix_receipt_keys_created").on(table.createdAt),
+}));
+
+// Revoked Receipt Keys - Published at /.well-known/revoked-keys.json
+// Receipts signed by a revoked kid are rejected; with a cutoff, only those issued at or after it
+export const revokedReceiptKeys = pgTable("revoked_receipt_keys", {
+  kid: varchar("kid", { length: 64 }).primaryKey(),
+  reason: varchar("reason", { length: 32 }).notNull(), // 'key_compromise' | 'superseded' | 'cessation_of_operation' | 'unspecified'
+  revokedAt: timestamp("revoked_at", { withTimezone: true }).notNull().defaultNow(),
+  receiptsIssuedAfter: timestamp("receipts_issued_after", { withTimezone: true }), // null = every receipt from this kid
+});
+
+// Receipt Issuances - Audience-bound receipts re-issued to relying parties
+// Re-verification accepts receipts for any audience recorded here
+export const receiptIssuances = pgTable("receipt_issuances", {
+  issuanceId: uuid("issuance_id").primaryKey().defaultRandom(),
+  assetId: varchar("asset_id", { length: 36 }).notNull().references(() => proofAssets.proofAssetId),
+  partnerId: uuid("partner_id"), // API key partner that requested the receipt
+  audience: text("audience").notNull(),
+  nonce: text("nonce"),
+  jti: varchar("jti", { length: 64 }).notNull(),
+  kid: varchar("kid", { length: 64 }).notNull(),
+  alg: varchar("alg", { length: 16 }).notNull(),
+  issuedAt: timestamp("issued_at", { withTimezone: true }).notNull().defaultNow(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+}, (table) => ({
+  assetAudienceIdx: index("ix_receipt_issuances_asset_audience").on(table.assetId, table.audience),
+  jtiIdx: uniqueIndex("ux_receipt_issuances_jti").on(table.jti),
+}));
+
 // Zod Schemas for API validation
 export const proofFormatEnum = z.enum([
   'ZK_PROOF',
@@ -172,6 +248,8 @@ export const proofFormatEnum = z.enum([
   'HW_ATTESTATION',
   'MERKLE_PROOF',
   'BLOCKCHAIN_TX_PROOF',
+  'SD_JWT_VC',
+  'MDOC',
   'OTHER'
 ]);
 
@@ -185,6 +263,9 @@ export const digestAlgEnum = z.enum([
 export const verifierProofRefSchema = z.object({
   proof_format: proofFormatEnum,
   proof_uri: z.string().optional(),
+  proof_bytes: z.string().optional(), // base64url proof bytes (LD_PROOF documents etc.), never persisted
+  kb_nonce: z.string().optional(), // SD_JWT_VC key-binding nonce issued by the verifier
+  kb_audience: z.string().optional(), // SD_JWT_VC key-binding audience (the verifier)
   proof_digest: z.string(),
   digest_alg: digestAlgEnum,
 });
@@ -216,6 +297,12 @@ export const insertProofAssetSchema = createInsertSchema(proofAssets, {
   statusListUrl: true,
   statusListIndex: true,
   statusPurpose: true,
+  suspensionListUrl: true,
+  suspensionListIndex: true,
+  messageListUrl: true,
+  messageListIndex: true,
+  revocationReason: true,
+  revokedAt: true,
 }).extend({
   verifier_proof_ref: verifierProofRefSchema,
 });
@@ -291,4 +378,8 @@ export interface VerificationResult {
 }
 
 export type MintFailure = typeof mintFailures.$inferSelect;
+export type ReceiptSigningKey = typeof receiptSigningKeys.$inferSelect;
+export type RevokedReceiptKey = typeof revokedReceiptKeys.$inferSelect;
+export type ReceiptIssuance = typeof receiptIssuances.$inferSelect;
+export type ZkVerificationKey = typeof zkVerificationKeys.$inferSelect;
 